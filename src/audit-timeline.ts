@@ -0,0 +1,57 @@
+import * as dotenv from 'dotenv';
+import { filterAuditEvents, formatTimeline, readAuditJournal } from './utils/audit-journal';
+
+dotenv.config();
+
+const USAGE = `Usage: npm run audit -- (--wallet <address> | --rescue <rescue-id>) [--file <journal.jsonl>]
+
+Renders the audit journal as a timeline. The journal defaults to AUDIT_JOURNAL_FILE.`;
+
+/**
+ * Parse "--name value" pairs
+ */
+function parseArgs(argv: string[]): Map<string, string> {
+  const args = new Map<string, string>();
+
+  for (let i = 0; i < argv.length; i += 2) {
+    const flag = argv[i];
+    const value = argv[i + 1];
+    if (!flag.startsWith('--') || value === undefined) {
+      throw new Error(`Invalid argument: ${flag}`);
+    }
+    args.set(flag.slice(2), value);
+  }
+
+  return args;
+}
+
+/**
+ * Print the timeline for one wallet or one rescue ID
+ */
+export function runAuditTimeline(argv: string[]): string {
+  const args = parseArgs(argv);
+  const wallet = args.get('wallet');
+  const rescueId = args.get('rescue');
+  const filePath = args.get('file') ?? process.env.AUDIT_JOURNAL_FILE;
+
+  if ((!wallet && !rescueId) || !filePath) {
+    throw new Error(USAGE);
+  }
+
+  const events = filterAuditEvents(readAuditJournal(filePath), { wallet, rescueId });
+  if (events.length === 0) {
+    return `No audit events for ${rescueId ? `rescue ${rescueId}` : `wallet ${wallet}`} in ${filePath}`;
+  }
+
+  return formatTimeline(events);
+}
+
+// Main entry point
+if (require.main === module) {
+  try {
+    console.log(runAuditTimeline(process.argv.slice(2)));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
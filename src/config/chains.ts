@@ -0,0 +1,154 @@
+/**
+ * How transactions on a chain are priced:
+ * - eip1559: type-2 transactions with base fee plus priority fee
+ * - legacy: type-0 transactions with a single gas price
+ */
+export type FeeModel = 'eip1559' | 'legacy';
+
+/**
+ * How a rollup charges for posting transaction data to L1:
+ * - op-stack: separate L1 data fee quoted by the GasPriceOracle predeploy
+ * - arbitrum: extra L2 gas quoted by the NodeInterface precompile
+ */
+export type L1FeeModel = 'op-stack' | 'arbitrum';
+
+export interface ChainConfig {
+  chainId: number;
+  name: string; // Network name passed to the bundle provider
+  displayName: string;
+  nativeSymbol: string;
+  relayUrl?: string; // eth_sendBundle endpoint; unset when no public relay exists
+  explorerUrl?: string;
+  feeModel: FeeModel;
+  l1FeeModel?: L1FeeModel; // Rollups only
+  sequencerUrl?: string; // Private submission route used instead of a bundle relay
+  supportsSimulation: boolean; // Relay implements eth_callBundle
+}
+
+/**
+ * Known chains keyed by chainId
+ */
+export const CHAINS: Record<number, ChainConfig> = {
+  1: {
+    chainId: 1,
+    name: 'mainnet',
+    displayName: 'Ethereum Mainnet',
+    nativeSymbol: 'ETH',
+    relayUrl: 'https://relay.flashbots.net',
+    explorerUrl: 'https://etherscan.io',
+    feeModel: 'eip1559',
+    supportsSimulation: true,
+  },
+  11155111: {
+    chainId: 11155111,
+    name: 'sepolia',
+    displayName: 'Sepolia Testnet',
+    nativeSymbol: 'ETH',
+    relayUrl: 'https://relay-sepolia.flashbots.net',
+    explorerUrl: 'https://sepolia.etherscan.io',
+    feeModel: 'eip1559',
+    supportsSimulation: true,
+  },
+  17000: {
+    chainId: 17000,
+    name: 'holesky',
+    displayName: 'Holesky Testnet',
+    nativeSymbol: 'ETH',
+    relayUrl: 'https://relay-holesky.flashbots.net',
+    explorerUrl: 'https://holesky.etherscan.io',
+    feeModel: 'eip1559',
+    supportsSimulation: true,
+  },
+  56: {
+    chainId: 56,
+    name: 'bsc',
+    displayName: 'BNB Smart Chain',
+    nativeSymbol: 'BNB',
+    relayUrl: 'https://puissant-builder.48.club',
+    explorerUrl: 'https://bscscan.com',
+    feeModel: 'legacy',
+    supportsSimulation: false,
+  },
+  137: {
+    chainId: 137,
+    name: 'matic',
+    displayName: 'Polygon PoS',
+    nativeSymbol: 'POL',
+    // Private orderflow on Polygon goes through paid builder endpoints, so FLASHBOTS_RPC_URL must be set
+    explorerUrl: 'https://polygonscan.com',
+    feeModel: 'eip1559',
+    supportsSimulation: false,
+  },
+  10: {
+    chainId: 10,
+    name: 'optimism',
+    displayName: 'OP Mainnet',
+    nativeSymbol: 'ETH',
+    explorerUrl: 'https://optimistic.etherscan.io',
+    feeModel: 'eip1559',
+    l1FeeModel: 'op-stack',
+    sequencerUrl: 'https://mainnet-sequencer.optimism.io',
+    supportsSimulation: false,
+  },
+  8453: {
+    chainId: 8453,
+    name: 'base',
+    displayName: 'Base',
+    nativeSymbol: 'ETH',
+    explorerUrl: 'https://basescan.org',
+    feeModel: 'eip1559',
+    l1FeeModel: 'op-stack',
+    sequencerUrl: 'https://mainnet-sequencer.base.org',
+    supportsSimulation: false,
+  },
+  42161: {
+    chainId: 42161,
+    name: 'arbitrum',
+    displayName: 'Arbitrum One',
+    nativeSymbol: 'ETH',
+    explorerUrl: 'https://arbiscan.io',
+    feeModel: 'eip1559',
+    l1FeeModel: 'arbitrum',
+    sequencerUrl: 'https://arb1-sequencer.arbitrum.io/rpc',
+    supportsSimulation: false,
+  },
+};
+
+/**
+ * Look up a chain by id, falling back to a generic EIP-1559 chain with no known relay
+ */
+export function getChainConfig(chainId: bigint | number): ChainConfig {
+  const id = Number(chainId);
+
+  return CHAINS[id] ?? {
+    chainId: id,
+    name: `chain-${id}`,
+    displayName: `Chain ${id}`,
+    nativeSymbol: 'ETH',
+    feeModel: 'eip1559',
+    supportsSimulation: true,
+  };
+}
+
+/**
+ * Pick the bundle relay: an explicit FLASHBOTS_RPC_URL wins over the chain default
+ */
+export function resolveRelayUrl(chain: ChainConfig, override?: string): string {
+  const relayUrl = override || chain.relayUrl;
+
+  if (!relayUrl) {
+    throw new Error(
+      `No bundle relay known for ${chain.displayName} (chainId ${chain.chainId}); set FLASHBOTS_RPC_URL`
+    );
+  }
+
+  return relayUrl;
+}
+
+export function explorerTxUrl(chain: ChainConfig, txHash: string): string | undefined {
+  return chain.explorerUrl ? `${chain.explorerUrl}/tx/${txHash}` : undefined;
+}
+
+export function explorerAddressUrl(chain: ChainConfig, address: string): string | undefined {
+  return chain.explorerUrl ? `${chain.explorerUrl}/address/${address}` : undefined;
+}
@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import { isAddress, isHexString } from 'ethers';
+
+/**
+ * Merkle distributor claim to execute and sweep atomically.
+ * Either `claimCalldata` or the `index`/`amount`/`proof` triple must be provided.
+ */
+export interface ClaimRescueConfig {
+  distributor: string;
+  token: string;
+  amount: bigint; // Tokens transferred to the safe wallet after the claim
+  index?: bigint;
+  account?: string; // Defaults to the compromised wallet
+  proof?: string[];
+  claimCalldata?: string; // Raw calldata for non-standard distributors
+  claimGasLimit?: bigint;
+  transferGasLimit?: bigint;
+}
+
+interface RawClaimRescueConfig {
+  distributor?: string;
+  token?: string;
+  amount?: string | number;
+  index?: string | number;
+  account?: string;
+  proof?: string[];
+  claimCalldata?: string;
+  claimGasLimit?: string | number;
+  transferGasLimit?: string | number;
+}
+
+/**
+ * Load a claim-and-sweep definition from a JSON file
+ */
+export function loadClaimRescueConfig(filePath: string): ClaimRescueConfig {
+  let raw: RawClaimRescueConfig;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to read claim file ${filePath}: ${(error as Error).message}`);
+  }
+
+  if (!raw.distributor || !isAddress(raw.distributor)) {
+    throw new Error('Claim file: invalid distributor address');
+  }
+
+  if (!raw.token || !isAddress(raw.token)) {
+    throw new Error('Claim file: invalid token address');
+  }
+
+  if (raw.amount === undefined) {
+    throw new Error('Claim file: amount is required');
+  }
+
+  if (raw.account !== undefined && !isAddress(raw.account)) {
+    throw new Error('Claim file: invalid account address');
+  }
+
+  if (raw.claimCalldata !== undefined) {
+    if (!isHexString(raw.claimCalldata)) {
+      throw new Error('Claim file: claimCalldata must be a hex string');
+    }
+  } else {
+    if (raw.index === undefined || !Array.isArray(raw.proof)) {
+      throw new Error('Claim file: provide claimCalldata or index and proof');
+    }
+
+    if (!raw.proof.every(node => isHexString(node, 32))) {
+      throw new Error('Claim file: proof entries must be 32-byte hex strings');
+    }
+  }
+
+  return {
+    distributor: raw.distributor,
+    token: raw.token,
+    amount: BigInt(raw.amount),
+    index: raw.index !== undefined ? BigInt(raw.index) : undefined,
+    account: raw.account,
+    proof: raw.proof,
+    claimCalldata: raw.claimCalldata,
+    claimGasLimit: raw.claimGasLimit !== undefined ? BigInt(raw.claimGasLimit) : undefined,
+    transferGasLimit: raw.transferGasLimit !== undefined ? BigInt(raw.transferGasLimit) : undefined,
+  };
+}
@@ -1,11 +1,57 @@
 import * as dotenv from 'dotenv';
 import { parseEther, isAddress } from 'ethers';
+import { NOTIFICATION_EVENT_TYPES, NotificationEventType } from '../notifiers/notifier';
 
 dotenv.config();
 
+export type BuilderAuthStyle = 'flashbots' | 'none' | 'header';
+
+export interface BuilderEndpoint {
+  name: string;
+  url: string;
+  auth: BuilderAuthStyle;
+  headerName?: string; // Only for 'header' auth
+  headerValue?: string;
+}
+
+export type BidStrategy = 'static' | 'linear' | 'exponential' | 'percent';
+
+const BID_STRATEGIES: BidStrategy[] = ['static', 'linear', 'exponential', 'percent'];
+
+// Default escalation step per strategy: gwei, multiplier, or percent of balance
+const DEFAULT_BID_ESCALATION: Record<BidStrategy, string> = {
+  static: '0',
+  linear: '1',
+  exponential: '1.25',
+  percent: '1',
+};
+
+export type BribeMode = 'priority-fee' | 'coinbase';
+
+export type ApprovalTimeoutPolicy = 'approve' | 'reject';
+
+export type NotifierChannel = 'telegram' | 'discord' | 'slack' | 'webhook' | 'email';
+
+const NOTIFIER_CHANNELS: NotifierChannel[] = ['telegram', 'discord', 'slack', 'webhook', 'email'];
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+// Least to most urgent
+export const ALERT_SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+
+/**
+ * Share of a rescued sweep sent to someone other than the safe wallet:
+ * a percentage of the swept amount or a fixed ETH amount
+ */
+export interface SplitRule {
+  recipient: string;
+  percent?: number;
+  amountWei?: bigint;
+}
+
 export interface Config {
   rpcUrl: string;
-  flashbotsRpcUrl: string;
+  flashbotsRpcUrl?: string; // Defaults to the relay for the connected chain
   compromisedPrivateKey: string;
   safeWalletAddress: string;
   checkIntervalMs: number;
@@ -14,6 +60,51 @@ export interface Config {
   maxPriorityFeeGwei: number;
   telegramBotToken?: string;
   telegramChatId?: string;
+  sponsorPrivateKey?: string;
+  tokenAddresses?: string[];
+  nftRescueFile?: string;
+  claimFile?: string;
+  builderEndpoints?: BuilderEndpoint[];
+  bidStrategy?: BidStrategy;
+  bidEscalation?: number;
+  maxBidSharePercent?: number;
+  bribeMode?: BribeMode;
+  coinbasePayerAddress?: string;
+  mempoolWatch?: boolean;
+  attackerOutbidPercent?: number;
+  gasLimitMarginPercent?: number;
+  walletsFile?: string; // Guard every wallet listed in this file instead of COMPROMISED_PRIVATE_KEY
+  splitRules?: SplitRule[]; // The safe wallet receives whatever the rules leave
+  scheduleFile?: string; // Known unlocks to pre-arm rescue bundles for
+  stateFile?: string; // Persist balances, bundles and outcomes here to survive restarts
+  auditJournalFile?: string; // JSONL journal of every rescue decision
+  metricsPort?: number; // Serve Prometheus metrics on this port
+  metricsHost?: string;
+  controlApiPort?: number; // Serve the local control API on this port
+  controlApiHost?: string;
+  controlApiToken?: string; // Bearer token the control API requires
+  telegramCommands?: boolean; // Answer operator commands in TELEGRAM_CHAT_ID
+  telegramAllowedUserIds?: number[]; // Only these users may send commands, when set
+  approvalThresholdWei?: bigint; // ETH sweeps of at least this much wait for approval in Telegram
+  approvalTimeoutMs?: number;
+  approvalTimeoutPolicy?: ApprovalTimeoutPolicy; // What happens when nobody answers in time
+  notifiers?: NotifierChannel[]; // Channels to alert through; every configured one when unset
+  discordWebhookUrl?: string;
+  slackWebhookUrl?: string;
+  webhookUrl?: string; // Receives every notification as JSON
+  webhookSecret?: string; // Signs webhook bodies with HMAC-SHA256
+  smtpHost?: string;
+  smtpPort?: number;
+  smtpSecure?: boolean; // Implicit TLS; otherwise STARTTLS when offered
+  smtpUser?: string;
+  smtpPassword?: string;
+  emailFrom?: string;
+  emailTo?: string[];
+  notifyMinSeverity?: AlertSeverity; // Channels skip alerts below this
+  notifyChannelSeverity?: Partial<Record<NotifierChannel, AlertSeverity>>; // Per-channel overrides
+  notifyDedupWindowsMs?: Partial<Record<NotificationEventType, number>>; // Overrides of the default windows
+  notifyRateLimitPerMinute?: number; // Per channel; 0 disables
+  notifyDigestIntervalMs?: number;
 }
 
 function getEnvVar(key: string, required = true): string {
@@ -24,36 +115,222 @@ function getEnvVar(key: string, required = true): string {
   return value || '';
 }
 
+function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+}
+
+/**
+ * Parse per-channel minimum severities from "channel:severity" entries, e.g. "email:critical,slack:warning"
+ */
+export function parseChannelSeverities(value: string): Partial<Record<NotifierChannel, AlertSeverity>> {
+  const severities: Partial<Record<NotifierChannel, AlertSeverity>> = {};
+
+  for (const entry of parseList(value)) {
+    const [channel, severity] = entry.split(':').map(part => part.trim());
+    if (!NOTIFIER_CHANNELS.includes(channel as NotifierChannel) || !ALERT_SEVERITIES.includes(severity as AlertSeverity)) {
+      throw new Error(`Invalid NOTIFY_CHANNEL_SEVERITY entry: ${entry} (expected channel:${ALERT_SEVERITIES.join('|')})`);
+    }
+    severities[channel as NotifierChannel] = severity as AlertSeverity;
+  }
+
+  return severities;
+}
+
+/**
+ * Parse dedup windows from "event-type:seconds" entries, e.g. "connection-issue:600,attacker-activity:60"
+ */
+export function parseDedupWindows(value: string): Partial<Record<NotificationEventType, number>> {
+  const windows: Partial<Record<NotificationEventType, number>> = {};
+
+  for (const entry of parseList(value)) {
+    const [type, seconds] = entry.split(':').map(part => part.trim());
+    if (!NOTIFICATION_EVENT_TYPES.includes(type as NotificationEventType) || !/^\d+$/.test(seconds ?? '')) {
+      throw new Error(`Invalid NOTIFY_DEDUP_WINDOWS entry: ${entry} (expected event-type:seconds)`);
+    }
+    windows[type as NotificationEventType] = parseInt(seconds, 10) * 1000;
+  }
+
+  return windows;
+}
+
+/**
+ * Parse builder endpoints from "name|url|auth" entries separated by commas,
+ * where auth is "flashbots", "none" or "header:Header-Name=value"
+ */
+export function parseBuilderEndpoints(value: string): BuilderEndpoint[] {
+  return parseList(value).map(entry => {
+    const [name, url, auth = 'none'] = entry.split('|').map(part => part.trim());
+
+    if (!name || !url) {
+      throw new Error(`Invalid BUILDER_ENDPOINTS entry: ${entry}`);
+    }
+
+    if (auth === 'flashbots' || auth === 'none') {
+      return { name, url, auth };
+    }
+
+    if (auth.startsWith('header:')) {
+      const header = auth.slice('header:'.length);
+      const separator = header.indexOf('=');
+      if (separator <= 0) {
+        throw new Error(`Invalid BUILDER_ENDPOINTS auth header for ${name}: expected header:Name=value`);
+      }
+
+      return {
+        name,
+        url,
+        auth: 'header',
+        headerName: header.slice(0, separator),
+        headerValue: header.slice(separator + 1),
+      };
+    }
+
+    throw new Error(`Invalid BUILDER_ENDPOINTS auth style for ${name}: ${auth}`);
+  });
+}
+
+/**
+ * Parse split rules from "recipient|share" entries separated by commas, where share
+ * is a percentage ("10%") or a fixed ETH amount ("0.5")
+ */
+export function parseSplitRules(value: string): SplitRule[] {
+  return parseList(value).map(entry => {
+    const [recipient, share] = entry.split('|').map(part => part.trim());
+
+    if (!recipient || !share) {
+      throw new Error(`Invalid SPLIT_RULES entry: ${entry}`);
+    }
+
+    if (share.endsWith('%')) {
+      return { recipient, percent: parseFloat(share.slice(0, -1)) };
+    }
+
+    try {
+      return { recipient, amountWei: parseEther(share) };
+    } catch {
+      throw new Error(`Invalid SPLIT_RULES share for ${recipient}: ${share}`);
+    }
+  });
+}
+
+function isPrivateKey(value: string): boolean {
+  return /^0x[0-9a-fA-F]{64}$/.test(value);
+}
+
 export function loadConfig(): Config {
+  const bidStrategy = (getEnvVar('BID_STRATEGY', false) || 'static') as BidStrategy;
+  const walletsFile = process.env.WALLETS_FILE || undefined;
+
   return {
     rpcUrl: getEnvVar('RPC_URL'),
-    flashbotsRpcUrl: getEnvVar('FLASHBOTS_RPC_URL', false) || 'https://relay.flashbots.net',
-    compromisedPrivateKey: getEnvVar('COMPROMISED_PRIVATE_KEY'),
-    safeWalletAddress: getEnvVar('SAFE_WALLET_ADDRESS'),
+    flashbotsRpcUrl: getEnvVar('FLASHBOTS_RPC_URL', false) || undefined,
+    compromisedPrivateKey: getEnvVar('COMPROMISED_PRIVATE_KEY', !walletsFile),
+    safeWalletAddress: getEnvVar('SAFE_WALLET_ADDRESS', !walletsFile),
     checkIntervalMs: parseInt(getEnvVar('CHECK_INTERVAL_MS', false) || '12000', 10),
     minRescueAmountWei: parseEther(getEnvVar('MIN_RESCUE_AMOUNT_ETH', false) || '0.005'),
     targetBlocks: parseInt(getEnvVar('TARGET_BLOCKS', false) || '5', 10),
     maxPriorityFeeGwei: parseFloat(getEnvVar('MAX_PRIORITY_FEE_GWEI', false) || '2'),
     telegramBotToken: process.env.TELEGRAM_BOT_TOKEN,
     telegramChatId: process.env.TELEGRAM_CHAT_ID,
+    sponsorPrivateKey: process.env.SPONSOR_PRIVATE_KEY || undefined,
+    tokenAddresses: parseList(getEnvVar('TOKEN_ADDRESSES', false)),
+    nftRescueFile: process.env.NFT_RESCUE_FILE || undefined,
+    claimFile: process.env.CLAIM_FILE || undefined,
+    builderEndpoints: parseBuilderEndpoints(getEnvVar('BUILDER_ENDPOINTS', false)),
+    bidStrategy,
+    bidEscalation: parseFloat(getEnvVar('BID_ESCALATION', false) || DEFAULT_BID_ESCALATION[bidStrategy] || '0'),
+    maxBidSharePercent: parseFloat(getEnvVar('MAX_BID_SHARE_PERCENT', false) || '50'),
+    bribeMode: (getEnvVar('BRIBE_MODE', false) || 'priority-fee') as BribeMode,
+    coinbasePayerAddress: process.env.COINBASE_PAYER_ADDRESS || undefined,
+    mempoolWatch: getEnvVar('MEMPOOL_WATCH', false) === 'true',
+    attackerOutbidPercent: parseFloat(getEnvVar('ATTACKER_OUTBID_PERCENT', false) || '10'),
+    gasLimitMarginPercent: parseFloat(getEnvVar('GAS_LIMIT_MARGIN_PERCENT', false) || '20'),
+    walletsFile,
+    splitRules: parseSplitRules(getEnvVar('SPLIT_RULES', false)),
+    scheduleFile: process.env.SCHEDULE_FILE || undefined,
+    stateFile: process.env.STATE_FILE || undefined,
+    auditJournalFile: process.env.AUDIT_JOURNAL_FILE || undefined,
+    metricsPort: process.env.METRICS_PORT ? parseInt(process.env.METRICS_PORT, 10) : undefined,
+    metricsHost: getEnvVar('METRICS_HOST', false) || '127.0.0.1',
+    controlApiPort: process.env.CONTROL_API_PORT ? parseInt(process.env.CONTROL_API_PORT, 10) : undefined,
+    controlApiHost: getEnvVar('CONTROL_API_HOST', false) || '127.0.0.1',
+    controlApiToken: process.env.CONTROL_API_TOKEN || undefined,
+    telegramCommands: getEnvVar('TELEGRAM_COMMANDS', false) === 'true',
+    telegramAllowedUserIds: parseList(getEnvVar('TELEGRAM_ALLOWED_USER_IDS', false)).map(id => Number(id)),
+    approvalThresholdWei: process.env.APPROVAL_THRESHOLD_ETH ? parseEther(process.env.APPROVAL_THRESHOLD_ETH) : undefined,
+    approvalTimeoutMs: parseInt(getEnvVar('APPROVAL_TIMEOUT_SECONDS', false) || '300', 10) * 1000,
+    approvalTimeoutPolicy: (getEnvVar('APPROVAL_TIMEOUT_POLICY', false) || 'reject') as ApprovalTimeoutPolicy,
+    notifiers: process.env.NOTIFIERS ? parseList(process.env.NOTIFIERS) as NotifierChannel[] : undefined,
+    discordWebhookUrl: process.env.DISCORD_WEBHOOK_URL || undefined,
+    slackWebhookUrl: process.env.SLACK_WEBHOOK_URL || undefined,
+    webhookUrl: process.env.WEBHOOK_URL || undefined,
+    webhookSecret: process.env.WEBHOOK_SECRET || undefined,
+    smtpHost: process.env.SMTP_HOST || undefined,
+    smtpPort: parseInt(getEnvVar('SMTP_PORT', false) || '587', 10),
+    smtpSecure: getEnvVar('SMTP_SECURE', false) === 'true',
+    smtpUser: process.env.SMTP_USER || undefined,
+    smtpPassword: process.env.SMTP_PASSWORD || undefined,
+    emailFrom: process.env.EMAIL_FROM || undefined,
+    emailTo: parseList(getEnvVar('EMAIL_TO', false)),
+    notifyMinSeverity: (getEnvVar('NOTIFY_MIN_SEVERITY', false) || 'info') as AlertSeverity,
+    notifyChannelSeverity: parseChannelSeverities(getEnvVar('NOTIFY_CHANNEL_SEVERITY', false)),
+    notifyDedupWindowsMs: parseDedupWindows(getEnvVar('NOTIFY_DEDUP_WINDOWS', false)),
+    notifyRateLimitPerMinute: parseInt(getEnvVar('NOTIFY_RATE_LIMIT_PER_MINUTE', false) || '20', 10),
+    notifyDigestIntervalMs: parseInt(getEnvVar('NOTIFY_DIGEST_MINUTES', false) || '15', 10) * 60000,
   };
 }
 
+/**
+ * Whether a notification channel has the settings it needs
+ */
+function isNotifierConfigured(config: Config, channel: NotifierChannel): boolean {
+  switch (channel) {
+    case 'telegram':
+      return !!config.telegramBotToken && !!config.telegramChatId;
+    case 'discord':
+      return !!config.discordWebhookUrl;
+    case 'slack':
+      return !!config.slackWebhookUrl;
+    case 'webhook':
+      return !!config.webhookUrl;
+    case 'email':
+      return !!config.smtpHost && !!config.emailFrom && (config.emailTo?.length ?? 0) > 0;
+  }
+}
+
+/**
+ * Channels to send notifications through: NOTIFIERS when set, otherwise every configured channel
+ */
+export function enabledNotifiers(config: Config): NotifierChannel[] {
+  return config.notifiers ?? NOTIFIER_CHANNELS.filter(channel => isNotifierConfigured(config, channel));
+}
+
 export function validateConfig(config: Config): void {
   if (!config.rpcUrl.startsWith('http')) {
     throw new Error('Invalid RPC_URL: must be a valid HTTP(S) URL');
   }
 
-  // Validate private key format (must be 0x + 64 hex chars)
-  if (!config.compromisedPrivateKey.startsWith('0x') ||
-      config.compromisedPrivateKey.length !== 66 ||
-      !/^0x[0-9a-fA-F]{64}$/.test(config.compromisedPrivateKey)) {
-    throw new Error('Invalid COMPROMISED_PRIVATE_KEY: must be 0x followed by 64 hex characters');
+  if (config.flashbotsRpcUrl && !config.flashbotsRpcUrl.startsWith('http')) {
+    throw new Error('Invalid FLASHBOTS_RPC_URL: must be a valid HTTP(S) URL');
   }
 
-  // Validate safe wallet address using ethers
-  if (!isAddress(config.safeWalletAddress)) {
-    throw new Error('Invalid SAFE_WALLET_ADDRESS: must be a valid Ethereum address');
+  if (config.walletsFile) {
+    validateMultiWalletConfig(config);
+  } else {
+    // Validate private key format (must be 0x + 64 hex chars)
+    if (!config.compromisedPrivateKey.startsWith('0x') ||
+        config.compromisedPrivateKey.length !== 66 ||
+        !/^0x[0-9a-fA-F]{64}$/.test(config.compromisedPrivateKey)) {
+      throw new Error('Invalid COMPROMISED_PRIVATE_KEY: must be 0x followed by 64 hex characters');
+    }
+
+    // Validate safe wallet address using ethers
+    if (!isAddress(config.safeWalletAddress)) {
+      throw new Error('Invalid SAFE_WALLET_ADDRESS: must be a valid Ethereum address');
+    }
   }
 
   // Validate Telegram settings if provided
@@ -65,6 +342,179 @@ export function validateConfig(config: Config): void {
     throw new Error('TELEGRAM_BOT_TOKEN is required when TELEGRAM_CHAT_ID is provided');
   }
 
+  if (config.telegramCommands && !config.telegramBotToken) {
+    throw new Error('TELEGRAM_BOT_TOKEN and TELEGRAM_CHAT_ID are required when TELEGRAM_COMMANDS is enabled');
+  }
+
+  if (config.telegramAllowedUserIds?.some(id => !Number.isSafeInteger(id))) {
+    throw new Error('Invalid TELEGRAM_ALLOWED_USER_IDS: must be comma-separated numeric Telegram user IDs');
+  }
+
+  if (config.approvalThresholdWei !== undefined) {
+    if (!config.telegramBotToken) {
+      throw new Error('TELEGRAM_BOT_TOKEN and TELEGRAM_CHAT_ID are required when APPROVAL_THRESHOLD_ETH is set');
+    }
+
+    if (config.approvalTimeoutPolicy !== 'approve' && config.approvalTimeoutPolicy !== 'reject') {
+      throw new Error('Invalid APPROVAL_TIMEOUT_POLICY: must be approve or reject');
+    }
+
+    if (!config.approvalTimeoutMs || isNaN(config.approvalTimeoutMs) || config.approvalTimeoutMs < 10000) {
+      throw new Error('APPROVAL_TIMEOUT_SECONDS must be at least 10');
+    }
+  }
+
+  for (const channel of config.notifiers ?? []) {
+    if (!NOTIFIER_CHANNELS.includes(channel)) {
+      throw new Error(`Invalid NOTIFIERS entry: ${channel} (expected ${NOTIFIER_CHANNELS.join(', ')})`);
+    }
+
+    if (!isNotifierConfigured(config, channel)) {
+      throw new Error(`NOTIFIERS includes ${channel} but its settings are missing`);
+    }
+  }
+
+  for (const [name, url] of [
+    ['DISCORD_WEBHOOK_URL', config.discordWebhookUrl],
+    ['SLACK_WEBHOOK_URL', config.slackWebhookUrl],
+    ['WEBHOOK_URL', config.webhookUrl],
+  ]) {
+    if (url && !url.startsWith('http')) {
+      throw new Error(`Invalid ${name}: must be a valid HTTP(S) URL`);
+    }
+  }
+
+  if (config.notifyMinSeverity !== undefined && !ALERT_SEVERITIES.includes(config.notifyMinSeverity)) {
+    throw new Error(`Invalid NOTIFY_MIN_SEVERITY: must be one of ${ALERT_SEVERITIES.join(', ')}`);
+  }
+
+  const rateLimit = config.notifyRateLimitPerMinute;
+  if (rateLimit !== undefined && (isNaN(rateLimit) || rateLimit < 0)) {
+    throw new Error('NOTIFY_RATE_LIMIT_PER_MINUTE must be 0 (no limit) or more');
+  }
+
+  const digestInterval = config.notifyDigestIntervalMs;
+  if (digestInterval !== undefined && (isNaN(digestInterval) || digestInterval < 60000)) {
+    throw new Error('NOTIFY_DIGEST_MINUTES must be at least 1');
+  }
+
+  if (config.smtpHost) {
+    if (!config.emailFrom || !config.emailTo?.length) {
+      throw new Error('EMAIL_FROM and EMAIL_TO are required when SMTP_HOST is set');
+    }
+
+    if (config.smtpPort === undefined || isNaN(config.smtpPort) || config.smtpPort < 1 || config.smtpPort > 65535) {
+      throw new Error('SMTP_PORT must be a port number between 1 and 65535');
+    }
+  }
+
+  if (config.sponsorPrivateKey) {
+    if (!isPrivateKey(config.sponsorPrivateKey)) {
+      throw new Error('Invalid SPONSOR_PRIVATE_KEY: must be 0x followed by 64 hex characters');
+    }
+
+    if (config.compromisedPrivateKey &&
+        config.sponsorPrivateKey.toLowerCase() === config.compromisedPrivateKey.toLowerCase()) {
+      throw new Error('SPONSOR_PRIVATE_KEY must differ from COMPROMISED_PRIVATE_KEY');
+    }
+  }
+
+  for (const tokenAddress of config.tokenAddresses ?? []) {
+    if (!isAddress(tokenAddress)) {
+      throw new Error(`Invalid TOKEN_ADDRESSES entry: ${tokenAddress}`);
+    }
+  }
+
+  if (config.tokenAddresses?.length && !config.sponsorPrivateKey) {
+    throw new Error('SPONSOR_PRIVATE_KEY is required when TOKEN_ADDRESSES is provided');
+  }
+
+  if (config.nftRescueFile && !config.sponsorPrivateKey) {
+    throw new Error('SPONSOR_PRIVATE_KEY is required when NFT_RESCUE_FILE is provided');
+  }
+
+  if (config.claimFile && !config.sponsorPrivateKey) {
+    throw new Error('SPONSOR_PRIVATE_KEY is required when CLAIM_FILE is provided');
+  }
+
+  for (const builder of config.builderEndpoints ?? []) {
+    if (!builder.url.startsWith('http')) {
+      throw new Error(`Invalid BUILDER_ENDPOINTS url for ${builder.name}: must be a valid HTTP(S) URL`);
+    }
+  }
+
+  if (config.bidStrategy && !BID_STRATEGIES.includes(config.bidStrategy)) {
+    throw new Error(`Invalid BID_STRATEGY: must be one of ${BID_STRATEGIES.join(', ')}`);
+  }
+
+  if (config.bidEscalation !== undefined && (isNaN(config.bidEscalation) || config.bidEscalation < 0)) {
+    throw new Error('BID_ESCALATION must be a non-negative number');
+  }
+
+  if (config.bidStrategy === 'exponential' && (config.bidEscalation ?? 0) < 1) {
+    throw new Error('BID_ESCALATION must be at least 1 for the exponential strategy');
+  }
+
+  if (config.maxBidSharePercent !== undefined &&
+      (isNaN(config.maxBidSharePercent) || config.maxBidSharePercent <= 0 || config.maxBidSharePercent >= 100)) {
+    throw new Error('MAX_BID_SHARE_PERCENT must be between 0 and 100');
+  }
+
+  if (config.bribeMode && config.bribeMode !== 'priority-fee' && config.bribeMode !== 'coinbase') {
+    throw new Error('Invalid BRIBE_MODE: must be priority-fee or coinbase');
+  }
+
+  if (config.bribeMode === 'coinbase') {
+    if (!config.coinbasePayerAddress || !isAddress(config.coinbasePayerAddress)) {
+      throw new Error('COINBASE_PAYER_ADDRESS must be a valid address when BRIBE_MODE is coinbase');
+    }
+  }
+
+  if (config.attackerOutbidPercent !== undefined &&
+      (isNaN(config.attackerOutbidPercent) || config.attackerOutbidPercent < 0)) {
+    throw new Error('ATTACKER_OUTBID_PERCENT must be a non-negative number');
+  }
+
+  if (config.gasLimitMarginPercent !== undefined &&
+      (isNaN(config.gasLimitMarginPercent) || config.gasLimitMarginPercent < 0)) {
+    throw new Error('GAS_LIMIT_MARGIN_PERCENT must be a non-negative number');
+  }
+
+  let splitPercent = 0;
+  for (const rule of config.splitRules ?? []) {
+    if (!isAddress(rule.recipient)) {
+      throw new Error(`Invalid SPLIT_RULES recipient: ${rule.recipient}`);
+    }
+
+    if (rule.percent !== undefined) {
+      if (isNaN(rule.percent) || rule.percent <= 0) {
+        throw new Error(`SPLIT_RULES percentage for ${rule.recipient} must be positive`);
+      }
+      splitPercent += rule.percent;
+    } else if (!rule.amountWei || rule.amountWei <= 0n) {
+      throw new Error(`SPLIT_RULES amount for ${rule.recipient} must be positive`);
+    }
+  }
+
+  if (splitPercent >= 100) {
+    throw new Error('SPLIT_RULES percentages must total less than 100, the safe wallet receives the remainder');
+  }
+
+  if (config.metricsPort !== undefined &&
+      (isNaN(config.metricsPort) || config.metricsPort < 1 || config.metricsPort > 65535)) {
+    throw new Error('METRICS_PORT must be a port number between 1 and 65535');
+  }
+
+  if (config.controlApiPort !== undefined) {
+    if (isNaN(config.controlApiPort) || config.controlApiPort < 1 || config.controlApiPort > 65535) {
+      throw new Error('CONTROL_API_PORT must be a port number between 1 and 65535');
+    }
+
+    if (!config.controlApiToken || config.controlApiToken.length < 16) {
+      throw new Error('CONTROL_API_TOKEN of at least 16 characters is required when CONTROL_API_PORT is set');
+    }
+  }
+
   if (config.checkIntervalMs < 1000) {
     throw new Error('CHECK_INTERVAL_MS must be at least 1000ms');
   }
@@ -73,3 +523,25 @@ export function validateConfig(config: Config): void {
     throw new Error('TARGET_BLOCKS must be between 1 and 10');
   }
 }
+
+/**
+ * Multi-wallet mode guards ETH balances only; the single-wallet settings do not apply
+ */
+function validateMultiWalletConfig(config: Config): void {
+  if (config.compromisedPrivateKey || config.safeWalletAddress) {
+    throw new Error('WALLETS_FILE replaces COMPROMISED_PRIVATE_KEY and SAFE_WALLET_ADDRESS; set one or the other');
+  }
+
+  const singleWalletSettings: Array<[string, boolean]> = [
+    ['TOKEN_ADDRESSES', !!config.tokenAddresses?.length],
+    ['NFT_RESCUE_FILE', !!config.nftRescueFile],
+    ['CLAIM_FILE', !!config.claimFile],
+    ['MEMPOOL_WATCH', !!config.mempoolWatch],
+  ];
+
+  for (const [name, isSet] of singleWalletSettings) {
+    if (isSet) {
+      throw new Error(`${name} is not supported with WALLETS_FILE`);
+    }
+  }
+}
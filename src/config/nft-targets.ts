@@ -0,0 +1,74 @@
+import * as fs from 'fs';
+import { isAddress } from 'ethers';
+
+export type NftStandard = 'erc721' | 'erc1155';
+
+export interface NftRescueTarget {
+  standard: NftStandard;
+  contract: string;
+  tokenIds: bigint[];
+  amounts?: bigint[]; // ERC-1155 only; defaults to the full held balance
+}
+
+interface RawNftRescueTarget {
+  standard?: string;
+  contract?: string;
+  tokenIds?: Array<string | number>;
+  amounts?: Array<string | number>;
+}
+
+/**
+ * Load NFT rescue targets from a JSON file
+ */
+export function loadNftRescueTargets(filePath: string): NftRescueTarget[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to read NFT rescue file ${filePath}: ${(error as Error).message}`);
+  }
+
+  if (!Array.isArray(raw)) {
+    throw new Error('NFT rescue file must contain a JSON array of targets');
+  }
+
+  return raw.map((entry: RawNftRescueTarget, i) => parseTarget(entry, i));
+}
+
+function parseTarget(entry: RawNftRescueTarget, index: number): NftRescueTarget {
+  const label = `NFT rescue target #${index}`;
+
+  if (entry.standard !== 'erc721' && entry.standard !== 'erc1155') {
+    throw new Error(`${label}: standard must be "erc721" or "erc1155"`);
+  }
+
+  if (!entry.contract || !isAddress(entry.contract)) {
+    throw new Error(`${label}: invalid contract address`);
+  }
+
+  if (!Array.isArray(entry.tokenIds) || entry.tokenIds.length === 0) {
+    throw new Error(`${label}: tokenIds must be a non-empty array`);
+  }
+
+  const tokenIds = entry.tokenIds.map(id => BigInt(id));
+
+  let amounts: bigint[] | undefined;
+  if (entry.amounts !== undefined) {
+    if (entry.standard !== 'erc1155') {
+      throw new Error(`${label}: amounts are only supported for erc1155`);
+    }
+
+    if (!Array.isArray(entry.amounts) || entry.amounts.length !== tokenIds.length) {
+      throw new Error(`${label}: amounts must match tokenIds length`);
+    }
+
+    amounts = entry.amounts.map(amount => BigInt(amount));
+  }
+
+  return {
+    standard: entry.standard,
+    contract: entry.contract,
+    tokenIds,
+    amounts,
+  };
+}
@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import { isAddress, parseEther } from 'ethers';
+
+/**
+ * Known unlock (TGE, vesting cliff, airdrop distribution) to pre-arm a rescue for.
+ * Exactly one of `unlockBlock` or `unlockTime` is set.
+ */
+export interface ScheduledUnlock {
+  name: string;
+  wallet?: string; // Wallet name or address from WALLETS_FILE; defaults to the single guarded wallet
+  unlockBlock?: number;
+  unlockTime?: number; // Unix seconds
+  token?: string; // ERC-20 to rescue; ETH when unset
+  expectedAmount: bigint; // Wei for ETH, token base units otherwise
+  windowBlocks: number; // Bundles are submitted from this many blocks before the unlock until this many after
+}
+
+interface RawScheduledUnlock {
+  name?: string;
+  wallet?: string;
+  unlockBlock?: string | number;
+  unlockTime?: string | number;
+  token?: string;
+  expectedAmountEth?: string | number;
+  expectedAmount?: string | number;
+  windowBlocks?: string | number;
+}
+
+export const DEFAULT_UNLOCK_WINDOW_BLOCKS = 3;
+
+/**
+ * Load scheduled unlocks from a JSON file
+ */
+export function loadSchedule(filePath: string): ScheduledUnlock[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to read schedule file ${filePath}: ${(error as Error).message}`);
+  }
+
+  if (!Array.isArray(raw)) {
+    throw new Error('Schedule file must contain a JSON array of unlocks');
+  }
+
+  return raw.map((entry: RawScheduledUnlock, i) => parseUnlock(entry, i));
+}
+
+function parseUnlock(entry: RawScheduledUnlock, index: number): ScheduledUnlock {
+  const name = entry.name || `unlock-${index}`;
+  const label = `Scheduled unlock ${name}`;
+
+  if ((entry.unlockBlock === undefined) === (entry.unlockTime === undefined)) {
+    throw new Error(`${label}: set exactly one of unlockBlock or unlockTime`);
+  }
+
+  let unlockBlock: number | undefined;
+  if (entry.unlockBlock !== undefined) {
+    unlockBlock = Number(entry.unlockBlock);
+    if (!Number.isInteger(unlockBlock) || unlockBlock <= 0) {
+      throw new Error(`${label}: unlockBlock must be a positive block number`);
+    }
+  }
+
+  let unlockTime: number | undefined;
+  if (entry.unlockTime !== undefined) {
+    // Unix seconds, or an ISO 8601 date
+    unlockTime = typeof entry.unlockTime === 'number' || /^\d+$/.test(entry.unlockTime)
+      ? Number(entry.unlockTime)
+      : Math.floor(Date.parse(entry.unlockTime) / 1000);
+    if (isNaN(unlockTime) || unlockTime <= 0) {
+      throw new Error(`${label}: unlockTime must be unix seconds or an ISO 8601 date`);
+    }
+  }
+
+  if (entry.token !== undefined && !isAddress(entry.token)) {
+    throw new Error(`${label}: invalid token address`);
+  }
+
+  let expectedAmount: bigint;
+  try {
+    expectedAmount = entry.token
+      ? BigInt(entry.expectedAmount ?? 0)
+      : parseEther(String(entry.expectedAmountEth ?? 0));
+  } catch {
+    throw new Error(`${label}: invalid expected amount`);
+  }
+
+  if (expectedAmount <= 0n) {
+    const field = entry.token ? 'expectedAmount (token base units)' : 'expectedAmountEth';
+    throw new Error(`${label}: ${field} must be positive`);
+  }
+
+  const windowBlocks = Number(entry.windowBlocks ?? DEFAULT_UNLOCK_WINDOW_BLOCKS);
+  if (!Number.isInteger(windowBlocks) || windowBlocks < 0) {
+    throw new Error(`${label}: windowBlocks must be a non-negative integer`);
+  }
+
+  return {
+    name,
+    wallet: entry.wallet,
+    unlockBlock,
+    unlockTime,
+    token: entry.token,
+    expectedAmount,
+    windowBlocks,
+  };
+}
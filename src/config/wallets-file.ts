@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import { isAddress, parseEther } from 'ethers';
+
+/**
+ * One compromised wallet guarded by a multi-wallet process
+ */
+export interface GuardedWalletConfig {
+  name: string;
+  privateKey: string;
+  safeWalletAddress: string;
+  minRescueAmountWei?: bigint; // Defaults to MIN_RESCUE_AMOUNT_ETH
+  maxPriorityFeeGwei?: number; // Defaults to MAX_PRIORITY_FEE_GWEI
+  telegramChatId?: string; // Defaults to TELEGRAM_CHAT_ID
+}
+
+interface RawGuardedWalletConfig {
+  name?: string;
+  privateKey?: string;
+  privateKeyEnv?: string;
+  safeWalletAddress?: string;
+  minRescueAmountEth?: string | number;
+  maxPriorityFeeGwei?: string | number;
+  telegramChatId?: string | number;
+}
+
+/**
+ * Load the guarded wallets from a JSON file. Private keys are given inline
+ * (`privateKey`) or by the name of an environment variable (`privateKeyEnv`).
+ */
+export function loadGuardedWallets(filePath: string): GuardedWalletConfig[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to read wallets file ${filePath}: ${(error as Error).message}`);
+  }
+
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error('Wallets file must contain a non-empty JSON array of wallets');
+  }
+
+  const wallets = raw.map((entry: RawGuardedWalletConfig, i) => parseWallet(entry, i));
+
+  const seenKeys = new Set<string>();
+  for (const wallet of wallets) {
+    const key = wallet.privateKey.toLowerCase();
+    if (seenKeys.has(key)) {
+      throw new Error(`Wallet ${wallet.name}: private key is listed more than once`);
+    }
+    seenKeys.add(key);
+  }
+
+  return wallets;
+}
+
+function parseWallet(entry: RawGuardedWalletConfig, index: number): GuardedWalletConfig {
+  const name = entry.name || `wallet-${index}`;
+  const label = `Wallet ${name}`;
+
+  const privateKey = entry.privateKeyEnv ? process.env[entry.privateKeyEnv] : entry.privateKey;
+  if (!privateKey || !/^0x[0-9a-fA-F]{64}$/.test(privateKey)) {
+    const source = entry.privateKeyEnv ? `environment variable ${entry.privateKeyEnv}` : 'privateKey';
+    throw new Error(`${label}: ${source} must be 0x followed by 64 hex characters`);
+  }
+
+  if (!entry.safeWalletAddress || !isAddress(entry.safeWalletAddress)) {
+    throw new Error(`${label}: invalid safeWalletAddress`);
+  }
+
+  let maxPriorityFeeGwei: number | undefined;
+  if (entry.maxPriorityFeeGwei !== undefined) {
+    maxPriorityFeeGwei = Number(entry.maxPriorityFeeGwei);
+    if (isNaN(maxPriorityFeeGwei) || maxPriorityFeeGwei < 0) {
+      throw new Error(`${label}: maxPriorityFeeGwei must be a non-negative number`);
+    }
+  }
+
+  let minRescueAmountWei: bigint | undefined;
+  if (entry.minRescueAmountEth !== undefined) {
+    try {
+      minRescueAmountWei = parseEther(String(entry.minRescueAmountEth));
+    } catch {
+      throw new Error(`${label}: invalid minRescueAmountEth`);
+    }
+  }
+
+  return {
+    name,
+    privateKey,
+    safeWalletAddress: entry.safeWalletAddress,
+    minRescueAmountWei,
+    maxPriorityFeeGwei,
+    telegramChatId: entry.telegramChatId !== undefined ? String(entry.telegramChatId) : undefined,
+  };
+}
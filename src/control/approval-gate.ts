@@ -0,0 +1,191 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { randomBytes } from 'crypto';
+import { formatEther, formatUnits } from 'ethers';
+import { ChainConfig } from '../config/chains';
+import { ApprovalTimeoutPolicy } from '../config/config';
+import { logger } from '../utils/logger';
+
+/**
+ * The sweep a human is asked to approve, as planned when the rescue was triggered
+ */
+export interface ApprovalRequest {
+  wallet: string;
+  rescueId?: string;
+  balance: bigint;
+  sweepAmount: bigint; // Estimated at the first target block's bid; later blocks bid more
+  destinations: string[]; // Safe wallet, plus split recipients when split rules apply
+  gasLimit: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  totalGasCost: bigint;
+  targetBlockCount: number; // Blocks targeted once approved
+  currentBlock: number;
+}
+
+export interface ApprovalDecision {
+  approved: boolean;
+  decidedBy: string; // Who pressed the button, or "timeout"
+  userId?: number;
+  timedOut: boolean;
+}
+
+/**
+ * Holds rescues of at least `threshold` until someone decides
+ */
+export interface ApprovalGate {
+  readonly threshold: bigint;
+  requestApproval(request: ApprovalRequest): Promise<ApprovalDecision>;
+}
+
+export interface TelegramApprovalOptions {
+  threshold: bigint;
+  timeoutMs: number;
+  timeoutPolicy: ApprovalTimeoutPolicy;
+  allowedUserIds?: number[]; // Only these users may decide, when set
+  chain?: ChainConfig;
+}
+
+interface PendingApproval {
+  resolve: (decision: ApprovalDecision) => void;
+  timer: NodeJS.Timeout;
+  messageId?: number;
+  text: string;
+}
+
+/**
+ * Posts each planned rescue to the Telegram chat with Approve/Reject buttons. The bot
+ * must be polling for callback queries to arrive. Without an answer before the timeout
+ * the policy decides; it also decides when the request cannot be posted.
+ */
+export class TelegramApprovalGate implements ApprovalGate {
+  readonly threshold: bigint;
+  private bot: TelegramBot;
+  private chatId: string;
+  private timeoutMs: number;
+  private timeoutPolicy: ApprovalTimeoutPolicy;
+  private allowedUserIds: Set<number>;
+  private nativeSymbol: string;
+  private pending = new Map<string, PendingApproval>();
+
+  constructor(bot: TelegramBot, chatId: string, options: TelegramApprovalOptions) {
+    this.bot = bot;
+    this.chatId = chatId;
+    this.threshold = options.threshold;
+    this.timeoutMs = options.timeoutMs;
+    this.timeoutPolicy = options.timeoutPolicy;
+    this.allowedUserIds = new Set(options.allowedUserIds ?? []);
+    this.nativeSymbol = options.chain?.nativeSymbol ?? 'ETH';
+
+    this.bot.on('callback_query', query => {
+      this.handleCallback(query).catch(error => logger.error('Failed to handle approval button', error));
+    });
+  }
+
+  async requestApproval(request: ApprovalRequest): Promise<ApprovalDecision> {
+    const id = randomBytes(6).toString('hex');
+    const text = this.formatRequest(request);
+
+    const decision = new Promise<ApprovalDecision>(resolve => {
+      const timer = setTimeout(() => {
+        logger.warn(`Approval for ${request.wallet} timed out, policy is to ${this.timeoutPolicy}`);
+        this.settle(id, { approved: this.timeoutPolicy === 'approve', decidedBy: 'timeout', timedOut: true });
+      }, this.timeoutMs);
+
+      this.pending.set(id, { resolve, timer, text });
+    });
+
+    try {
+      const message = await this.bot.sendMessage(this.chatId, text, {
+        disable_web_page_preview: true,
+        reply_markup: {
+          inline_keyboard: [[
+            { text: '✅ Approve', callback_data: `approve:${id}` },
+            { text: '❌ Reject', callback_data: `reject:${id}` },
+          ]],
+        },
+      });
+
+      const entry = this.pending.get(id);
+      if (entry) {
+        entry.messageId = message.message_id;
+      }
+      logger.info(`⏳ Waiting up to ${this.timeoutMs / 1000}s for approval to rescue ${request.wallet}`);
+    } catch (error) {
+      logger.error(`Failed to post approval request, applying timeout policy (${this.timeoutPolicy})`, error);
+      this.settle(id, { approved: this.timeoutPolicy === 'approve', decidedBy: 'timeout', timedOut: true });
+    }
+
+    return decision;
+  }
+
+  private async handleCallback(query: TelegramBot.CallbackQuery): Promise<void> {
+    const match = query.data?.match(/^(approve|reject):([0-9a-f]+)$/);
+    if (!match || String(query.message?.chat.id) !== this.chatId) {
+      return;
+    }
+
+    if (this.allowedUserIds.size > 0 && !this.allowedUserIds.has(query.from.id)) {
+      logger.warn(`Ignoring approval button from user ${query.from.id}, not in TELEGRAM_ALLOWED_USER_IDS`);
+      await this.bot.answerCallbackQuery(query.id, { text: 'You are not allowed to approve rescues' });
+      return;
+    }
+
+    const [, action, id] = match;
+    const decidedBy = query.from.username ? `@${query.from.username}` : `user ${query.from.id}`;
+    const settled = this.settle(id, {
+      approved: action === 'approve',
+      decidedBy,
+      userId: query.from.id,
+      timedOut: false,
+    });
+
+    await this.bot.answerCallbackQuery(query.id, {
+      text: settled ? (action === 'approve' ? 'Rescue approved' : 'Rescue rejected') : 'This request is no longer pending',
+    });
+  }
+
+  /**
+   * Resolve a pending request once; false when it was already decided
+   */
+  private settle(id: string, decision: ApprovalDecision): boolean {
+    const entry = this.pending.get(id);
+    if (!entry) {
+      return false;
+    }
+
+    this.pending.delete(id);
+    clearTimeout(entry.timer);
+    logger.info(`Rescue ${decision.approved ? 'approved' : 'rejected'} by ${decision.decidedBy}`);
+    entry.resolve(decision);
+
+    if (entry.messageId !== undefined) {
+      const outcome = decision.timedOut
+        ? `⏱️ No answer in time, ${decision.approved ? 'approved' : 'rejected'} by policy`
+        : `${decision.approved ? '✅ Approved' : '❌ Rejected'} by ${decision.decidedBy}`;
+
+      this.bot.editMessageText(`${entry.text}\n\n${outcome}`, { chat_id: this.chatId, message_id: entry.messageId })
+        .catch(error => logger.warn('Failed to update approval message', error));
+    }
+
+    return true;
+  }
+
+  private formatRequest(request: ApprovalRequest): string {
+    const amount = (wei: bigint) => `${parseFloat(formatEther(wei)).toFixed(6)} ${this.nativeSymbol}`;
+    const gwei = (wei: bigint) => `${formatUnits(wei, 'gwei')} gwei`;
+
+    return [
+      '🔐 Rescue awaiting approval',
+      `Wallet: ${request.wallet}`,
+      ...(request.rescueId ? [`Rescue ID: ${request.rescueId}`] : []),
+      `Balance: ${amount(request.balance)}`,
+      `Sweep: ~${amount(request.sweepAmount)}`,
+      `To: ${request.destinations.join(', ')}`,
+      `Gas: ${request.gasLimit} gas at up to ${gwei(request.maxFeePerGas)} (tip ${gwei(request.maxPriorityFeePerGas)}), ` +
+        `max cost ${amount(request.totalGasCost)}`,
+      `Target blocks: ${request.targetBlockCount} after approval (now at ${request.currentBlock})`,
+      '',
+      `No answer within ${Math.round(this.timeoutMs / 1000)}s: ${this.timeoutPolicy}`,
+    ].join('\n');
+  }
+}
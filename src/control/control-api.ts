@@ -0,0 +1,123 @@
+import * as http from 'http';
+import { timingSafeEqual } from 'crypto';
+import { RescueController } from './rescue-controller';
+import { logger } from '../utils/logger';
+
+export interface ControlApiOptions {
+  port: number;
+  host: string;
+  token: string; // Required as "Authorization: Bearer <token>" on every request
+}
+
+const MAX_BODY_BYTES = 10 * 1024;
+
+/**
+ * Local HTTP API over the rescue controller:
+ * - GET /status: wallets, last balances, connection, circuit breakers, recent attempts
+ * - POST /pause, POST /resume: stop or restart balance-triggered rescues
+ * - POST /rescue: sweep a wallet now, body {"wallet": "<name or address>"} when several are guarded
+ */
+export function startControlApi(controller: RescueController, options: ControlApiOptions): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    handleRequest(controller, options.token, req, res).catch(error => {
+      logger.error('Control API request failed', error);
+      sendJson(res, 500, { error: 'Internal error' });
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      logger.info(`🛠️ Control API listening on http://${options.host}:${options.port}`);
+      resolve(server);
+    });
+  });
+}
+
+async function handleRequest(
+  controller: RescueController,
+  token: string,
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+): Promise<void> {
+  if (!isAuthorized(req.headers.authorization, token)) {
+    sendJson(res, 401, { error: 'Unauthorized' });
+    return;
+  }
+
+  const route = `${req.method} ${req.url?.split('?')[0]}`;
+
+  switch (route) {
+    case 'GET /status':
+      sendJson(res, 200, controller.getStatus());
+      return;
+
+    case 'POST /pause':
+      controller.pause();
+      sendJson(res, 200, { paused: true });
+      return;
+
+    case 'POST /resume':
+      controller.resume();
+      sendJson(res, 200, { paused: false });
+      return;
+
+    case 'POST /rescue': {
+      let body: { wallet?: unknown };
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendJson(res, 400, { error: (error as Error).message });
+        return;
+      }
+
+      const result = await controller.rescueNow(typeof body.wallet === 'string' ? body.wallet : undefined);
+      sendJson(res, result.accepted ? 202 : 409, result);
+      return;
+    }
+
+    default:
+      sendJson(res, 404, { error: `Unknown endpoint: ${route}` });
+  }
+}
+
+function isAuthorized(header: string | undefined, token: string): boolean {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const received = Buffer.from(header ?? '');
+
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<{ wallet?: unknown }> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8').trim();
+  if (!text) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(text);
+    if (typeof parsed !== 'object' || parsed === null) {
+      throw new Error();
+    }
+    return parsed;
+  } catch {
+    throw new Error('Request body must be a JSON object');
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body, (_, value) => typeof value === 'bigint' ? value.toString() : value));
+}
@@ -0,0 +1,213 @@
+import { JsonRpcProvider } from 'ethers';
+import { ConnectionState } from '../monitors/balance-monitor';
+import { FlashbotsRescue } from '../rescue/flashbots-rescue';
+import { CircuitBreakerSnapshot } from '../utils/retry';
+import { RescueRecord } from '../utils/state-store';
+import { logger } from '../utils/logger';
+
+/**
+ * A guarded wallet as seen by the control surfaces
+ */
+export interface ControlledWallet {
+  name: string;
+  address: string;
+  flashbotsRescue: FlashbotsRescue;
+  getLastBalance(): bigint | undefined;
+  getCurrentBalance(): Promise<bigint>;
+  getConnectionState(): ConnectionState;
+  isRescueInProgress(): boolean;
+  rescue(balance: bigint): Promise<void>; // The bot's own rescue handler, with its lock and notifications
+}
+
+/**
+ * A monitor that can stop triggering rescues without being torn down
+ */
+export interface PausableMonitor {
+  pause(): void;
+  resume(): void;
+}
+
+export interface WalletStatus {
+  name: string;
+  address: string;
+  lastBalance?: bigint;
+  rescueInProgress: boolean;
+  connection: ConnectionState;
+  circuitBreaker: CircuitBreakerSnapshot;
+  recentAttempts: RescueRecord[];
+}
+
+export interface BotStatus {
+  paused: boolean;
+  startedAt: number; // Unix ms
+  wallets: WalletStatus[];
+}
+
+/**
+ * Current network fees, and what a plain ETH sweep would cost at them
+ */
+export interface GasInfo {
+  blockNumber: number;
+  baseFeePerGas?: bigint; // Unset on legacy-fee chains
+  maxPriorityFeePerGas?: bigint;
+  gasPrice?: bigint;
+  transferCost: bigint; // 21000 gas at base fee plus priority fee (or gas price)
+}
+
+const TRANSFER_GAS = 21000n;
+
+export interface ManualRescueResult {
+  accepted: boolean;
+  wallet?: string;
+  balance?: bigint;
+  error?: string;
+}
+
+/**
+ * Everything an operator can see and do on a running bot, shared by the HTTP API
+ * and chat commands so both behave the same
+ */
+export class RescueController {
+  private provider: JsonRpcProvider;
+  private monitors: PausableMonitor[];
+  private wallets = new Map<string, ControlledWallet>();
+  private paused = false;
+  private startedAt = Date.now();
+
+  constructor(provider: JsonRpcProvider, monitors: PausableMonitor[]) {
+    this.provider = provider;
+    this.monitors = monitors;
+  }
+
+  addWallet(wallet: ControlledWallet): void {
+    this.wallets.set(wallet.address.toLowerCase(), wallet);
+  }
+
+  /**
+   * Stop reporting a wallet, e.g. once it has been rescued
+   */
+  removeWallet(address: string): void {
+    this.wallets.delete(address.toLowerCase());
+  }
+
+  getStatus(): BotStatus {
+    return {
+      paused: this.paused,
+      startedAt: this.startedAt,
+      wallets: [...this.wallets.values()].map(wallet => ({
+        name: wallet.name,
+        address: wallet.address,
+        lastBalance: wallet.getLastBalance(),
+        rescueInProgress: wallet.isRescueInProgress(),
+        connection: wallet.getConnectionState(),
+        circuitBreaker: wallet.flashbotsRescue.getCircuitBreakerSnapshot(),
+        recentAttempts: wallet.flashbotsRescue.getRecentAttempts(),
+      })),
+    };
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Stop triggering rescues from balance changes; manual rescues still run
+   */
+  pause(): void {
+    if (this.paused) {
+      return;
+    }
+
+    this.paused = true;
+    this.monitors.forEach(monitor => monitor.pause());
+    logger.warn('⏸️ Monitoring paused by operator');
+  }
+
+  resume(): void {
+    if (!this.paused) {
+      return;
+    }
+
+    this.paused = false;
+    this.monitors.forEach(monitor => monitor.resume());
+    logger.info('▶️ Monitoring resumed by operator');
+  }
+
+  /**
+   * Live balance of every guarded wallet
+   */
+  async getBalances(): Promise<Array<{ name: string; address: string; balance: bigint }>> {
+    return Promise.all([...this.wallets.values()].map(async wallet => ({
+      name: wallet.name,
+      address: wallet.address,
+      balance: await wallet.getCurrentBalance(),
+    })));
+  }
+
+  async getGasInfo(): Promise<GasInfo> {
+    const [block, feeData] = await Promise.all([
+      this.provider.getBlock('latest'),
+      this.provider.getFeeData(),
+    ]);
+    if (!block) {
+      throw new Error('Failed to fetch latest block');
+    }
+
+    const baseFeePerGas = block.baseFeePerGas ?? undefined;
+    const maxPriorityFeePerGas = feeData.maxPriorityFeePerGas ?? undefined;
+    const gasPrice = feeData.gasPrice ?? undefined;
+    const pricePerGas = baseFeePerGas !== undefined
+      ? baseFeePerGas + (maxPriorityFeePerGas ?? 0n)
+      : gasPrice ?? 0n;
+
+    return {
+      blockNumber: block.number,
+      baseFeePerGas,
+      maxPriorityFeePerGas,
+      gasPrice,
+      transferCost: pricePerGas * TRANSFER_GAS,
+    };
+  }
+
+  /**
+   * Sweep a wallet's current balance now. The rescue runs in the background; its
+   * outcome shows up in recent attempts and notifications.
+   */
+  async rescueNow(walletRef?: string): Promise<ManualRescueResult> {
+    const wallet = this.findWallet(walletRef);
+    if (!wallet) {
+      return {
+        accepted: false,
+        error: walletRef
+          ? `Unknown wallet: ${walletRef}`
+          : 'Several wallets are guarded, name the one to rescue',
+      };
+    }
+
+    if (wallet.isRescueInProgress()) {
+      return { accepted: false, wallet: wallet.address, error: 'Rescue already in progress' };
+    }
+
+    const balance = await this.provider.getBalance(wallet.address);
+    if (balance === 0n) {
+      return { accepted: false, wallet: wallet.address, balance, error: 'Nothing to rescue, balance is 0' };
+    }
+
+    logger.info(`🛠️ Manual rescue requested for ${wallet.address}`);
+    wallet.rescue(balance).catch(error => logger.error(`Manual rescue for ${wallet.address} failed`, error));
+
+    return { accepted: true, wallet: wallet.address, balance };
+  }
+
+  /**
+   * Look up a wallet by name or address; the only wallet when none is given
+   */
+  findWallet(walletRef?: string): ControlledWallet | undefined {
+    if (!walletRef) {
+      return this.wallets.size === 1 ? [...this.wallets.values()][0] : undefined;
+    }
+
+    return this.wallets.get(walletRef.toLowerCase())
+      ?? [...this.wallets.values()].find(wallet => wallet.name === walletRef);
+  }
+}
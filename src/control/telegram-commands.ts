@@ -0,0 +1,242 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { formatEther, formatUnits } from 'ethers';
+import { RescueController } from './rescue-controller';
+import { ChainConfig } from '../config/chains';
+import { logger } from '../utils/logger';
+import { RescueRecord } from '../utils/state-store';
+
+/**
+ * A command as received from Telegram, reduced to what access checks and handlers need
+ */
+export interface IncomingCommand {
+  chatId: string;
+  userId?: number;
+  text: string;
+}
+
+const HISTORY_LIMIT = 10;
+
+const COMMANDS: Array<{ command: string; description: string }> = [
+  { command: 'status', description: 'Wallets, connection, circuit breakers' },
+  { command: 'balance', description: 'Live balance of guarded wallets' },
+  { command: 'pause', description: 'Stop triggering rescues from balance changes' },
+  { command: 'resume', description: 'Resume balance-triggered rescues' },
+  { command: 'rescue_now', description: 'Sweep a wallet now: /rescue_now [wallet]' },
+  { command: 'gas', description: 'Current base fee, priority fee and sweep cost' },
+  { command: 'history', description: 'Recent rescue attempts' },
+];
+
+/**
+ * Answers operator commands sent to the bot's chat; the bot must be polling. Only
+ * messages from the configured chat are handled, and when an allowlist is set
+ * only from those user IDs; everything else is ignored without a reply.
+ */
+export class TelegramCommands {
+  private bot: TelegramBot;
+  private chatId: string;
+  private allowedUserIds: Set<number>;
+  private controller: RescueController;
+  private nativeSymbol: string;
+
+  constructor(
+    bot: TelegramBot,
+    chatId: string,
+    allowedUserIds: number[],
+    controller: RescueController,
+    chain?: ChainConfig
+  ) {
+    this.bot = bot;
+    this.chatId = chatId;
+    this.allowedUserIds = new Set(allowedUserIds);
+    this.controller = controller;
+    this.nativeSymbol = chain?.nativeSymbol ?? 'ETH';
+  }
+
+  async start(): Promise<void> {
+    this.bot.on('message', msg => {
+      if (!msg.text) {
+        return;
+      }
+
+      this.handleCommand({ chatId: String(msg.chat.id), userId: msg.from?.id, text: msg.text })
+        .then(reply => reply ? this.bot.sendMessage(msg.chat.id, reply, { disable_web_page_preview: true }) : undefined)
+        .catch(error => logger.error('Failed to answer Telegram command', error));
+    });
+
+    try {
+      await this.bot.setMyCommands(COMMANDS);
+    } catch (error) {
+      logger.warn('Failed to register Telegram command list', error);
+    }
+
+    logger.info(`💬 Telegram commands enabled for chat ${this.chatId}`);
+  }
+
+  /**
+   * Run one command; undefined means the message is not for us and gets no reply
+   */
+  async handleCommand(command: IncomingCommand): Promise<string | undefined> {
+    const match = command.text.trim().match(/^\/([a-z_]+)(?:@\S+)?(?:\s+(.*))?$/i);
+    if (!match || !this.isAuthorized(command)) {
+      return undefined;
+    }
+
+    const name = match[1].toLowerCase();
+    const arg = match[2]?.trim() || undefined;
+
+    try {
+      switch (name) {
+        case 'status':
+          return this.formatStatus();
+
+        case 'balance':
+          return await this.formatBalances(arg);
+
+        case 'pause':
+          this.controller.pause();
+          logger.info(`Paused from Telegram by user ${command.userId}`);
+          return '⏸️ Monitoring paused. Manual rescues still run; /resume to restart.';
+
+        case 'resume':
+          this.controller.resume();
+          logger.info(`Resumed from Telegram by user ${command.userId}`);
+          return '▶️ Monitoring resumed.';
+
+        case 'rescue_now': {
+          const result = await this.controller.rescueNow(arg);
+          if (!result.accepted) {
+            return `❌ Rescue not started: ${result.error}`;
+          }
+          logger.info(`Manual rescue of ${result.wallet} requested from Telegram by user ${command.userId}`);
+          return `🛠️ Rescue started for ${result.wallet} (${this.formatAmount(result.balance!)}). ` +
+            'The outcome follows as a notification.';
+        }
+
+        case 'gas':
+          return await this.formatGas();
+
+        case 'history':
+          return this.formatHistory(arg);
+
+        case 'start':
+        case 'help':
+          return COMMANDS.map(({ command, description }) => `/${command} - ${description}`).join('\n');
+
+        default:
+          return `Unknown command /${name}, try /help`;
+      }
+    } catch (error) {
+      logger.error(`Telegram command /${name} failed`, error);
+      return `❌ /${name} failed: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  private isAuthorized(command: IncomingCommand): boolean {
+    if (command.chatId !== this.chatId) {
+      return false;
+    }
+
+    if (this.allowedUserIds.size > 0 && (command.userId === undefined || !this.allowedUserIds.has(command.userId))) {
+      logger.warn(`Ignoring Telegram command from user ${command.userId}, not in TELEGRAM_ALLOWED_USER_IDS`);
+      return false;
+    }
+
+    return true;
+  }
+
+  private formatStatus(): string {
+    const status = this.controller.getStatus();
+    const lines = [
+      `${status.paused ? '⏸️ Paused' : '▶️ Running'} since ${new Date(status.startedAt).toISOString()}`,
+    ];
+
+    for (const wallet of status.wallets) {
+      const connection = wallet.connection.connected
+        ? wallet.connection.mode
+        : `${wallet.connection.mode}, disconnected (${wallet.connection.reconnectAttempts} reconnect attempts)`;
+
+      lines.push(
+        '',
+        `${wallet.name} ${wallet.address}`,
+        `  Last balance: ${wallet.lastBalance !== undefined ? this.formatAmount(wallet.lastBalance) : 'unknown'}`,
+        `  Connection: ${connection}`,
+        `  Circuit breaker: ${wallet.circuitBreaker.state} (${wallet.circuitBreaker.failureCount} failures)`,
+        `  Rescue in progress: ${wallet.rescueInProgress ? 'yes' : 'no'}`
+      );
+    }
+
+    return lines.join('\n');
+  }
+
+  private async formatBalances(walletRef?: string): Promise<string> {
+    let balances = await this.controller.getBalances();
+    if (walletRef) {
+      const wallet = this.controller.findWallet(walletRef);
+      if (!wallet) {
+        return `Unknown wallet: ${walletRef}`;
+      }
+      balances = balances.filter(entry => entry.address === wallet.address);
+    }
+
+    if (balances.length === 0) {
+      return 'No wallets are guarded';
+    }
+
+    return balances.map(entry => `${entry.name} ${entry.address}: ${this.formatAmount(entry.balance)}`).join('\n');
+  }
+
+  private async formatGas(): Promise<string> {
+    const gas = await this.controller.getGasInfo();
+    const gwei = (wei?: bigint) => wei !== undefined ? `${formatUnits(wei, 'gwei')} gwei` : 'n/a';
+
+    return [
+      `⛽ Block ${gas.blockNumber}`,
+      `Base fee: ${gwei(gas.baseFeePerGas)}`,
+      `Priority fee: ${gwei(gas.maxPriorityFeePerGas)}`,
+      `Gas price: ${gwei(gas.gasPrice)}`,
+      `Plain transfer costs: ${this.formatAmount(gas.transferCost)}`,
+    ].join('\n');
+  }
+
+  private formatHistory(walletRef?: string): string {
+    let wallets = this.controller.getStatus().wallets;
+    if (walletRef) {
+      const wallet = this.controller.findWallet(walletRef);
+      if (!wallet) {
+        return `Unknown wallet: ${walletRef}`;
+      }
+      wallets = wallets.filter(status => status.address === wallet.address);
+    }
+
+    const attempts = wallets
+      .flatMap(status => status.recentAttempts)
+      .sort((a, b) => b.at - a.at)
+      .slice(0, HISTORY_LIMIT);
+
+    if (attempts.length === 0) {
+      return 'No rescue attempts yet';
+    }
+
+    return attempts.map(attempt => {
+      const outcome = attempt.success
+        ? `✅ ${this.formatRescued(attempt)}` + (attempt.blockNumber ? ` in block ${attempt.blockNumber}` : '')
+        : `❌ ${attempt.error ?? 'failed'}`;
+
+      return `${new Date(attempt.at).toISOString()} ${attempt.kind} ${attempt.wallet}\n  ${outcome}`;
+    }).join('\n');
+  }
+
+  /**
+   * Native amounts only: token amounts are in base units of a token whose decimals are not on record
+   */
+  private formatRescued(attempt: RescueRecord): string {
+    if (attempt.tokenAddress) {
+      return `token ${attempt.tokenAddress}`;
+    }
+    return attempt.amountRescued !== undefined ? this.formatAmount(attempt.amountRescued) : 'landed';
+  }
+
+  private formatAmount(wei: bigint): string {
+    return `${parseFloat(formatEther(wei)).toFixed(6)} ${this.nativeSymbol}`;
+  }
+}
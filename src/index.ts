@@ -1,16 +1,51 @@
-import { JsonRpcProvider, Wallet } from 'ethers';
-import { loadConfig, validateConfig } from './config/config';
+import TelegramBot from 'node-telegram-bot-api';
+import { Contract, JsonRpcProvider, Wallet, formatUnits } from 'ethers';
+import { Config, enabledNotifiers, loadConfig, NotifierChannel, validateConfig } from './config/config';
+import { ChainConfig, CHAINS, getChainConfig } from './config/chains';
+import { loadNftRescueTargets, NftRescueTarget } from './config/nft-targets';
+import { loadClaimRescueConfig, ClaimRescueConfig } from './config/claim-file';
+import { loadGuardedWallets } from './config/wallets-file';
+import { loadSchedule, ScheduledUnlock } from './config/schedule-file';
 import { BalanceMonitor } from './monitors/balance-monitor';
-import { FlashbotsRescue } from './rescue/flashbots-rescue';
-import { TelegramNotifier } from './utils/telegram-notifier';
+import { IncomingTransaction, MempoolMonitor } from './monitors/mempool-monitor';
+import { MultiWalletMonitor } from './monitors/multi-wallet-monitor';
+import { UnlockScheduler } from './monitors/unlock-scheduler';
+import { FlashbotsRescue, FlashbotsRescueOptions, RescueResult } from './rescue/flashbots-rescue';
+import { ERC20_ABI } from './rescue/abis';
+import { TelegramNotifier } from './notifiers/telegram-notifier';
+import { Notifier } from './notifiers/notifier';
+import { NotificationChannel, NotificationRouter, RateLimiter } from './notifiers/notification-router';
+import { DiscordNotifier } from './notifiers/discord-notifier';
+import { SlackNotifier } from './notifiers/slack-notifier';
+import { WebhookNotifier } from './notifiers/webhook-notifier';
+import { EmailNotifier } from './notifiers/email-notifier';
+import { StateStore } from './utils/state-store';
+import { AuditJournal } from './utils/audit-journal';
+import { startMetricsServer } from './utils/metrics';
+import { RescueController } from './control/rescue-controller';
+import { startControlApi } from './control/control-api';
+import { TelegramCommands } from './control/telegram-commands';
+import { ApprovalGate, TelegramApprovalGate } from './control/approval-gate';
 import { logger, LogLevel } from './utils/logger';
 
+/**
+ * A wallet's rescue lock; acquire fails while another rescue of the wallet is running
+ */
+interface RescueLock {
+  acquire(): boolean;
+  release(): void;
+}
+
 /**
  * Main rescue bot application
  */
 class RescueBot {
   private isRescueInProgress = false;
-  private telegramNotifier?: TelegramNotifier;
+  private walletsInRescue = new Set<string>(); // Multi-wallet mode locks, by address
+  private notifier?: Notifier;
+  private telegramChannels = new Map<string, NotificationChannel | undefined>(); // By chat, undefined when unreachable
+  private controller?: RescueController;
+  private telegramPoller?: TelegramBot; // Receives commands and approval buttons
 
   async run(): Promise<void> {
     try {
@@ -20,19 +55,59 @@ class RescueBot {
       validateConfig(config);
 
       logger.info('Configuration loaded successfully');
-      logger.info(`Safe wallet: ${config.safeWalletAddress}`);
       logger.info(`RPC URL: ${config.rpcUrl}`);
+      if (config.builderEndpoints?.length) {
+        logger.info(`Additional builders: ${config.builderEndpoints.map(builder => builder.name).join(', ')}`);
+      }
+      if (config.splitRules?.length) {
+        logger.info(`Split rules: ${config.splitRules.length} recipient(s) besides the safe wallet`);
+      }
 
-      // Initialize provider and wallet
+      // Initialize provider
       const provider = new JsonRpcProvider(config.rpcUrl);
-      const wallet = new Wallet(config.compromisedPrivateKey, provider);
-
-      logger.info(`Monitoring wallet: ${wallet.address}`);
 
       // Verify connection
       const network = await provider.getNetwork();
       logger.info(`Connected to network: ${network.name} (chainId: ${network.chainId})`);
 
+      const chain = getChainConfig(network.chainId);
+      if (!CHAINS[chain.chainId]) {
+        logger.warn(`Chain ${network.chainId} is not in the chain registry, using generic EIP-1559 defaults`);
+      }
+      logger.info(`Chain: ${chain.displayName} (fee model: ${chain.feeModel})`);
+
+      const stateStore = config.stateFile ? new StateStore(config.stateFile) : undefined;
+      const auditJournal = config.auditJournalFile ? new AuditJournal(config.auditJournalFile) : undefined;
+      if (auditJournal) {
+        logger.info(`Audit journal: ${config.auditJournalFile}`);
+      }
+
+      if (config.metricsPort !== undefined) {
+        await startMetricsServer(config.metricsPort, config.metricsHost!);
+      }
+
+      const approvalGate = this.createApprovalGate(config, chain);
+
+      if (config.walletsFile) {
+        await this.runMultiWallet(config, provider, chain, stateStore, auditJournal, approvalGate);
+        return;
+      }
+
+      logger.info(`Safe wallet: ${config.safeWalletAddress}`);
+
+      const wallet = new Wallet(config.compromisedPrivateKey, provider);
+
+      logger.info(`Monitoring wallet: ${wallet.address}`);
+
+      // Sponsor wallet pays gas for token rescues
+      const sponsorWallet = config.sponsorPrivateKey
+        ? new Wallet(config.sponsorPrivateKey, provider)
+        : undefined;
+
+      if (sponsorWallet) {
+        logger.info(`Sponsor wallet: ${sponsorWallet.address}`);
+      }
+
       // Initialize Flashbots rescue
       const flashbotsRescue = new FlashbotsRescue(
         provider,
@@ -41,21 +116,27 @@ class RescueBot {
         config.minRescueAmountWei,
         config.targetBlocks,
         config.maxPriorityFeeGwei,
-        config.flashbotsRpcUrl
+        config.flashbotsRpcUrl,
+        { ...this.buildRescueOptions(config, chain, stateStore, auditJournal, approvalGate), sponsorWallet }
       );
 
       await flashbotsRescue.initialize();
 
-      // Initialize Telegram notifications
-      if (config.telegramBotToken && config.telegramChatId) {
-        this.telegramNotifier = new TelegramNotifier(config.telegramBotToken, config.telegramChatId);
+      // Initialize notifications
+      const sharedChannels = await this.createSharedNotifiers(config, chain);
+      this.notifier = await this.getNotifier(config, chain, config.telegramChatId, sharedChannels);
 
-        // Test Telegram connection
-        const telegramWorking = await this.telegramNotifier.testConnection();
-        if (!telegramWorking) {
-          logger.warn('Telegram notifications test failed, continuing without notifications');
-          this.telegramNotifier = undefined;
-        }
+      // A bundle the previous run left in flight may have landed while we were down
+      const recovered = await flashbotsRescue.recoverInFlightBundles();
+      if (recovered) {
+        await this.notifier?.sendRescueSuccess({
+          success: true,
+          walletAddress: wallet.address,
+          txHash: recovered.txHash,
+          blockNumber: recovered.blockNumber,
+          rescueType: 'recovered'
+        });
+        process.exit(0);
       }
 
       // Initialize balance monitor
@@ -63,9 +144,13 @@ class RescueBot {
         provider,
         wallet,
         config.checkIntervalMs,
-        config.rpcUrl
+        config.rpcUrl,
+        stateStore
       );
 
+      this.controller = new RescueController(provider, [balanceMonitor]);
+      this.watchConnectionHealth(this.notifier, balanceMonitor, flashbotsRescue);
+
       // Set up balance change handler
       const handleBalanceChange = async (balance: bigint): Promise<void> => {
         if (this.isRescueInProgress) {
@@ -78,8 +163,8 @@ class RescueBot {
           logger.info('🚨 Balance increase detected! Initiating rescue...');
 
           // Send rescue started notification
-          if (this.telegramNotifier) {
-            await this.telegramNotifier.sendRescueStarted({
+          if (this.notifier) {
+            await this.notifier.sendRescueStarted({
               success: false,
               walletAddress: wallet.address,
               amount: balance,
@@ -89,15 +174,19 @@ class RescueBot {
 
           const result = await flashbotsRescue.executeRescue(balance);
 
+          if (result.nonceConflicts?.length) {
+            logger.warn(`Nonce taken by another transaction ${result.nonceConflicts.length} time(s) during the rescue`);
+          }
+
           if (result.success) {
             logger.info('✓ Rescue completed successfully!');
             logger.info(`  Transaction: ${result.txHash}`);
             logger.info(`  Block: ${result.blockNumber}`);
-            logger.info(`  Amount: ${this.formatEther(result.amountRescued!)} ETH`);
+            logger.info(`  Amount: ${this.formatEther(result.amountRescued!)} ${chain.nativeSymbol}`);
 
-            // Send Telegram notification
-            if (this.telegramNotifier) {
-              await this.telegramNotifier.sendRescueSuccess({
+            // Send notification
+            if (this.notifier) {
+              await this.notifier.sendRescueSuccess({
                 success: true,
                 walletAddress: wallet.address,
                 amount: result.amountRescued,
@@ -113,9 +202,9 @@ class RescueBot {
           } else {
             logger.error(`✗ Rescue failed: ${result.error}`);
 
-            // Send Telegram notification
-            if (this.telegramNotifier) {
-              await this.telegramNotifier.sendRescueFailed({
+            // Send notification
+            if (this.notifier) {
+              await this.notifier.sendRescueFailed({
                 success: false,
                 walletAddress: wallet.address,
                 amount: balance,
@@ -131,6 +220,246 @@ class RescueBot {
         }
       };
 
+      // Set up token balance change handler (sponsored ERC-20 rescue)
+      const handleTokenBalanceChange = async (tokenAddress: string, balance: bigint): Promise<void> => {
+        if (this.isRescueInProgress) {
+          logger.warn('Rescue already in progress, skipping token rescue...');
+          return;
+        }
+
+        try {
+          this.isRescueInProgress = true;
+          logger.info(`🚨 Token balance increase detected (${tokenAddress})! Initiating token rescue...`);
+
+          const token = await this.describeToken(tokenAddress, provider);
+
+          if (this.notifier) {
+            await this.notifier.sendRescueStarted({
+              success: false,
+              walletAddress: wallet.address,
+              amountEth: formatUnits(balance, token.decimals),
+              asset: token.symbol,
+              rescueType: 'auto'
+            });
+          }
+
+          const result = await flashbotsRescue.executeTokenRescue(tokenAddress, balance);
+
+          if (result.success) {
+            logger.info('✓ Token rescue completed successfully!');
+            logger.info(`  Transaction: ${result.txHash}`);
+            logger.info(`  Block: ${result.blockNumber}`);
+            logger.info(`  Amount: ${formatUnits(result.amountRescued!, token.decimals)} ${token.symbol}`);
+
+            if (this.notifier) {
+              await this.notifier.sendRescueSuccess({
+                success: true,
+                walletAddress: wallet.address,
+                amountEth: formatUnits(result.amountRescued!, token.decimals),
+                asset: token.symbol,
+                txHash: result.txHash,
+                blockNumber: result.blockNumber,
+                rescueType: 'auto'
+              });
+            }
+          } else {
+            logger.error(`✗ Token rescue failed: ${result.error}`);
+
+            if (this.notifier) {
+              await this.notifier.sendRescueFailed({
+                success: false,
+                walletAddress: wallet.address,
+                amountEth: formatUnits(balance, token.decimals),
+                asset: token.symbol,
+                error: result.error,
+                rescueType: 'auto'
+              });
+            }
+          }
+        } catch (error) {
+          logger.error('Token rescue operation error', error);
+        } finally {
+          this.isRescueInProgress = false;
+        }
+      };
+
+      if (config.tokenAddresses?.length) {
+        balanceMonitor.watchTokens(config.tokenAddresses, handleTokenBalanceChange);
+      }
+
+      // Rescue NFTs already held by the compromised wallet
+      if (config.nftRescueFile) {
+        const nftTargets = loadNftRescueTargets(config.nftRescueFile);
+        logger.info(`Loaded ${nftTargets.length} NFT rescue target(s) from ${config.nftRescueFile}`);
+        await this.runNftRescues(nftTargets, flashbotsRescue, wallet.address);
+      }
+
+      // Claim and sweep airdrop tokens atomically
+      if (config.claimFile) {
+        const claim = loadClaimRescueConfig(config.claimFile);
+        logger.info(`Loaded claim from ${config.claimFile} (distributor: ${claim.distributor})`);
+        await this.runClaimRescue(claim, flashbotsRescue, wallet.address, provider);
+      }
+
+      // Watch the mempool for the attacker's sweeper transactions
+      const mempoolMonitor = config.mempoolWatch
+        ? new MempoolMonitor(config.rpcUrl, wallet.address)
+        : undefined;
+
+      // Backrun pending deposits so they are swept in the block they land
+      const handleIncomingTransfer = async (tx: IncomingTransaction): Promise<void> => {
+        if (this.controller?.isPaused()) {
+          logger.warn(`Monitoring paused, not backrunning pending deposit ${tx.hash}`);
+          return;
+        }
+
+        if (this.isRescueInProgress) {
+          logger.warn('Rescue already in progress, skipping backrun...');
+          return;
+        }
+
+        try {
+          // Taken before the balance lookup, so no other rescue starts while it is awaited
+          this.isRescueInProgress = true;
+
+          // A backrun cannot wait for a human; the sweep after the deposit lands asks for approval.
+          // It sweeps what is already there too, so that counts towards the threshold.
+          if (flashbotsRescue.requiresApproval(await balanceMonitor.getCurrentBalance() + tx.value)) {
+            logger.warn(`Pending deposit ${tx.hash} needs approval, not backrunning it`);
+            return;
+          }
+
+          logger.info(`🚨 Pending deposit detected (${tx.hash})! Initiating backrun rescue...`);
+
+          if (this.notifier) {
+            await this.notifier.sendRescueStarted({
+              success: false,
+              walletAddress: wallet.address,
+              amount: tx.value,
+              rescueType: 'backrun'
+            });
+          }
+
+          const result = await flashbotsRescue.executeBackrunRescue(tx);
+
+          if (result.nonceConflicts?.length) {
+            logger.warn(`Nonce taken by another transaction ${result.nonceConflicts.length} time(s) during the rescue`);
+          }
+
+          if (result.success) {
+            logger.info('✓ Backrun rescue completed successfully!');
+            logger.info(`  Transaction: ${result.txHash}`);
+            logger.info(`  Block: ${result.blockNumber}`);
+            logger.info(`  Amount: ${this.formatEther(result.amountRescued!)} ${chain.nativeSymbol}`);
+
+            if (this.notifier) {
+              await this.notifier.sendRescueSuccess({
+                success: true,
+                walletAddress: wallet.address,
+                amount: result.amountRescued,
+                txHash: result.txHash,
+                blockNumber: result.blockNumber,
+                rescueType: 'backrun'
+              });
+            }
+
+            // Stop monitoring after successful rescue
+            balanceMonitor.stop();
+            mempoolMonitor?.stop();
+            process.exit(0);
+          } else {
+            logger.error(`✗ Backrun rescue failed: ${result.error}`);
+
+            if (this.notifier) {
+              await this.notifier.sendRescueFailed({
+                success: false,
+                walletAddress: wallet.address,
+                amount: tx.value,
+                error: result.error,
+                rescueType: 'backrun'
+              });
+            }
+          }
+        } catch (error) {
+          logger.error('Backrun rescue operation error', error);
+        } finally {
+          this.isRescueInProgress = false;
+        }
+      };
+
+      if (mempoolMonitor) {
+        // A separate socket from the balance monitor's, so its outages are tracked apart
+        const notifier = this.notifier;
+        mempoolMonitor.onConnectionChange((connected, error) => {
+          if (connected) {
+            notifier?.sendConnectionRestored('Mempool WebSocket');
+          } else {
+            notifier?.sendConnectionIssue(error ?? 'Mempool WebSocket connection lost', 'Mempool WebSocket');
+          }
+        });
+        mempoolMonitor.watchIncomingTransfers(handleIncomingTransfer);
+        await mempoolMonitor.start(async (tx) => {
+          flashbotsRescue.recordAttackerTransaction(tx);
+
+          if (this.notifier) {
+            await this.notifier.sendAttackerActivity(wallet.address, tx);
+          }
+        });
+      }
+
+      // Pre-arm rescues for known unlocks; the balance monitor still reacts if they miss
+      const unlockScheduler = config.scheduleFile ? new UnlockScheduler(provider) : undefined;
+      if (unlockScheduler) {
+        const unlocks = loadSchedule(config.scheduleFile!);
+        logger.info(`Loaded ${unlocks.length} scheduled unlock(s) from ${config.scheduleFile}`);
+
+        for (const unlock of unlocks) {
+          if (unlock.wallet && unlock.wallet.toLowerCase() !== wallet.address.toLowerCase()) {
+            throw new Error(`Scheduled unlock ${unlock.name}: wallet ${unlock.wallet} is not the guarded wallet`);
+          }
+          if (unlock.token && !sponsorWallet) {
+            throw new Error(`Scheduled unlock ${unlock.name}: SPONSOR_PRIVATE_KEY is required for token unlocks`);
+          }
+        }
+
+        this.startScheduledRescues(
+          unlockScheduler,
+          unlocks.map(unlock => ({
+            unlock,
+            flashbotsRescue,
+            walletAddress: wallet.address,
+            notifier: this.notifier,
+            lock: {
+              acquire: () => {
+                if (this.isRescueInProgress) {
+                  return false;
+                }
+                this.isRescueInProgress = true;
+                return true;
+              },
+              release: () => { this.isRescueInProgress = false; },
+            },
+            getBalance: () => balanceMonitor.getCurrentBalance(),
+            rescueBalance: handleBalanceChange,
+          })),
+          chain,
+          provider
+        );
+      }
+
+      this.controller.addWallet({
+        name: 'wallet',
+        address: wallet.address,
+        flashbotsRescue,
+        getLastBalance: () => balanceMonitor.getLastBalance(),
+        getCurrentBalance: () => balanceMonitor.getCurrentBalance(),
+        getConnectionState: () => balanceMonitor.getConnectionState(),
+        isRescueInProgress: () => this.isRescueInProgress,
+        rescue: handleBalanceChange,
+      });
+      await this.startControlApi(config);
+      await this.startTelegramCommands(config, chain);
+
       // Start monitoring using WebSocket for real-time updates
       logger.info('Starting balance monitor...');
       await balanceMonitor.startWebSocket(handleBalanceChange);
@@ -138,25 +467,31 @@ class RescueBot {
       // Handle graceful shutdown
       process.on('SIGINT', async () => {
         logger.info('Received SIGINT, shutting down...');
-        if (this.telegramNotifier) {
-          await this.telegramNotifier.sendBotStopped(wallet.address);
+        if (this.notifier) {
+          await this.notifier.sendBotStopped(wallet.address);
         }
+        await this.telegramPoller?.stopPolling();
         balanceMonitor.stop();
+        mempoolMonitor?.stop();
+        unlockScheduler?.stop();
         process.exit(0);
       });
 
       process.on('SIGTERM', async () => {
         logger.info('Received SIGTERM, shutting down...');
-        if (this.telegramNotifier) {
-          await this.telegramNotifier.sendBotStopped(wallet.address);
+        if (this.notifier) {
+          await this.notifier.sendBotStopped(wallet.address);
         }
+        await this.telegramPoller?.stopPolling();
         balanceMonitor.stop();
+        mempoolMonitor?.stop();
+        unlockScheduler?.stop();
         process.exit(0);
       });
 
       // Send bot started notification
-      if (this.telegramNotifier) {
-        await this.telegramNotifier.sendBotStarted(wallet.address);
+      if (this.notifier) {
+        await this.notifier.sendBotStarted(wallet.address);
       }
 
       logger.info('Rescue bot is running. Press Ctrl+C to stop.');
@@ -166,6 +501,670 @@ class RescueBot {
     }
   }
 
+  /**
+   * Guard every wallet in WALLETS_FILE from one shared block subscription. Each wallet
+   * has its own rescue lock, so a rescue on one never blocks another.
+   */
+  private async runMultiWallet(
+    config: Config,
+    provider: JsonRpcProvider,
+    chain: ChainConfig,
+    stateStore?: StateStore,
+    auditJournal?: AuditJournal,
+    approvalGate?: ApprovalGate
+  ): Promise<void> {
+    const walletConfigs = loadGuardedWallets(config.walletsFile!);
+    logger.info(`Loaded ${walletConfigs.length} wallet(s) from ${config.walletsFile}`);
+
+    const monitor = new MultiWalletMonitor(provider, config.rpcUrl, config.checkIntervalMs, stateStore);
+    this.controller = new RescueController(provider, [monitor]);
+    const sharedChannels = await this.createSharedNotifiers(config, chain);
+    const guarded: Array<{
+      name: string;
+      address: string;
+      flashbotsRescue: FlashbotsRescue;
+      notifier?: Notifier;
+      rescueBalance: (balance: bigint) => Promise<void>;
+    }> = [];
+
+    for (const walletConfig of walletConfigs) {
+      const wallet = new Wallet(walletConfig.privateKey, provider);
+      const label = `[${walletConfig.name}]`;
+
+      const flashbotsRescue = new FlashbotsRescue(
+        provider,
+        wallet,
+        walletConfig.safeWalletAddress,
+        walletConfig.minRescueAmountWei ?? config.minRescueAmountWei,
+        config.targetBlocks,
+        walletConfig.maxPriorityFeeGwei ?? config.maxPriorityFeeGwei,
+        config.flashbotsRpcUrl,
+        this.buildRescueOptions(config, chain, stateStore, auditJournal, approvalGate)
+      );
+
+      await flashbotsRescue.initialize();
+
+      const chatId = walletConfig.telegramChatId ?? config.telegramChatId;
+      const notifier = await this.getNotifier(config, chain, chatId, sharedChannels);
+
+      const recovered = await flashbotsRescue.recoverInFlightBundles();
+      if (recovered) {
+        logger.info(`${label} Rescued by a bundle from the previous run, no longer guarding`);
+        await notifier?.sendRescueSuccess({
+          success: true,
+          walletAddress: wallet.address,
+          txHash: recovered.txHash,
+          blockNumber: recovered.blockNumber,
+          rescueType: 'recovered'
+        });
+        continue;
+      }
+
+      // Resolves false when skipped, so the monitor keeps the deposit pending and retries it
+      const handleBalanceChange = async (balance: bigint): Promise<boolean> => {
+        if (this.walletsInRescue.has(wallet.address)) {
+          logger.warn(`${label} Rescue already in progress, skipping...`);
+          return false;
+        }
+
+        try {
+          this.walletsInRescue.add(wallet.address);
+          logger.info(`${label} 🚨 Balance increase detected! Initiating rescue...`);
+
+          if (notifier) {
+            await notifier.sendRescueStarted({
+              success: false,
+              walletAddress: wallet.address,
+              amount: balance,
+              rescueType: 'auto'
+            });
+          }
+
+          const result = await flashbotsRescue.executeRescue(balance);
+
+          if (result.success) {
+            logger.info(`${label} ✓ Rescue completed successfully!`);
+            logger.info(`  Transaction: ${result.txHash}`);
+            logger.info(`  Block: ${result.blockNumber}`);
+            logger.info(`  Amount: ${this.formatEther(result.amountRescued!)} ${chain.nativeSymbol}`);
+
+            if (notifier) {
+              await notifier.sendRescueSuccess({
+                success: true,
+                walletAddress: wallet.address,
+                amount: result.amountRescued,
+                txHash: result.txHash,
+                blockNumber: result.blockNumber,
+                rescueType: 'auto'
+              });
+            }
+
+            // This wallet is done; keep guarding the others
+            monitor.removeWallet(wallet.address);
+            this.controller?.removeWallet(wallet.address);
+            if (monitor.getWalletCount() === 0) {
+              logger.info('All guarded wallets rescued, stopping');
+              monitor.stop();
+              process.exit(0);
+            }
+          } else {
+            logger.error(`${label} ✗ Rescue failed: ${result.error}`);
+
+            if (notifier) {
+              await notifier.sendRescueFailed({
+                success: false,
+                walletAddress: wallet.address,
+                amount: balance,
+                error: result.error,
+                rescueType: 'auto'
+              });
+            }
+          }
+        } catch (error) {
+          logger.error(`${label} Rescue operation error`, error);
+        } finally {
+          this.walletsInRescue.delete(wallet.address);
+        }
+        return true;
+      };
+
+      monitor.addWallet(wallet.address, handleBalanceChange);
+      this.controller.addWallet({
+        name: walletConfig.name,
+        address: wallet.address,
+        flashbotsRescue,
+        getLastBalance: () => monitor.getLastBalance(wallet.address),
+        getCurrentBalance: () => provider.getBalance(wallet.address),
+        getConnectionState: () => monitor.getConnectionState(),
+        isRescueInProgress: () => this.walletsInRescue.has(wallet.address),
+        rescue: async balance => { await handleBalanceChange(balance); },
+      });
+
+      this.watchConnectionHealth(notifier, undefined, flashbotsRescue);
+      guarded.push({
+        name: walletConfig.name,
+        address: wallet.address,
+        flashbotsRescue,
+        notifier,
+        rescueBalance: async balance => { await handleBalanceChange(balance); },
+      });
+      logger.info(`${label} Monitoring ${wallet.address} -> ${walletConfig.safeWalletAddress}`);
+    }
+
+    if (monitor.getWalletCount() === 0) {
+      logger.info('All guarded wallets rescued, stopping');
+      process.exit(0);
+    }
+
+    // The shared subscription is not about any one wallet, so its alerts go to the default chat
+    this.watchConnectionHealth(await this.getNotifier(config, chain, config.telegramChatId, sharedChannels), monitor);
+    await monitor.start();
+    await this.startControlApi(config);
+    await this.startTelegramCommands(config, chain);
+
+    const unlockScheduler = config.scheduleFile ? new UnlockScheduler(provider) : undefined;
+    if (unlockScheduler) {
+      const unlocks = loadSchedule(config.scheduleFile!);
+      logger.info(`Loaded ${unlocks.length} scheduled unlock(s) from ${config.scheduleFile}`);
+
+      this.startScheduledRescues(unlockScheduler, unlocks.map(unlock => {
+        const target = guarded.find(entry =>
+          entry.name === unlock.wallet || entry.address.toLowerCase() === unlock.wallet?.toLowerCase()
+        );
+        if (!target) {
+          throw new Error(`Scheduled unlock ${unlock.name}: wallet must name a wallet from WALLETS_FILE`);
+        }
+        if (unlock.token) {
+          throw new Error(`Scheduled unlock ${unlock.name}: token unlocks are not supported with WALLETS_FILE`);
+        }
+
+        return {
+          unlock,
+          flashbotsRescue: target.flashbotsRescue,
+          walletAddress: target.address,
+          notifier: target.notifier,
+          lock: {
+            acquire: () => {
+              if (this.walletsInRescue.has(target.address)) {
+                return false;
+              }
+              this.walletsInRescue.add(target.address);
+              return true;
+            },
+            release: () => { this.walletsInRescue.delete(target.address); },
+          },
+          getBalance: () => provider.getBalance(target.address),
+          rescueBalance: target.rescueBalance,
+        };
+      }), chain, provider);
+    }
+
+    const shutdown = async (signal: string): Promise<void> => {
+      logger.info(`Received ${signal}, shutting down...`);
+      for (const { address, notifier } of guarded) {
+        await notifier?.sendBotStopped(address);
+      }
+      await this.telegramPoller?.stopPolling();
+      monitor.stop();
+      unlockScheduler?.stop();
+      process.exit(0);
+    };
+
+    process.on('SIGINT', () => shutdown('SIGINT'));
+    process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+    for (const { address, notifier } of guarded) {
+      await notifier?.sendBotStarted(address);
+    }
+
+    logger.info(`Rescue bot is guarding ${guarded.length} wallet(s). Press Ctrl+C to stop.`);
+  }
+
+  /**
+   * Pre-arm a rescue for each scheduled unlock in the background, notifying on the outcome
+   */
+  private startScheduledRescues(
+    scheduler: UnlockScheduler,
+    scheduled: Array<{
+      unlock: ScheduledUnlock;
+      flashbotsRescue: FlashbotsRescue;
+      walletAddress: string;
+      notifier?: Notifier;
+      lock: RescueLock; // The wallet's rescue lock, shared with the balance-change rescue
+      getBalance: () => Promise<bigint>;
+      rescueBalance: (balance: bigint) => Promise<void>; // The balance-change rescue
+    }>,
+    chain: ChainConfig,
+    provider: JsonRpcProvider
+  ): void {
+    for (const { unlock, flashbotsRescue, walletAddress, notifier, lock, getBalance, rescueBalance } of scheduled) {
+      const run = async (): Promise<void> => {
+        const token = unlock.token ? await this.describeToken(unlock.token, provider) : undefined;
+        const amountEth = token
+          ? formatUnits(unlock.expectedAmount, token.decimals)
+          : this.formatEther(unlock.expectedAmount);
+        const asset = token?.symbol ?? chain.nativeSymbol;
+
+        const result = await scheduler.schedule(unlock, async next => {
+          // Another rescue of the wallet is running; the scheduler arms again next block
+          if (!lock.acquire()) {
+            logger.warn(`Rescue already in progress, skipping scheduled rescue for ${unlock.name} this block`);
+            return { success: false, error: 'Rescue already in progress' };
+          }
+
+          let armed: RescueResult;
+          let balanceBefore: bigint;
+          try {
+            balanceBefore = await getBalance();
+            armed = await flashbotsRescue.executeScheduledRescue(next);
+          } finally {
+            lock.release();
+          }
+
+          // The balance monitor skipped any deposit that arrived while the lock was held, and
+          // has already moved its last balance past it, so check for one now
+          if (!armed.success) {
+            const balance = await getBalance();
+            if (balance > balanceBefore) {
+              logger.info(`Balance rose during the scheduled rescue for ${unlock.name}, rescuing it`);
+              rescueBalance(balance).catch(error => logger.error('Deferred rescue error', error));
+            }
+          }
+
+          return armed;
+        });
+
+        if (result?.success) {
+          logger.info(`✓ Scheduled rescue for ${unlock.name} completed!`);
+          logger.info(`  Transaction: ${result.txHash}`);
+          logger.info(`  Block: ${result.blockNumber}`);
+
+          await notifier?.sendRescueSuccess({
+            success: true,
+            walletAddress,
+            amountEth: token ? amountEth : undefined,
+            amount: token ? undefined : result.amountRescued,
+            asset,
+            txHash: result.txHash,
+            blockNumber: result.blockNumber,
+            rescueType: 'scheduled'
+          });
+        } else if (scheduler.isActive()) {
+          await notifier?.sendRescueFailed({
+            success: false,
+            walletAddress,
+            amountEth,
+            asset,
+            error: `No pre-armed bundle for ${unlock.name} landed in the unlock window`,
+            rescueType: 'scheduled'
+          });
+        }
+      };
+
+      run().catch(error => logger.error(`Scheduled rescue for ${unlock.name} error`, error));
+    }
+  }
+
+  /**
+   * Serve the control API when CONTROL_API_PORT is set
+   */
+  private async startControlApi(config: Config): Promise<void> {
+    if (config.controlApiPort === undefined || !this.controller) {
+      return;
+    }
+
+    await startControlApi(this.controller, {
+      port: config.controlApiPort,
+      host: config.controlApiHost!,
+      token: config.controlApiToken!,
+    });
+  }
+
+  /**
+   * Answer operator commands in TELEGRAM_CHAT_ID when TELEGRAM_COMMANDS is enabled
+   */
+  private async startTelegramCommands(config: Config, chain: ChainConfig): Promise<void> {
+    if (!config.telegramCommands || !this.controller) {
+      return;
+    }
+
+    const commands = new TelegramCommands(
+      this.getTelegramPoller(config),
+      config.telegramChatId!,
+      config.telegramAllowedUserIds ?? [],
+      this.controller,
+      chain
+    );
+    await commands.start();
+  }
+
+  /**
+   * Hold large ETH sweeps for approval in TELEGRAM_CHAT_ID when APPROVAL_THRESHOLD_ETH is set
+   */
+  private createApprovalGate(config: Config, chain: ChainConfig): ApprovalGate | undefined {
+    if (config.approvalThresholdWei === undefined) {
+      return undefined;
+    }
+
+    logger.info(
+      `Sweeps of ${this.formatEther(config.approvalThresholdWei)} ${chain.nativeSymbol} or more need approval ` +
+      `(on timeout: ${config.approvalTimeoutPolicy})`
+    );
+
+    return new TelegramApprovalGate(this.getTelegramPoller(config), config.telegramChatId!, {
+      threshold: config.approvalThresholdWei,
+      timeoutMs: config.approvalTimeoutMs!,
+      timeoutPolicy: config.approvalTimeoutPolicy!,
+      allowedUserIds: config.telegramAllowedUserIds,
+      chain,
+    });
+  }
+
+  /**
+   * The one polling bot per token; Telegram rejects a second poller
+   */
+  private getTelegramPoller(config: Config): TelegramBot {
+    if (!this.telegramPoller) {
+      this.telegramPoller = new TelegramBot(config.telegramBotToken!, { polling: true });
+      this.telegramPoller.on('polling_error', error => logger.warn(`Telegram polling error: ${error.message}`));
+    }
+
+    return this.telegramPoller;
+  }
+
+  /**
+   * Every enabled channel except Telegram, each tested once; channels that fail the test are left out
+   */
+  private async createSharedNotifiers(config: Config, chain: ChainConfig): Promise<NotificationChannel[]> {
+    const channels = enabledNotifiers(config);
+    const candidates: Array<{ channel: NotifierChannel; notifier: Notifier }> = [];
+
+    if (channels.includes('discord')) {
+      candidates.push({ channel: 'discord', notifier: new DiscordNotifier(config.discordWebhookUrl!, chain) });
+    }
+    if (channels.includes('slack')) {
+      candidates.push({ channel: 'slack', notifier: new SlackNotifier(config.slackWebhookUrl!, chain) });
+    }
+    if (channels.includes('webhook')) {
+      const notifier = new WebhookNotifier(config.webhookUrl!, config.webhookSecret, chain);
+      candidates.push({ channel: 'webhook', notifier });
+    }
+    if (channels.includes('email')) {
+      candidates.push({ channel: 'email', notifier: new EmailNotifier({
+        host: config.smtpHost!,
+        port: config.smtpPort!,
+        secure: config.smtpSecure ?? false,
+        username: config.smtpUser,
+        password: config.smtpPassword,
+      }, config.emailFrom!, config.emailTo!, chain) });
+    }
+
+    const working = await Promise.all(candidates.map(({ notifier }) => notifier.testConnection()));
+    candidates
+      .filter((_, i) => !working[i])
+      .forEach(({ notifier }) => logger.warn(`${notifier.name} notifications test failed, continuing without them`));
+
+    return candidates
+      .filter((_, i) => working[i])
+      .map(({ channel, notifier }) => this.toNotificationChannel(config, channel, notifier));
+  }
+
+  /**
+   * A channel with its minimum severity and its own rate limit
+   */
+  private toNotificationChannel(config: Config, channel: NotifierChannel, notifier: Notifier): NotificationChannel {
+    return {
+      notifier,
+      minSeverity: config.notifyChannelSeverity?.[channel] ?? config.notifyMinSeverity ?? 'info',
+      rateLimiter: new RateLimiter(config.notifyRateLimitPerMinute ?? 0),
+    };
+  }
+
+  /**
+   * Telegram for the chat (one per chat, tested once) plus the shared channels, behind a
+   * notification router; undefined when nothing can be reached
+   */
+  private async getNotifier(
+    config: Config,
+    chain: ChainConfig,
+    chatId: string | undefined,
+    sharedChannels: NotificationChannel[]
+  ): Promise<Notifier | undefined> {
+    const channels = [...sharedChannels];
+
+    if (chatId && config.telegramBotToken && enabledNotifiers(config).includes('telegram')) {
+      if (!this.telegramChannels.has(chatId)) {
+        const telegram = new TelegramNotifier(config.telegramBotToken, chatId, chain);
+        const working = await telegram.testConnection();
+        if (!working) {
+          logger.warn(`Telegram notifications test failed for chat ${chatId}, continuing without them`);
+        }
+        this.telegramChannels.set(chatId, working ? this.toNotificationChannel(config, 'telegram', telegram) : undefined);
+      }
+
+      const telegram = this.telegramChannels.get(chatId);
+      if (telegram) {
+        channels.unshift(telegram);
+      }
+    }
+
+    if (channels.length === 0) {
+      return undefined;
+    }
+    return new NotificationRouter(channels, {
+      dedupWindowsMs: config.notifyDedupWindowsMs,
+      digestIntervalMs: config.notifyDigestIntervalMs ?? 15 * 60000,
+    });
+  }
+
+  /**
+   * Connection issue and restored notifications for a monitor's WebSocket and a rescue's
+   * circuit breakers; the router folds the errors in between into digests
+   */
+  private watchConnectionHealth(
+    notifier: Notifier | undefined,
+    monitor?: BalanceMonitor | MultiWalletMonitor,
+    flashbotsRescue?: FlashbotsRescue
+  ): void {
+    if (!notifier) {
+      return;
+    }
+
+    monitor?.onConnectionChange((connected, error) => {
+      if (connected) {
+        notifier.sendConnectionRestored('WebSocket');
+      } else {
+        notifier.sendConnectionIssue(error ?? 'WebSocket connection lost', 'WebSocket');
+      }
+    });
+
+    flashbotsRescue?.onCircuitStateChange((name, state) => {
+      const source = `${name} circuit breaker`;
+      if (state === 'OPEN') {
+        notifier.sendConnectionIssue(`${name} circuit breaker opened after repeated failures`, source);
+      } else if (state === 'CLOSED') {
+        notifier.sendConnectionRestored(source);
+      }
+    });
+  }
+
+  /**
+   * Rescue options shared by every guarded wallet
+   */
+  private buildRescueOptions(
+    config: Config,
+    chain: ChainConfig,
+    stateStore?: StateStore,
+    auditJournal?: AuditJournal,
+    approvalGate?: ApprovalGate
+  ): FlashbotsRescueOptions {
+    return {
+      builderEndpoints: config.builderEndpoints,
+      bidOptions: {
+        strategy: config.bidStrategy ?? 'static',
+        escalation: config.bidEscalation ?? 0,
+        maxBidSharePercent: config.maxBidSharePercent ?? 50,
+      },
+      coinbasePayerAddress: config.bribeMode === 'coinbase' ? config.coinbasePayerAddress : undefined,
+      attackerOutbidPercent: config.attackerOutbidPercent,
+      chain,
+      gasLimitMarginPercent: config.gasLimitMarginPercent,
+      splitRules: config.splitRules,
+      stateStore,
+      auditJournal,
+      approvalGate,
+    };
+  }
+
+  /**
+   * Run each NFT rescue target in turn, notifying on the outcome
+   */
+  private async runNftRescues(
+    targets: NftRescueTarget[],
+    flashbotsRescue: FlashbotsRescue,
+    walletAddress: string
+  ): Promise<void> {
+    this.isRescueInProgress = true;
+
+    try {
+      for (const target of targets) {
+        const asset = `${target.standard.toUpperCase()} ${target.contract}`;
+        const label = target.tokenIds.map(id => `#${id}`).join(', ');
+
+        if (this.notifier) {
+          await this.notifier.sendRescueStarted({
+            success: false,
+            walletAddress,
+            amountEth: label,
+            asset,
+            rescueType: 'initial'
+          });
+        }
+
+        const result = await flashbotsRescue.executeNftRescue(target);
+
+        if (result.success && result.verified) {
+          logger.info(`✓ NFT rescue completed: ${asset} ${label}`);
+
+          if (this.notifier) {
+            await this.notifier.sendRescueSuccess({
+              success: true,
+              walletAddress,
+              amountEth: label,
+              asset,
+              txHash: result.txHash,
+              blockNumber: result.blockNumber,
+              rescueType: 'initial'
+            });
+          }
+        } else {
+          const error = result.success
+            ? 'Bundle included but safe wallet ownership could not be verified'
+            : result.error;
+          logger.error(`✗ NFT rescue failed for ${asset}: ${error}`);
+
+          if (this.notifier) {
+            await this.notifier.sendRescueFailed({
+              success: false,
+              walletAddress,
+              amountEth: label,
+              asset,
+              error,
+              rescueType: 'initial'
+            });
+          }
+        }
+      }
+    } catch (error) {
+      logger.error('NFT rescue operation error', error);
+    } finally {
+      this.isRescueInProgress = false;
+    }
+  }
+
+  /**
+   * Run the claim-and-sweep bundle, notifying on the outcome
+   */
+  private async runClaimRescue(
+    claim: ClaimRescueConfig,
+    flashbotsRescue: FlashbotsRescue,
+    walletAddress: string,
+    provider: JsonRpcProvider
+  ): Promise<void> {
+    this.isRescueInProgress = true;
+
+    try {
+      const token = await this.describeToken(claim.token, provider);
+      const amountLabel = formatUnits(claim.amount, token.decimals);
+
+      if (this.notifier) {
+        await this.notifier.sendRescueStarted({
+          success: false,
+          walletAddress,
+          amountEth: amountLabel,
+          asset: token.symbol,
+          rescueType: 'initial'
+        });
+      }
+
+      const result = await flashbotsRescue.executeClaimRescue(claim);
+
+      if (result.success && result.verified) {
+        logger.info(`✓ Claim and sweep completed: ${amountLabel} ${token.symbol}`);
+
+        if (this.notifier) {
+          await this.notifier.sendRescueSuccess({
+            success: true,
+            walletAddress,
+            amountEth: amountLabel,
+            asset: token.symbol,
+            txHash: result.txHash,
+            blockNumber: result.blockNumber,
+            rescueType: 'initial'
+          });
+        }
+      } else {
+        const error = result.success
+          ? 'Bundle included but safe wallet balance did not increase by the claimed amount'
+          : result.error;
+        logger.error(`✗ Claim and sweep failed: ${error}`);
+
+        if (this.notifier) {
+          await this.notifier.sendRescueFailed({
+            success: false,
+            walletAddress,
+            amountEth: amountLabel,
+            asset: token.symbol,
+            error,
+            rescueType: 'initial'
+          });
+        }
+      }
+    } catch (error) {
+      logger.error('Claim and sweep operation error', error);
+    } finally {
+      this.isRescueInProgress = false;
+    }
+  }
+
+  /**
+   * Look up token symbol and decimals for display, falling back to the address
+   */
+  private async describeToken(
+    tokenAddress: string,
+    provider: JsonRpcProvider
+  ): Promise<{ symbol: string; decimals: number }> {
+    const token = new Contract(tokenAddress, ERC20_ABI, provider);
+
+    try {
+      const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
+      return { symbol: String(symbol), decimals: Number(decimals) };
+    } catch (error) {
+      logger.warn(`Could not read token metadata for ${tokenAddress}:`, error);
+      return { symbol: tokenAddress, decimals: 18 };
+    }
+  }
+
   private formatEther(wei: bigint): string {
     return (Number(wei) / 1e18).toFixed(6);
   }
@@ -1,9 +1,23 @@
-import { JsonRpcProvider, Wallet } from 'ethers';
+import { Contract, JsonRpcProvider, Wallet } from 'ethers';
 import { logger } from '../utils/logger';
 import { withRetry, sleep } from '../utils/retry';
-import { AlchemyWebSocketProvider } from '../utils/alchemy-websocket';
+import { AlchemyWebSocketProvider, ConnectionChangeCallback } from '../utils/alchemy-websocket';
+import { ERC20_ABI } from '../rescue/abis';
+import { StateStore } from '../utils/state-store';
+import { metrics } from '../utils/metrics';
 
 export type BalanceChangeCallback = (balance: bigint) => Promise<void>;
+export type TokenBalanceChangeCallback = (tokenAddress: string, balance: bigint) => Promise<void>;
+
+/**
+ * How a monitor is currently receiving blocks
+ */
+export interface ConnectionState {
+  mode: 'websocket' | 'polling' | 'connecting' | 'stopped';
+  connected: boolean; // WebSocket connection is live
+  reconnectAttempts: number;
+  paused: boolean;
+}
 
 export class BalanceMonitor {
   private provider: JsonRpcProvider;
@@ -18,12 +32,42 @@ export class BalanceMonitor {
   private isWebSocketConnected = false;
   private wsProvider?: AlchemyWebSocketProvider;
   private rpcUrl: string;
-
-  constructor(provider: JsonRpcProvider, wallet: Wallet, checkIntervalMs: number, rpcUrl?: string) {
+  private tokenContracts: Contract[] = [];
+  private lastTokenBalances = new Map<string, bigint>();
+  private onTokenBalanceChange?: TokenBalanceChangeCallback;
+  private stateStore?: StateStore;
+  private isPaused = false;
+  private onConnectionChangeCallback?: ConnectionChangeCallback;
+  private connectionLost = false;
+
+  constructor(
+    provider: JsonRpcProvider,
+    wallet: Wallet,
+    checkIntervalMs: number,
+    rpcUrl?: string,
+    stateStore?: StateStore
+  ) {
     this.provider = provider;
     this.wallet = wallet;
     this.checkIntervalMs = checkIntervalMs;
     this.rpcUrl = rpcUrl || '';
+    this.stateStore = stateStore;
+
+    // Resume from the last handled balance so a restart does not re-trigger on it
+    const savedBalance = stateStore?.getLastBalance(wallet.address);
+    if (savedBalance !== undefined) {
+      this.lastBalance = savedBalance;
+      logger.info(`Resuming from last observed balance ${this.formatEther(savedBalance)} ETH`);
+    }
+  }
+
+  /**
+   * Watch ERC-20 balances alongside ETH; checked on every balance check
+   */
+  watchTokens(tokenAddresses: string[], onTokenBalanceChange: TokenBalanceChangeCallback): void {
+    this.tokenContracts = tokenAddresses.map(address => new Contract(address, ERC20_ABI, this.provider));
+    this.onTokenBalanceChange = onTokenBalanceChange;
+    logger.info(`Watching ${tokenAddresses.length} token contract(s) for ${this.wallet.address}`);
   }
 
   /**
@@ -52,6 +96,13 @@ export class BalanceMonitor {
     }, this.checkIntervalMs);
   }
 
+  /**
+   * Report WebSocket failures as they happen, and the reconnect that ends them
+   */
+  onConnectionChange(callback: ConnectionChangeCallback): void {
+    this.onConnectionChangeCallback = callback;
+  }
+
   /**
    * Start monitoring using WebSocket for real-time updates
    */
@@ -84,7 +135,9 @@ export class BalanceMonitor {
         }
 
         // Create enhanced WebSocket provider
-        this.wsProvider = new AlchemyWebSocketProvider(this.rpcUrl);
+        this.wsProvider = new AlchemyWebSocketProvider(this.rpcUrl, (connected, error) => {
+          this.reportConnection(connected, error);
+        });
 
         // Connect to WebSocket
         await this.wsProvider.connect();
@@ -104,6 +157,7 @@ export class BalanceMonitor {
         this.reconnectAttempts = 0;
         this.isWebSocketConnected = true;
         logger.info('✅ Enhanced WebSocket connection established successfully');
+        this.reportConnection(true);
 
         // Keep the connection alive (monitor for disconnections)
         await this.keepConnectionAlive(onBalanceChange);
@@ -113,6 +167,7 @@ export class BalanceMonitor {
         this.isWebSocketConnected = false;
 
         logger.error(`WebSocket connection failed (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts}):`, error);
+        this.reportConnection(false, (error as Error).message);
 
         if (this.reconnectAttempts >= this.maxReconnectAttempts) {
           logger.error('Max reconnection attempts reached. Falling back to polling mode...');
@@ -128,6 +183,18 @@ export class BalanceMonitor {
     }
   }
 
+  /**
+   * Every failure is reported; a success only when it ends an outage
+   */
+  private reportConnection(connected: boolean, error?: string): void {
+    if (connected && !this.connectionLost) {
+      return;
+    }
+
+    this.connectionLost = !connected;
+    this.onConnectionChangeCallback?.(connected, error);
+  }
+
   /**
    * Set up WebSocket event listeners
    */
@@ -275,12 +342,35 @@ export class BalanceMonitor {
     this.provider.removeAllListeners('error');
   }
 
+  /**
+   * Skip balance checks until resumed. The last balance is left untouched, so an
+   * increase that arrives while paused still triggers on the first check after resuming.
+   */
+  pause(): void {
+    this.isPaused = true;
+    logger.info(`Balance monitor paused for ${this.wallet.address}`);
+  }
+
+  resume(): void {
+    this.isPaused = false;
+    logger.info(`Balance monitor resumed for ${this.wallet.address}`);
+  }
+
   /**
    * Check wallet balance and trigger callback if changed
    */
   private async checkBalance(onBalanceChange: BalanceChangeCallback): Promise<void> {
+    if (this.isPaused) {
+      logger.debug('Balance monitor paused, skipping check');
+      return;
+    }
+
     try {
-      const balance = await this.provider.getBalance(this.wallet.address);
+      const balance = await this.provider.getBalance(this.wallet.address).catch(error => {
+        metrics.balanceChecks.inc({ result: 'error' });
+        throw error;
+      });
+      metrics.balanceChecks.inc({ result: 'ok' });
 
       // Only trigger callback if balance increased
       if (balance > this.lastBalance) {
@@ -292,14 +382,50 @@ export class BalanceMonitor {
 
         this.lastBalance = balance;
         await onBalanceChange(balance);
+
+        // Persisted only once handled: a crash mid-rescue re-triggers on restart
+        this.stateStore?.recordBalance(this.wallet.address, balance);
       } else if (balance !== this.lastBalance) {
         logger.debug(`Balance unchanged or decreased: ${this.formatEther(balance)} ETH`);
         this.lastBalance = balance;
+        this.stateStore?.recordBalance(this.wallet.address, balance);
       }
     } catch (error) {
       logger.error('Failed to check balance', error);
       throw error;
     }
+
+    await this.checkTokenBalances();
+  }
+
+  /**
+   * Check watched token balances and trigger callback on increases
+   */
+  private async checkTokenBalances(): Promise<void> {
+    if (!this.onTokenBalanceChange) {
+      return;
+    }
+
+    for (const token of this.tokenContracts) {
+      const tokenAddress = token.target as string;
+
+      try {
+        const balance: bigint = await token.balanceOf(this.wallet.address);
+        const lastBalance = this.lastTokenBalances.get(tokenAddress)
+          ?? this.stateStore?.getLastBalance(this.wallet.address, tokenAddress)
+          ?? 0n;
+        this.lastTokenBalances.set(tokenAddress, balance);
+
+        if (balance > lastBalance) {
+          logger.info(`Token balance increased for ${tokenAddress}: ${balance.toString()} (+${(balance - lastBalance).toString()})`);
+          await this.onTokenBalanceChange(tokenAddress, balance);
+        }
+
+        this.stateStore?.recordBalance(this.wallet.address, balance, tokenAddress);
+      } catch (error) {
+        logger.error(`Failed to check token balance for ${tokenAddress}`, error);
+      }
+    }
   }
 
   /**
@@ -316,6 +442,24 @@ export class BalanceMonitor {
     return this.isRunning;
   }
 
+  /**
+   * Last balance seen by a check, 0 before the first one
+   */
+  getLastBalance(): bigint {
+    return this.lastBalance;
+  }
+
+  getConnectionState(): ConnectionState {
+    const connected = this.isWebSocketConnected && (this.wsProvider?.isConnectionActive() ?? false);
+
+    let mode: ConnectionState['mode'] = 'stopped';
+    if (this.isRunning) {
+      mode = connected ? 'websocket' : this.intervalId ? 'polling' : 'connecting';
+    }
+
+    return { mode, connected, reconnectAttempts: this.reconnectAttempts, paused: this.isPaused };
+  }
+
   private formatEther(wei: bigint): string {
     return (Number(wei) / 1e18).toFixed(6);
   }
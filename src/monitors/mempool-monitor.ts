@@ -0,0 +1,214 @@
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+import { sleep } from '../utils/retry';
+import { AlchemyWebSocketProvider, ConnectionChangeCallback, PendingTransaction } from '../utils/alchemy-websocket';
+
+/**
+ * Outgoing transaction from the compromised wallet that we did not send
+ */
+export interface AttackerTransaction extends PendingTransaction {
+  seenAt: number; // Unix ms when it appeared in the mempool
+}
+
+/**
+ * Pending transfer into the compromised wallet, with the signed bytes needed to backrun it
+ */
+export interface IncomingTransaction extends PendingTransaction {
+  rawTransaction: string;
+  seenAt: number;
+}
+
+export type AttackerTransactionCallback = (tx: AttackerTransaction) => Promise<void>;
+export type IncomingTransactionCallback = (tx: IncomingTransaction) => Promise<void>;
+
+const MAX_RECORDED_TRANSACTIONS = 50;
+
+/**
+ * Watches the mempool for pending transactions sent from or to the compromised wallet
+ */
+export class MempoolMonitor {
+  private rpcUrl: string;
+  private walletAddress: string;
+  private wsProvider?: AlchemyWebSocketProvider;
+  private isRunning = false;
+  private reconnectDelayMs = 5000;
+  private maxReconnectAttempts = 10;
+  private attackerTransactions: AttackerTransaction[] = [];
+  private seenHashes = new Set<string>();
+  private onIncomingTransaction?: IncomingTransactionCallback;
+  private seenIncomingHashes = new Set<string>();
+  private onConnectionChangeCallback?: ConnectionChangeCallback;
+
+  constructor(rpcUrl: string, walletAddress: string) {
+    this.rpcUrl = rpcUrl;
+    this.walletAddress = walletAddress;
+  }
+
+  /**
+   * Also watch for pending ETH transfers into the compromised wallet
+   */
+  watchIncomingTransfers(onIncomingTransaction: IncomingTransactionCallback): void {
+    this.onIncomingTransaction = onIncomingTransaction;
+    logger.info(`Watching the mempool for incoming transfers to ${this.walletAddress}`);
+  }
+
+  /**
+   * Report WebSocket failures as they happen, and the reconnect that ends them
+   */
+  onConnectionChange(callback: ConnectionChangeCallback): void {
+    this.onConnectionChangeCallback = callback;
+  }
+
+  /**
+   * Subscribe to pending transactions from (and optionally to) the compromised wallet,
+   * subscribing again whenever the connection comes back
+   */
+  async start(onAttackerTransaction: AttackerTransactionCallback): Promise<void> {
+    if (this.isRunning) {
+      logger.warn('Mempool monitor already running');
+      return;
+    }
+
+    this.isRunning = true;
+    logger.info(`Starting mempool monitor for ${this.walletAddress}`);
+
+    for (let attempt = 1; this.isRunning && attempt <= this.maxReconnectAttempts; attempt++) {
+      try {
+        const wsProvider = new AlchemyWebSocketProvider(this.rpcUrl, (connected, error) => {
+          this.onConnectionChangeCallback?.(connected, error);
+          if (connected) {
+            this.resubscribe(wsProvider, onAttackerTransaction).catch(resubscribeError => {
+              logger.error('Mempool resubscription after reconnect failed:', resubscribeError);
+            });
+          }
+        });
+        this.wsProvider = wsProvider;
+        await wsProvider.connect();
+
+        await this.subscribe(wsProvider, onAttackerTransaction);
+        wsProvider.monitorConnection();
+
+        logger.info('✅ Mempool monitor subscribed');
+        return;
+      } catch (error) {
+        logger.error(`Mempool subscription failed (attempt ${attempt}/${this.maxReconnectAttempts}):`, error);
+        this.wsProvider?.disconnect();
+        await sleep(Math.min(this.reconnectDelayMs * attempt, 30000));
+      }
+    }
+
+    logger.error('Mempool monitor could not subscribe, attacker transactions will not be detected');
+  }
+
+  /**
+   * Stop watching the mempool
+   */
+  stop(): void {
+    this.isRunning = false;
+    this.wsProvider?.disconnect();
+    logger.info('Mempool monitor stopped');
+  }
+
+  /**
+   * Attacker transactions seen so far, most recent last
+   */
+  getAttackerTransactions(): AttackerTransaction[] {
+    return [...this.attackerTransactions];
+  }
+
+  private async subscribe(
+    wsProvider: AlchemyWebSocketProvider,
+    onAttackerTransaction: AttackerTransactionCallback
+  ): Promise<void> {
+    await wsProvider.subscribeToPendingTransactions(
+      { fromAddress: this.walletAddress },
+      tx => this.handlePendingTransaction(tx, onAttackerTransaction)
+    );
+
+    const onIncomingTransaction = this.onIncomingTransaction;
+    if (onIncomingTransaction) {
+      await wsProvider.subscribeToPendingTransactions(
+        { toAddress: this.walletAddress },
+        tx => this.handleIncomingTransaction(tx, onIncomingTransaction)
+      );
+    }
+  }
+
+  /**
+   * Subscriptions do not survive a dropped connection, so both filters are made again
+   */
+  private async resubscribe(
+    wsProvider: AlchemyWebSocketProvider,
+    onAttackerTransaction: AttackerTransactionCallback
+  ): Promise<void> {
+    if (!this.isRunning || wsProvider !== this.wsProvider) {
+      return;
+    }
+
+    wsProvider.unsubscribePendingTransactions();
+    await this.subscribe(wsProvider, onAttackerTransaction);
+    logger.info('✅ Mempool monitor resubscribed after reconnect');
+  }
+
+  private handlePendingTransaction(tx: PendingTransaction, onAttackerTransaction: AttackerTransactionCallback): void {
+    // Our own rescue transactions only travel through private bundles, so anything
+    // from the compromised wallet in the public mempool is the attacker's
+    if (tx.from.toLowerCase() !== this.walletAddress.toLowerCase() || this.seenHashes.has(tx.hash)) {
+      return;
+    }
+
+    const attackerTx: AttackerTransaction = { ...tx, seenAt: Date.now() };
+
+    this.seenHashes.add(tx.hash);
+    this.attackerTransactions.push(attackerTx);
+    if (this.attackerTransactions.length > MAX_RECORDED_TRANSACTIONS) {
+      const [dropped] = this.attackerTransactions.splice(0, 1);
+      this.seenHashes.delete(dropped.hash);
+    }
+
+    const tip = tx.maxPriorityFeePerGas ?? tx.gasPrice ?? 0n;
+    logger.warn(
+      `🕵️ Attacker transaction detected: ${tx.hash} (nonce ${tx.nonce}, ` +
+      `to ${tx.to ?? 'contract creation'}, value ${ethers.formatEther(tx.value)} ETH, ` +
+      `tip ${ethers.formatUnits(tip, 'gwei')} gwei)`
+    );
+
+    onAttackerTransaction(attackerTx).catch(error => {
+      logger.error('Error handling attacker transaction', error);
+    });
+  }
+
+  private handleIncomingTransaction(tx: PendingTransaction, onIncomingTransaction: IncomingTransactionCallback): void {
+    if (tx.to?.toLowerCase() !== this.walletAddress.toLowerCase() ||
+        tx.value === 0n ||
+        this.seenIncomingHashes.has(tx.hash)) {
+      return;
+    }
+
+    this.seenIncomingHashes.add(tx.hash);
+    if (this.seenIncomingHashes.size > MAX_RECORDED_TRANSACTIONS) {
+      const [oldest] = this.seenIncomingHashes;
+      this.seenIncomingHashes.delete(oldest);
+    }
+
+    logger.info(`📥 Incoming transfer pending: ${tx.hash} (${ethers.formatEther(tx.value)} ETH from ${tx.from})`);
+
+    const wsProvider = this.wsProvider;
+    if (!wsProvider) {
+      return;
+    }
+
+    wsProvider.getRawTransaction(tx.hash)
+      .then(rawTransaction => {
+        if (!rawTransaction) {
+          logger.warn(`Incoming transaction ${tx.hash} dropped before its raw bytes could be fetched`);
+          return;
+        }
+
+        return onIncomingTransaction({ ...tx, rawTransaction, seenAt: Date.now() });
+      })
+      .catch(error => {
+        logger.error('Error handling incoming transaction', error);
+      });
+  }
+}
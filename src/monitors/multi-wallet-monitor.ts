@@ -0,0 +1,269 @@
+import { JsonRpcProvider } from 'ethers';
+import { logger } from '../utils/logger';
+import { sleep } from '../utils/retry';
+import { AlchemyWebSocketProvider, ConnectionChangeCallback } from '../utils/alchemy-websocket';
+import { StateStore } from '../utils/state-store';
+import { metrics } from '../utils/metrics';
+import { ConnectionState } from './balance-monitor';
+
+/**
+ * Handles a wallet's balance increase; resolves false when it was not handled (e.g. another
+ * rescue of the wallet held its lock), so the increase is reported again on the next check
+ */
+export type WalletBalanceChangeCallback = (balance: bigint) => Promise<boolean>;
+
+interface WatchedWallet {
+  address: string;
+  lastBalance: bigint;
+  onBalanceChange: WalletBalanceChangeCallback;
+}
+
+/**
+ * Watches many wallets from one block subscription: every new block checks all
+ * balances in one round (ethers batches the concurrent eth_getBalance calls)
+ */
+export class MultiWalletMonitor {
+  private provider: JsonRpcProvider;
+  private rpcUrl: string;
+  private checkIntervalMs: number;
+  private wallets = new Map<string, WatchedWallet>();
+  private wsProvider?: AlchemyWebSocketProvider;
+  private intervalId?: NodeJS.Timeout;
+  private isRunning = false;
+  private isChecking = false;
+  private lastCheckedBlock = 0;
+  private reconnectDelayMs = 5000;
+  private maxReconnectAttempts = 10;
+  private stateStore?: StateStore;
+  private isPaused = false;
+  private onConnectionChangeCallback?: ConnectionChangeCallback;
+  private connectionLost = false;
+
+  constructor(provider: JsonRpcProvider, rpcUrl: string, checkIntervalMs: number, stateStore?: StateStore) {
+    this.provider = provider;
+    this.rpcUrl = rpcUrl;
+    this.checkIntervalMs = checkIntervalMs;
+    this.stateStore = stateStore;
+  }
+
+  /**
+   * Start checking a wallet's balance on every block, from its last handled balance if persisted
+   */
+  addWallet(address: string, onBalanceChange: WalletBalanceChangeCallback): void {
+    const lastBalance = this.stateStore?.getLastBalance(address) ?? 0n;
+    this.wallets.set(address.toLowerCase(), { address, lastBalance, onBalanceChange });
+  }
+
+  /**
+   * Stop checking a wallet, e.g. once it has been rescued
+   */
+  removeWallet(address: string): void {
+    this.wallets.delete(address.toLowerCase());
+  }
+
+  /**
+   * Report block subscription failures as they happen, and the reconnect that ends them
+   */
+  onConnectionChange(callback: ConnectionChangeCallback): void {
+    this.onConnectionChangeCallback = callback;
+  }
+
+  getWalletCount(): number {
+    return this.wallets.size;
+  }
+
+  /**
+   * Last balance seen for a wallet, undefined if it is not watched
+   */
+  getLastBalance(address: string): bigint | undefined {
+    return this.wallets.get(address.toLowerCase())?.lastBalance;
+  }
+
+  getConnectionState(): ConnectionState {
+    const connected = this.wsProvider?.isConnectionActive() ?? false;
+
+    let mode: ConnectionState['mode'] = 'stopped';
+    if (this.isRunning) {
+      mode = this.intervalId ? 'polling' : connected ? 'websocket' : 'connecting';
+    }
+
+    return {
+      mode,
+      connected,
+      reconnectAttempts: this.wsProvider?.getReconnectAttempts() ?? 0,
+      paused: this.isPaused,
+    };
+  }
+
+  /**
+   * Skip balance rounds until resumed; increases that arrive meanwhile trigger on the next round
+   */
+  pause(): void {
+    this.isPaused = true;
+    logger.info('Multi-wallet monitor paused');
+  }
+
+  resume(): void {
+    this.isPaused = false;
+    logger.info('Multi-wallet monitor resumed');
+  }
+
+  /**
+   * Check every wallet once, then on each new block (polling if the WebSocket cannot connect)
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      logger.warn('Multi-wallet monitor already running');
+      return;
+    }
+
+    this.isRunning = true;
+    logger.info(`Starting multi-wallet monitor for ${this.wallets.size} wallet(s)`);
+
+    await this.checkBalances();
+
+    for (let attempt = 1; this.isRunning && attempt <= this.maxReconnectAttempts; attempt++) {
+      try {
+        this.wsProvider = new AlchemyWebSocketProvider(this.rpcUrl, (connected, error) => {
+          this.reportConnection(connected, error);
+        });
+        await this.wsProvider.connect();
+        await this.wsProvider.subscribeToNewBlocks(blockNumber => {
+          this.handleBlock(blockNumber);
+        });
+
+        logger.info('✅ Shared block subscription established');
+        this.reportConnection(true);
+        return;
+      } catch (error) {
+        logger.error(`Block subscription failed (attempt ${attempt}/${this.maxReconnectAttempts}):`, error);
+        this.reportConnection(false, (error as Error).message);
+        this.wsProvider?.disconnect();
+        this.wsProvider = undefined;
+        await sleep(Math.min(this.reconnectDelayMs * attempt, 30000));
+      }
+    }
+
+    if (this.isRunning) {
+      logger.error('Block subscription unavailable, falling back to polling');
+      this.intervalId = setInterval(() => {
+        this.checkBalances().catch(error => logger.error('Error in polling balance check', error));
+      }, this.checkIntervalMs);
+    }
+  }
+
+  /**
+   * Every failure is reported; a success only when it ends an outage
+   */
+  private reportConnection(connected: boolean, error?: string): void {
+    if (connected && !this.connectionLost) {
+      return;
+    }
+
+    this.connectionLost = !connected;
+    this.onConnectionChangeCallback?.(connected, error);
+  }
+
+  /**
+   * Stop monitoring
+   */
+  stop(): void {
+    this.isRunning = false;
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+    }
+
+    this.wsProvider?.disconnect();
+    this.wsProvider = undefined;
+    logger.info('Multi-wallet monitor stopped');
+  }
+
+  private handleBlock(blockNumber: number): void {
+    // The subscription reports blocks from both events and polling, so the same block can arrive twice
+    if (blockNumber <= this.lastCheckedBlock) {
+      return;
+    }
+
+    this.lastCheckedBlock = blockNumber;
+    logger.debug(`New block ${blockNumber}, checking ${this.wallets.size} wallet(s)...`);
+
+    this.checkBalances().catch(error => logger.error('Error in block balance check', error));
+  }
+
+  /**
+   * Check all balances in one round; a round still in flight makes the next one skip
+   */
+  private async checkBalances(): Promise<void> {
+    if (this.isPaused) {
+      logger.debug('Multi-wallet monitor paused, skipping balance round');
+      return;
+    }
+
+    if (this.isChecking) {
+      logger.debug('Previous balance round still running, skipping');
+      return;
+    }
+
+    this.isChecking = true;
+
+    try {
+      const wallets = [...this.wallets.values()];
+      const balances = await Promise.allSettled(
+        wallets.map(wallet => this.provider.getBalance(wallet.address))
+      );
+
+      balances.forEach((result, i) => {
+        const wallet = wallets[i];
+
+        if (result.status === 'rejected') {
+          metrics.balanceChecks.inc({ result: 'error' });
+          logger.error(`Failed to check balance for ${wallet.address}`, result.reason);
+          return;
+        }
+
+        metrics.balanceChecks.inc({ result: 'ok' });
+        this.handleBalance(wallet, result.value);
+      });
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  private handleBalance(wallet: WatchedWallet, balance: bigint): void {
+    const lastBalance = wallet.lastBalance;
+    wallet.lastBalance = balance;
+
+    if (balance <= lastBalance) {
+      if (balance < lastBalance) {
+        this.stateStore?.recordBalance(wallet.address, balance);
+      }
+      return;
+    }
+
+    logger.info(
+      `Balance increased for ${wallet.address}! New: ${this.formatEther(balance)} ETH ` +
+      `(+${this.formatEther(balance - lastBalance)} ETH)`
+    );
+
+    // Not awaited: a rescue on one wallet must not hold up balance checks for the others.
+    // The balance is persisted only once handled, so a crash mid-rescue re-triggers on restart.
+    wallet.onBalanceChange(balance)
+      .then(handled => {
+        if (handled) {
+          this.stateStore?.recordBalance(wallet.address, balance);
+        } else if (wallet.lastBalance === balance) {
+          // Not handled: fall back so the next check sees the increase again
+          wallet.lastBalance = lastBalance;
+        }
+      })
+      .catch(error => {
+        logger.error(`Error handling balance change for ${wallet.address}`, error);
+      });
+  }
+
+  private formatEther(wei: bigint): string {
+    return (Number(wei) / 1e18).toFixed(6);
+  }
+}
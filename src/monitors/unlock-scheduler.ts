@@ -0,0 +1,169 @@
+import { JsonRpcProvider } from 'ethers';
+import { ScheduledUnlock } from '../config/schedule-file';
+import { RescueResult } from '../rescue/flashbots-rescue';
+import { logger } from '../utils/logger';
+import { sleep, withRetry } from '../utils/retry';
+
+/**
+ * Submits a pre-armed rescue for the next block; resolves once that block has passed
+ */
+export type ScheduledRescueCallback = (unlock: ScheduledUnlock) => Promise<RescueResult>;
+
+const DEFAULT_BLOCK_TIME_SECONDS = 12;
+const BLOCK_TIME_SAMPLE_BLOCKS = 100;
+const MAX_IDLE_SLEEP_MS = 60000;
+
+/**
+ * Block expected to be the first at or after unlockTime, extrapolated from the latest block
+ */
+export function estimateUnlockBlock(
+  unlockTime: number,
+  latestBlock: { number: number; timestamp: number },
+  blockTimeSeconds: number
+): number {
+  if (unlockTime <= latestBlock.timestamp) {
+    return latestBlock.number;
+  }
+
+  return latestBlock.number + Math.ceil((unlockTime - latestBlock.timestamp) / blockTimeSeconds);
+}
+
+/**
+ * Waits for each scheduled unlock's window and re-arms a rescue bundle for every
+ * block inside it, so the sweep is already queued at the builder when the funds land
+ */
+export class UnlockScheduler {
+  private provider: JsonRpcProvider;
+  private pollIntervalMs: number;
+  private isRunning = true;
+  private blockTimeSeconds?: number;
+
+  constructor(provider: JsonRpcProvider, pollIntervalMs = 1000) {
+    this.provider = provider;
+    this.pollIntervalMs = pollIntervalMs;
+  }
+
+  /**
+   * Arm rescues for the unlock's window; resolves with the successful rescue,
+   * or undefined once the window has passed
+   */
+  async schedule(unlock: ScheduledUnlock, onArm: ScheduledRescueCallback): Promise<RescueResult | undefined> {
+    const when = unlock.unlockBlock !== undefined
+      ? `block ${unlock.unlockBlock}`
+      : new Date(unlock.unlockTime! * 1000).toISOString();
+    logger.info(`📅 Scheduled unlock ${unlock.name} at ${when} (±${unlock.windowBlocks} blocks)`);
+
+    let resolvedUnlockBlock = unlock.unlockBlock;
+
+    while (this.isRunning) {
+      const latestBlock = await this.getLatestBlock();
+
+      // Pin time-based unlocks to the first block seen at or after the unlock time
+      if (resolvedUnlockBlock === undefined && latestBlock.timestamp >= unlock.unlockTime!) {
+        resolvedUnlockBlock = latestBlock.number;
+      }
+
+      const unlockBlock = resolvedUnlockBlock ?? estimateUnlockBlock(
+        unlock.unlockTime!,
+        latestBlock,
+        await this.getBlockTimeSeconds()
+      );
+      const windowStart = unlockBlock - unlock.windowBlocks;
+      const windowEnd = unlockBlock + unlock.windowBlocks;
+      const targetBlock = latestBlock.number + 1;
+
+      if (targetBlock > windowEnd) {
+        logger.warn(`Window for ${unlock.name} closed at block ${windowEnd} without a pre-armed rescue landing`);
+        return undefined;
+      }
+
+      if (targetBlock < windowStart) {
+        const blocksToGo = windowStart - targetBlock;
+        const waitMs = blocksToGo * (await this.getBlockTimeSeconds()) * 1000;
+        logger.debug(`${unlock.name}: ${blocksToGo} block(s) until the rescue window opens`);
+        await this.idle(Math.min(waitMs, MAX_IDLE_SLEEP_MS));
+        continue;
+      }
+
+      logger.info(`⏰ Arming rescue for ${unlock.name} in block ${targetBlock} (unlock ~${unlockBlock})`);
+
+      try {
+        const result = await onArm(unlock);
+        if (result.success) {
+          return result;
+        }
+
+        logger.debug(`Pre-armed rescue for ${unlock.name} not included: ${result.error}`);
+      } catch (error) {
+        logger.error(`Pre-armed rescue for ${unlock.name} failed`, error);
+      }
+
+      // Re-sign with fresh gas only once the chain has moved on
+      await this.waitForBlockAfter(latestBlock.number);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Stop every scheduled unlock at its next check
+   */
+  stop(): void {
+    this.isRunning = false;
+  }
+
+  isActive(): boolean {
+    return this.isRunning;
+  }
+
+  private async getLatestBlock(): Promise<{ number: number; timestamp: number }> {
+    const block = await withRetry(
+      () => this.provider.getBlock('latest'),
+      'get latest block',
+      { maxAttempts: 3, baseDelayMs: 1000 }
+    );
+    if (!block) {
+      throw new Error('Failed to fetch latest block');
+    }
+
+    return { number: block.number, timestamp: block.timestamp };
+  }
+
+  /**
+   * Average block time over recent blocks, measured once
+   */
+  private async getBlockTimeSeconds(): Promise<number> {
+    if (this.blockTimeSeconds === undefined) {
+      try {
+        const latest = await this.getLatestBlock();
+        const earlier = await this.provider.getBlock(Math.max(latest.number - BLOCK_TIME_SAMPLE_BLOCKS, 0));
+        const blocks = latest.number - (earlier?.number ?? latest.number);
+
+        this.blockTimeSeconds = earlier && blocks > 0
+          ? Math.max((latest.timestamp - earlier.timestamp) / blocks, 1)
+          : DEFAULT_BLOCK_TIME_SECONDS;
+      } catch (error) {
+        logger.warn('Could not measure block time, assuming 12s', error);
+        this.blockTimeSeconds = DEFAULT_BLOCK_TIME_SECONDS;
+      }
+    }
+
+    return this.blockTimeSeconds;
+  }
+
+  /**
+   * Sleep in poll-interval steps so stop() takes effect promptly
+   */
+  private async idle(ms: number): Promise<void> {
+    const until = Date.now() + ms;
+    do {
+      await sleep(this.pollIntervalMs);
+    } while (this.isRunning && Date.now() < until);
+  }
+
+  private async waitForBlockAfter(blockNumber: number): Promise<void> {
+    while (this.isRunning && await this.provider.getBlockNumber() <= blockNumber) {
+      await sleep(this.pollIntervalMs);
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { ChainConfig } from '../config/chains';
+import { EventNotifier, NotificationEvent } from './notifier';
+import { formatNotification, NotificationSeverity, toJson } from './format';
+import { postJson } from './http';
+
+const EMBED_COLORS: Record<NotificationSeverity, number> = {
+  info: 0x3498db,
+  success: 0x2ecc71,
+  warning: 0xf1c40f,
+  error: 0xe74c3c,
+};
+
+/**
+ * Posts each event as an embed to a Discord channel webhook
+ */
+export class DiscordNotifier extends EventNotifier {
+  readonly name = 'Discord';
+
+  constructor(private readonly webhookUrl: string, private readonly chain?: ChainConfig) {
+    super();
+  }
+
+  protected async deliver(event: NotificationEvent): Promise<void> {
+    const { title, severity, fields } = formatNotification(event, this.chain);
+
+    await postJson(this.webhookUrl, toJson({
+      username: 'EVM Rescue Bot',
+      embeds: [{
+        title,
+        color: EMBED_COLORS[severity],
+        fields: fields.map(field => ({ name: field.name, value: field.value, inline: false })),
+        timestamp: new Date(event.at).toISOString(),
+      }],
+    }));
+  }
+}
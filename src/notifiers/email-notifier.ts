@@ -0,0 +1,31 @@
+import { ChainConfig } from '../config/chains';
+import { EventNotifier, NotificationEvent } from './notifier';
+import { formatNotification, formatNotificationText } from './format';
+import { sendMail, SmtpOptions } from './smtp-client';
+
+/**
+ * Emails each event as plain text over SMTP
+ */
+export class EmailNotifier extends EventNotifier {
+  readonly name = 'Email';
+
+  constructor(
+    private readonly smtp: SmtpOptions,
+    private readonly from: string,
+    private readonly to: string[],
+    private readonly chain?: ChainConfig
+  ) {
+    super();
+  }
+
+  protected async deliver(event: NotificationEvent): Promise<void> {
+    const { title } = formatNotification(event, this.chain);
+
+    await sendMail(this.smtp, {
+      from: this.from,
+      to: this.to,
+      subject: `[EVM Rescue] ${title}`,
+      text: formatNotificationText(event, this.chain),
+    });
+  }
+}
@@ -0,0 +1,85 @@
+import { formatEther, formatUnits } from 'ethers';
+import { ChainConfig, explorerTxUrl } from '../config/chains';
+import { NotificationEvent, NotificationEventType } from './notifier';
+
+export type NotificationSeverity = 'info' | 'success' | 'warning' | 'error';
+
+/**
+ * An event rendered as a title and labelled fields, for channels without their own wording
+ */
+export interface FormattedNotification {
+  title: string;
+  severity: NotificationSeverity;
+  fields: Array<{ name: string; value: string }>;
+}
+
+const TITLES: Record<NotificationEventType, { title: string; severity: NotificationSeverity }> = {
+  'test': { title: '🤖 EVM Rescue Bot notifications are working', severity: 'info' },
+  'rescue-started': { title: '🚨 Rescue Operation Started', severity: 'warning' },
+  'rescue-success': { title: '✅ Rescue Operation Successful', severity: 'success' },
+  'rescue-failed': { title: '❌ Rescue Operation Failed', severity: 'error' },
+  'bot-started': { title: '🤖 EVM Rescue Bot Started', severity: 'info' },
+  'bot-stopped': { title: '🛑 EVM Rescue Bot Stopped', severity: 'warning' },
+  'connection-issue': { title: '⚠️ Connection Issue Detected', severity: 'warning' },
+  'connection-restored': { title: '✅ Connection Restored', severity: 'success' },
+  'attacker-activity': { title: '🕵️ Attacker Transaction Detected', severity: 'error' },
+  'digest': { title: '📋 Notification Digest', severity: 'info' },
+};
+
+export function formatNotification(event: NotificationEvent, chain?: ChainConfig): FormattedNotification {
+  const { notification, attackerTransaction: tx } = event;
+  const nativeSymbol = chain?.nativeSymbol ?? 'ETH';
+  const fields: Array<{ name: string; value: string }> = [];
+  const add = (name: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== '') {
+      fields.push({ name, value: String(value) });
+    }
+  };
+
+  add('Wallet', notification.walletAddress);
+  add('Source', notification.source);
+
+  const amount = notification.amountEth ??
+    (notification.amount !== undefined ? parseFloat(formatEther(notification.amount)).toFixed(6) : undefined);
+  if (amount !== undefined) {
+    add(event.type === 'rescue-success' ? 'Rescued' : 'Amount', `${amount} ${notification.asset ?? nativeSymbol}`);
+  }
+
+  if (event.type === 'bot-started' || event.type === 'test') {
+    add('Network', chain?.displayName);
+  }
+  if (event.type.startsWith('rescue-')) {
+    add('Type', notification.rescueType);
+  }
+
+  add('Transaction', notification.txHash);
+  add('Explorer', notification.txHash && chain ? explorerTxUrl(chain, notification.txHash) : undefined);
+  add('Block', notification.blockNumber);
+  add('Error', notification.error);
+  add('Summary', notification.details?.join('\n'));
+
+  if (tx) {
+    add('Attacker transaction', tx.hash);
+    add('Nonce', tx.nonce);
+    add('To', tx.to ?? 'contract creation');
+    add('Value', `${formatEther(tx.value)} ${nativeSymbol}`);
+    add('Priority fee', `${formatUnits(tx.maxPriorityFeePerGas ?? tx.gasPrice ?? 0n, 'gwei')} gwei`);
+  }
+
+  return { ...TITLES[event.type], fields };
+}
+
+/**
+ * Title and fields as plain text lines
+ */
+export function formatNotificationText(event: NotificationEvent, chain?: ChainConfig): string {
+  const { title, fields } = formatNotification(event, chain);
+  return [title, '', ...fields.map(field => `${field.name}: ${field.value}`)].join('\n').trimEnd();
+}
+
+/**
+ * JSON with bigints as decimal strings
+ */
+export function toJson(value: unknown): string {
+  return JSON.stringify(value, (_, item) => typeof item === 'bigint' ? item.toString() : item);
+}
@@ -0,0 +1,17 @@
+const NOTIFIER_REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * POST a JSON body, throwing on anything but a 2xx answer
+ */
+export async function postJson(url: string, body: string, headers: Record<string, string> = {}): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body,
+    signal: AbortSignal.timeout(NOTIFIER_REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${response.statusText}`);
+  }
+}
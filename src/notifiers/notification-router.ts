@@ -0,0 +1,325 @@
+import { AttackerTransaction } from '../monitors/mempool-monitor';
+import { ALERT_SEVERITIES, AlertSeverity } from '../config/config';
+import { logger } from '../utils/logger';
+import { NotificationEventType, Notifier, RescueNotification } from './notifier';
+
+const EVENT_SEVERITY: Record<NotificationEventType, AlertSeverity> = {
+  'test': 'info',
+  'rescue-started': 'warning',
+  'rescue-success': 'critical',
+  'rescue-failed': 'critical',
+  'bot-started': 'info',
+  'bot-stopped': 'warning',
+  'connection-issue': 'warning',
+  'connection-restored': 'warning', // Same as the issue, so every channel that saw it hears it is over
+  'attacker-activity': 'critical',
+  'digest': 'warning',
+};
+
+/**
+ * How long a sent event silences the same event for the same wallet or source
+ */
+export const DEFAULT_DEDUP_WINDOWS_MS: Partial<Record<NotificationEventType, number>> = {
+  'connection-issue': 10 * 60000,
+  'attacker-activity': 60000,
+};
+
+const RATE_WINDOW_MS = 60000;
+const DEFAULT_SOURCE = 'WebSocket';
+
+/**
+ * Sends per minute for one channel. Shared channels share one limiter, so the
+ * limit holds however many routers send through them.
+ */
+export class RateLimiter {
+  private sentAt: number[] = [];
+  private dropped = 0;
+
+  constructor(private readonly perMinute: number) {}
+
+  /**
+   * Take a slot, or count a drop when the last minute is full; forced sends always
+   * go out but still use up the window. A limit of 0 never drops.
+   */
+  tryAcquire(force = false): boolean {
+    const now = Date.now();
+    this.sentAt = this.sentAt.filter(at => now - at < RATE_WINDOW_MS);
+
+    if (!force && this.perMinute > 0 && this.sentAt.length >= this.perMinute) {
+      this.dropped++;
+      return false;
+    }
+
+    this.sentAt.push(now);
+    return true;
+  }
+
+  /**
+   * Drops since the last call
+   */
+  takeDropped(): number {
+    const dropped = this.dropped;
+    this.dropped = 0;
+    return dropped;
+  }
+}
+
+export interface NotificationChannel {
+  notifier: Notifier;
+  minSeverity: AlertSeverity; // Events below this are not sent to the channel
+  rateLimiter?: RateLimiter;
+}
+
+export interface NotificationRouterOptions {
+  dedupWindowsMs?: Partial<Record<NotificationEventType, number>>; // On top of DEFAULT_DEDUP_WINDOWS_MS
+  digestIntervalMs: number;
+}
+
+/**
+ * A connection problem from one source, open until the source reports it is back
+ */
+interface Incident {
+  openedAt: number;
+  errors: number;
+  lastError: string;
+  notified: boolean; // The issue went out, so a resolved follow-up is owed
+  digestedErrors: number; // Errors already accounted for by a notification
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  if (seconds < 3600) {
+    return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  }
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+}
+
+/**
+ * Sits in front of the notification channels: sends each event only to channels that
+ * take its severity, drops repeats inside their dedup window, holds channels to their
+ * rate limits, and turns a flood of connection errors into one issue, periodic digests
+ * and a resolved follow-up. Whatever is held back is counted in the next digest.
+ */
+export class NotificationRouter implements Notifier {
+  readonly name: string;
+  private channels: NotificationChannel[];
+  private dedupWindowsMs: Partial<Record<NotificationEventType, number>>;
+  private digestIntervalMs: number;
+  private lastSent = new Map<string, number>();
+  private suppressed = new Map<NotificationEventType, number>();
+  private incidents = new Map<string, Incident>();
+  private digestTimer?: NodeJS.Timeout;
+
+  constructor(channels: NotificationChannel[], options: NotificationRouterOptions) {
+    this.channels = channels;
+    this.name = channels.map(channel => channel.notifier.name).join('+');
+    this.dedupWindowsMs = { ...DEFAULT_DEDUP_WINDOWS_MS, ...options.dedupWindowsMs };
+    this.digestIntervalMs = options.digestIntervalMs;
+  }
+
+  async testConnection(): Promise<boolean> {
+    const results = await Promise.all(this.channels.map(channel => channel.notifier.testConnection()));
+    return results.some(Boolean);
+  }
+
+  sendRescueStarted(notification: RescueNotification): Promise<void> {
+    return this.route('rescue-started', notification.walletAddress, notifier => notifier.sendRescueStarted(notification));
+  }
+
+  sendRescueSuccess(notification: RescueNotification): Promise<void> {
+    return this.route('rescue-success', notification.walletAddress, notifier => notifier.sendRescueSuccess(notification));
+  }
+
+  sendRescueFailed(notification: RescueNotification): Promise<void> {
+    return this.route('rescue-failed', notification.walletAddress, notifier => notifier.sendRescueFailed(notification));
+  }
+
+  sendBotStarted(walletAddress: string): Promise<void> {
+    return this.route('bot-started', walletAddress, notifier => notifier.sendBotStarted(walletAddress));
+  }
+
+  sendBotStopped(walletAddress: string): Promise<void> {
+    return this.route('bot-stopped', walletAddress, notifier => notifier.sendBotStopped(walletAddress));
+  }
+
+  sendAttackerActivity(walletAddress: string, tx: AttackerTransaction): Promise<void> {
+    return this.route('attacker-activity', walletAddress, notifier => notifier.sendAttackerActivity(walletAddress, tx));
+  }
+
+  sendDigest(details: string[]): Promise<void> {
+    return this.dispatch('digest', notifier => notifier.sendDigest(details));
+  }
+
+  /**
+   * The first error from a source opens an incident and goes out, unless the same source
+   * was reported within its dedup window. Later errors are only counted, for the digest
+   * and the resolved follow-up.
+   */
+  async sendConnectionIssue(error: string, source = DEFAULT_SOURCE): Promise<void> {
+    const incident = this.incidents.get(source);
+    if (incident) {
+      incident.errors++;
+      incident.lastError = error;
+      this.scheduleDigest();
+      return;
+    }
+
+    const notified = this.isFresh('connection-issue', source);
+    this.incidents.set(source, {
+      openedAt: Date.now(),
+      errors: 1,
+      lastError: error,
+      notified,
+      digestedErrors: notified ? 1 : 0,
+    });
+    this.scheduleDigest();
+
+    if (notified) {
+      await this.dispatch('connection-issue', notifier => notifier.sendConnectionIssue(error, source));
+    }
+  }
+
+  /**
+   * Close the source's incident with a summary of it; nothing is sent when no incident was open
+   */
+  async sendConnectionRestored(source: string): Promise<void> {
+    const incident = this.incidents.get(source);
+    if (!incident) {
+      return;
+    }
+    this.incidents.delete(source);
+
+    // The issue was never sent, so neither is its end; the digest still counts the errors
+    if (!incident.notified) {
+      this.suppress('connection-issue', incident.errors - incident.digestedErrors);
+      return;
+    }
+
+    const details = [
+      `Down for ${formatDuration(Date.now() - incident.openedAt)}`,
+      `${incident.errors} error(s), last: ${incident.lastError}`,
+    ];
+    await this.dispatch('connection-restored', notifier => notifier.sendConnectionRestored(source, details));
+  }
+
+  /**
+   * Summarize everything held back since the last digest, and any outage still going on
+   */
+  async flushDigest(): Promise<void> {
+    const now = Date.now();
+    const details: string[] = [];
+
+    for (const [source, incident] of this.incidents) {
+      if (incident.errors > incident.digestedErrors) {
+        details.push(
+          `${source} still failing after ${formatDuration(now - incident.openedAt)}: ` +
+          `${incident.errors - incident.digestedErrors} more error(s), last: ${incident.lastError}`
+        );
+        incident.digestedErrors = incident.errors;
+      }
+    }
+
+    for (const [type, count] of this.suppressed) {
+      details.push(`${count} repeated ${type} notification(s) suppressed`);
+    }
+    this.suppressed.clear();
+
+    for (const channel of this.channels) {
+      const dropped = channel.rateLimiter?.takeDropped() ?? 0;
+      if (dropped > 0) {
+        details.push(`${dropped} notification(s) to ${channel.notifier.name} dropped by its rate limit`);
+      }
+    }
+
+    // Keep reporting on an outage until it ends
+    if (this.incidents.size > 0) {
+      this.scheduleDigest();
+    }
+
+    if (details.length > 0) {
+      await this.sendDigest(details);
+    }
+  }
+
+  private async route(
+    type: NotificationEventType,
+    key: string | undefined,
+    send: (notifier: Notifier) => Promise<void>
+  ): Promise<void> {
+    if (!this.isFresh(type, key ?? '')) {
+      logger.debug(`Suppressed repeated ${type} notification`);
+      this.suppress(type);
+      return;
+    }
+
+    await this.dispatch(type, send);
+  }
+
+  /**
+   * Whether the event is outside the dedup window of the last one sent with the same key;
+   * the window only restarts when an event is actually sent
+   */
+  private isFresh(type: NotificationEventType, key: string): boolean {
+    const windowMs = this.dedupWindowsMs[type];
+    if (!windowMs) {
+      return true;
+    }
+
+    const id = `${type}:${key.toLowerCase()}`;
+    const now = Date.now();
+    const last = this.lastSent.get(id);
+    if (last !== undefined && now - last < windowMs) {
+      return false;
+    }
+
+    this.lastSent.set(id, now);
+    return true;
+  }
+
+  private suppress(type: NotificationEventType, count = 1): void {
+    if (count > 0) {
+      this.suppressed.set(type, (this.suppressed.get(type) ?? 0) + count);
+      this.scheduleDigest();
+    }
+  }
+
+  /**
+   * Send to every channel that takes this severity and has room under its rate limit.
+   * Critical events and digests are never held back by the limit.
+   */
+  private async dispatch(type: NotificationEventType, send: (notifier: Notifier) => Promise<void>): Promise<void> {
+    const severity = EVENT_SEVERITY[type];
+    const force = severity === 'critical' || type === 'digest';
+
+    const recipients = this.channels.filter(channel => {
+      if (ALERT_SEVERITIES.indexOf(severity) < ALERT_SEVERITIES.indexOf(channel.minSeverity)) {
+        return false;
+      }
+
+      if (channel.rateLimiter && !channel.rateLimiter.tryAcquire(force)) {
+        logger.warn(`${channel.notifier.name} rate limit reached, ${type} notification left for the digest`);
+        this.scheduleDigest();
+        return false;
+      }
+
+      return true;
+    });
+
+    await Promise.all(recipients.map(channel => send(channel.notifier)));
+  }
+
+  private scheduleDigest(): void {
+    if (this.digestTimer) {
+      return;
+    }
+
+    this.digestTimer = setTimeout(() => {
+      this.digestTimer = undefined;
+      this.flushDigest().catch(error => logger.error('Failed to send notification digest:', error));
+    }, this.digestIntervalMs);
+    this.digestTimer.unref();
+  }
+}
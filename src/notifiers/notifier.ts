@@ -0,0 +1,141 @@
+import { AttackerTransaction } from '../monitors/mempool-monitor';
+import { logger } from '../utils/logger';
+
+export interface RescueNotification {
+  success: boolean;
+  walletAddress?: string; // Unset for events not about one wallet, like connection issues
+  amount?: bigint;
+  amountEth?: string;
+  asset?: string; // Unit label for the amount, defaults to ETH
+  txHash?: string;
+  blockNumber?: number;
+  error?: string;
+  gasUsed?: bigint;
+  gasCostEth?: string;
+  rescueType?: 'initial' | 'retry' | 'final' | 'auto' | 'backrun' | 'scheduled' | 'recovered';
+  source?: string; // What a connection issue is about, e.g. "WebSocket" or a circuit breaker
+  details?: string[]; // Summary lines of resolved and digest notifications
+}
+
+/**
+ * A channel operators are alerted through. Sends never throw: a channel that is down
+ * logs the failure and the bot carries on.
+ */
+export interface Notifier {
+  readonly name: string;
+  testConnection(): Promise<boolean>;
+  sendRescueStarted(notification: RescueNotification): Promise<void>;
+  sendRescueSuccess(notification: RescueNotification): Promise<void>;
+  sendRescueFailed(notification: RescueNotification): Promise<void>;
+  sendBotStarted(walletAddress: string): Promise<void>;
+  sendBotStopped(walletAddress: string): Promise<void>;
+  sendConnectionIssue(error: string, source?: string): Promise<void>;
+  sendConnectionRestored(source: string, details?: string[]): Promise<void>;
+  sendAttackerActivity(walletAddress: string, tx: AttackerTransaction): Promise<void>;
+  sendDigest(details: string[]): Promise<void>;
+}
+
+export type NotificationEventType =
+  | 'test'
+  | 'rescue-started'
+  | 'rescue-success'
+  | 'rescue-failed'
+  | 'bot-started'
+  | 'bot-stopped'
+  | 'connection-issue'
+  | 'connection-restored'
+  | 'attacker-activity'
+  | 'digest';
+
+export const NOTIFICATION_EVENT_TYPES: NotificationEventType[] = [
+  'test',
+  'rescue-started',
+  'rescue-success',
+  'rescue-failed',
+  'bot-started',
+  'bot-stopped',
+  'connection-issue',
+  'connection-restored',
+  'attacker-activity',
+  'digest',
+];
+
+/**
+ * What every channel built on EventNotifier delivers: the RescueNotification payload,
+ * tagged with what happened
+ */
+export interface NotificationEvent {
+  type: NotificationEventType;
+  at: number; // Unix ms
+  notification: RescueNotification;
+  attackerTransaction?: AttackerTransaction;
+}
+
+/**
+ * Base for channels that render every event the same way; subclasses only deliver
+ */
+export abstract class EventNotifier implements Notifier {
+  abstract readonly name: string;
+
+  protected abstract deliver(event: NotificationEvent): Promise<void>;
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.deliver(this.event('test', { success: true }));
+      logger.info(`✅ ${this.name} connection test successful`);
+      return true;
+    } catch (error) {
+      logger.error(`❌ ${this.name} connection test failed:`, error);
+      return false;
+    }
+  }
+
+  sendRescueStarted(notification: RescueNotification): Promise<void> {
+    return this.send(this.event('rescue-started', notification));
+  }
+
+  sendRescueSuccess(notification: RescueNotification): Promise<void> {
+    return this.send(this.event('rescue-success', notification));
+  }
+
+  sendRescueFailed(notification: RescueNotification): Promise<void> {
+    return this.send(this.event('rescue-failed', notification));
+  }
+
+  sendBotStarted(walletAddress: string): Promise<void> {
+    return this.send(this.event('bot-started', { success: true, walletAddress }));
+  }
+
+  sendBotStopped(walletAddress: string): Promise<void> {
+    return this.send(this.event('bot-stopped', { success: true, walletAddress }));
+  }
+
+  sendConnectionIssue(error: string, source?: string): Promise<void> {
+    return this.send(this.event('connection-issue', { success: false, error, source }));
+  }
+
+  sendConnectionRestored(source: string, details?: string[]): Promise<void> {
+    return this.send(this.event('connection-restored', { success: true, source, details }));
+  }
+
+  sendAttackerActivity(walletAddress: string, tx: AttackerTransaction): Promise<void> {
+    return this.send({ ...this.event('attacker-activity', { success: false, walletAddress }), attackerTransaction: tx });
+  }
+
+  sendDigest(details: string[]): Promise<void> {
+    return this.send(this.event('digest', { success: true, details }));
+  }
+
+  private event(type: NotificationEventType, notification: RescueNotification): NotificationEvent {
+    return { type, at: Date.now(), notification };
+  }
+
+  private async send(event: NotificationEvent): Promise<void> {
+    try {
+      await this.deliver(event);
+      logger.info(`📨 ${this.name} notification sent: ${event.type}`);
+    } catch (error) {
+      logger.error(`Failed to send ${this.name} notification (${event.type}):`, error);
+    }
+  }
+}
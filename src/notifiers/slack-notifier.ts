@@ -0,0 +1,35 @@
+import { ChainConfig } from '../config/chains';
+import { EventNotifier, NotificationEvent } from './notifier';
+import { formatNotification, toJson } from './format';
+import { postJson } from './http';
+
+// Inline code cannot span lines in mrkdwn
+function code(value: string): string {
+  return value.includes('\n') ? `\n\`\`\`${value}\`\`\`` : `\`${value}\``;
+}
+
+/**
+ * Posts each event to a Slack incoming webhook
+ */
+export class SlackNotifier extends EventNotifier {
+  readonly name = 'Slack';
+
+  constructor(private readonly webhookUrl: string, private readonly chain?: ChainConfig) {
+    super();
+  }
+
+  protected async deliver(event: NotificationEvent): Promise<void> {
+    const { title, fields } = formatNotification(event, this.chain);
+
+    await postJson(this.webhookUrl, toJson({
+      text: title, // Shown in push notifications and clients without blocks
+      blocks: [
+        { type: 'header', text: { type: 'plain_text', text: title, emoji: true } },
+        ...(fields.length > 0 ? [{
+          type: 'section',
+          text: { type: 'mrkdwn', text: fields.map(field => `*${field.name}:* ${code(field.value)}`).join('\n') },
+        }] : []),
+      ],
+    }));
+  }
+}
@@ -0,0 +1,234 @@
+import * as net from 'net';
+import * as os from 'os';
+import * as tls from 'tls';
+import { randomBytes } from 'crypto';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS (usually port 465); otherwise STARTTLS whenever the server offers it
+  username?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  from: string; // "address" or "Name <address>"
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const DEFAULT_SMTP_TIMEOUT_MS = 15000;
+
+/**
+ * One SMTP conversation: replies are read in order, one per command
+ */
+class SmtpSession {
+  private socket: net.Socket;
+  private timeoutMs: number;
+  private buffer = '';
+  private waiter?: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void };
+  private failure?: Error;
+
+  constructor(socket: net.Socket, timeoutMs: number) {
+    this.socket = socket;
+    this.timeoutMs = timeoutMs;
+    this.attach(socket);
+  }
+
+  async command(line: string, expected: number[], label = line.split(' ')[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, label);
+  }
+
+  async expect(expected: number[], label: string): Promise<SmtpReply> {
+    const reply = await this.readReply();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${label} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  /**
+   * Switch the connection to TLS after a successful STARTTLS
+   */
+  async upgrade(host: string): Promise<void> {
+    this.socket.removeAllListeners();
+    const secureSocket = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secureSocket.once('secureConnect', resolve);
+      secureSocket.once('error', reject);
+    });
+    this.socket = secureSocket;
+    this.attach(secureSocket);
+  }
+
+  write(data: string): void {
+    this.socket.write(data);
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new Error('SMTP server stopped responding')));
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      this.deliver();
+    });
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private readReply(): Promise<SmtpReply> {
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+      this.deliver();
+    });
+  }
+
+  /**
+   * Hand a complete (possibly multi-line) reply to the waiting command
+   */
+  private deliver(): void {
+    if (!this.waiter) {
+      return;
+    }
+
+    const lines: string[] = [];
+    let offset = 0;
+
+    for (;;) {
+      const end = this.buffer.indexOf('\r\n', offset);
+      if (end === -1) {
+        return;
+      }
+
+      const line = this.buffer.slice(offset, end);
+      offset = end + 2;
+      lines.push(line.slice(4));
+
+      // "250-..." continues, "250 ..." ends the reply
+      if (line[3] !== '-') {
+        this.buffer = this.buffer.slice(offset);
+        const waiter = this.waiter;
+        this.waiter = undefined;
+        waiter.resolve({ code: parseInt(line.slice(0, 3), 10), lines });
+        return;
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    const waiter = this.waiter;
+    this.waiter = undefined;
+    waiter?.reject(error);
+  }
+}
+
+function connect(options: SmtpOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+      : net.connect({ host: options.host, port: options.port });
+
+    socket.setTimeout(options.timeoutMs ?? DEFAULT_SMTP_TIMEOUT_MS, () => {
+      socket.destroy(new Error(`SMTP connection to ${options.host}:${options.port} timed out`));
+    });
+    socket.once('error', reject);
+    socket.once(options.secure ? 'secureConnect' : 'connect', () => {
+      socket.off('error', reject);
+      resolve(socket);
+    });
+  });
+}
+
+function isLoopback(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
+
+/**
+ * The bare address out of "Name <address>"
+ */
+function envelopeAddress(address: string): string {
+  return address.match(/<([^>]+)>/)?.[1] ?? address.trim();
+}
+
+function encodeHeader(value: string): string {
+  // eslint-disable-next-line no-control-regex
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function buildMessage(message: MailMessage): string {
+  const body = Buffer.from(message.text, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+  const domain = envelopeAddress(message.from).split('@')[1] ?? 'localhost';
+
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomBytes(12).toString('hex')}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+}
+
+/**
+ * Send one plain-text email over SMTP, with STARTTLS when offered and AUTH PLAIN
+ * when credentials are set. Credentials are never sent unencrypted to a remote host.
+ */
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<void> {
+  const session = new SmtpSession(await connect(options), options.timeoutMs ?? DEFAULT_SMTP_TIMEOUT_MS);
+
+  try {
+    await session.expect([220], 'greeting');
+    const capabilities = await session.command(`EHLO ${os.hostname()}`, [250]);
+    let encrypted = options.secure;
+
+    if (!encrypted && capabilities.lines.some(line => line.toUpperCase() === 'STARTTLS')) {
+      await session.command('STARTTLS', [220]);
+      await session.upgrade(options.host);
+      await session.command(`EHLO ${os.hostname()}`, [250]);
+      encrypted = true;
+    }
+
+    if (options.username) {
+      if (!encrypted && !isLoopback(options.host)) {
+        throw new Error(`SMTP server ${options.host} does not offer STARTTLS, refusing to send credentials unencrypted`);
+      }
+
+      const credentials = Buffer.from(`\0${options.username}\0${options.password ?? ''}`, 'utf8').toString('base64');
+      await session.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+    }
+
+    await session.command(`MAIL FROM:<${envelopeAddress(message.from)}>`, [250], 'MAIL FROM');
+    for (const recipient of message.to) {
+      await session.command(`RCPT TO:<${envelopeAddress(recipient)}>`, [250, 251], 'RCPT TO');
+    }
+
+    await session.command('DATA', [354]);
+    session.write(`${buildMessage(message)}\r\n.\r\n`);
+    await session.expect([250], 'message');
+
+    await session.command('QUIT', [221]);
+  } finally {
+    session.close();
+  }
+}
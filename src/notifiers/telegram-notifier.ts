@@ -1,26 +1,21 @@
 import TelegramBot from 'node-telegram-bot-api';
-import { logger } from './logger';
-
-export interface RescueNotification {
-  success: boolean;
-  walletAddress: string;
-  amount?: bigint;
-  amountEth?: string;
-  txHash?: string;
-  blockNumber?: number;
-  error?: string;
-  gasUsed?: bigint;
-  gasCostEth?: string;
-  rescueType?: 'initial' | 'retry' | 'final' | 'auto';
-}
-
-export class TelegramNotifier {
+import { formatEther, formatUnits } from 'ethers';
+import { logger } from '../utils/logger';
+import { AttackerTransaction } from '../monitors/mempool-monitor';
+import { ChainConfig, explorerTxUrl } from '../config/chains';
+import { Notifier, RescueNotification } from './notifier';
+
+export class TelegramNotifier implements Notifier {
+  readonly name = 'Telegram';
   private bot?: TelegramBot;
   private chatId?: string;
   private botToken?: string;
   private enabled: boolean;
+  private chain?: ChainConfig;
+
+  constructor(botToken: string, chatId: string, chain?: ChainConfig) {
+    this.chain = chain;
 
-  constructor(botToken: string, chatId: string) {
     if (!botToken || !chatId) {
       this.enabled = false;
       logger.warn('Telegram notifications disabled: missing bot token or chat ID');
@@ -108,7 +103,7 @@ export class TelegramNotifier {
 
 Monitoring wallet: \`${walletAddress}\`
 
-Network: *Sepolia Testnet*
+Network: *${this.chain?.displayName ?? 'Unknown'}*
 Status: ✅ Active
 Real-time monitoring: 📡 WebSocket enabled
 
@@ -147,12 +142,12 @@ Bot can be restarted to resume monitoring.`;
     }
   }
 
-  async sendConnectionIssue(error: string): Promise<void> {
+  async sendConnectionIssue(error: string, source?: string): Promise<void> {
     if (!this.enabled || !this.bot || !this.chatId) return;
 
     try {
       const message = `⚠️ *Connection Issue Detected*
-
+${source ? `\nSource: *${source}*` : ''}
 Error: \`${error}\`
 
 Attempting automatic recovery...
@@ -168,6 +163,63 @@ WebSocket reconnection active with circuit breaker protection.`;
     }
   }
 
+  async sendConnectionRestored(source: string, details: string[] = []): Promise<void> {
+    if (!this.enabled || !this.bot || !this.chatId) return;
+
+    try {
+      // Plain text: error messages in the details may contain Markdown characters
+      const message = ['✅ Connection Restored', '', `Source: ${source}`, ...details.map(line => `• ${line}`)].join('\n');
+
+      await this.bot.sendMessage(this.chatId, message, { disable_web_page_preview: true });
+      logger.info('📱 Telegram notification sent: Connection restored');
+    } catch (error) {
+      logger.error('Failed to send Telegram notification (connection restored):', error);
+    }
+  }
+
+  async sendAttackerActivity(walletAddress: string, tx: AttackerTransaction): Promise<void> {
+    if (!this.enabled || !this.bot || !this.chatId) return;
+
+    try {
+      const tip = tx.maxPriorityFeePerGas ?? tx.gasPrice ?? 0n;
+      const message = `🕵️ *Attacker Transaction Detected*
+
+📱 *Wallet:* \`${walletAddress}\`
+🔗 *Transaction:* \`${tx.hash}\`
+🔢 *Nonce:* \`${tx.nonce}\`
+🎯 *To:* \`${tx.to ?? 'contract creation'}\`
+💰 *Value:* \`${formatEther(tx.value)} ${this.nativeSymbol}\`
+⛽ *Priority Fee:* \`${formatUnits(tip, 'gwei')} gwei\`
+
+The next rescue bundle will outbid this transaction for the same nonce.`;
+
+      await this.bot.sendMessage(this.chatId, message, {
+        parse_mode: 'Markdown',
+        disable_web_page_preview: true
+      });
+      logger.info('📱 Telegram notification sent: Attacker activity');
+    } catch (error) {
+      logger.error('Failed to send Telegram notification (attacker activity):', error);
+    }
+  }
+
+  async sendDigest(details: string[]): Promise<void> {
+    if (!this.enabled || !this.bot || !this.chatId) return;
+
+    try {
+      const message = ['📋 Notification Digest', '', ...details.map(line => `• ${line}`)].join('\n');
+
+      await this.bot.sendMessage(this.chatId, message, { disable_web_page_preview: true });
+      logger.info('📱 Telegram notification sent: Digest');
+    } catch (error) {
+      logger.error('Failed to send Telegram notification (digest):', error);
+    }
+  }
+
+  private get nativeSymbol(): string {
+    return this.chain?.nativeSymbol ?? 'ETH';
+  }
+
   private formatRescueStartedMessage(notification: RescueNotification): string {
     const amount = notification.amountEth ||
                    (notification.amount ? `${(Number(notification.amount) / 1e18).toFixed(6)}` : 'Unknown');
@@ -175,7 +227,7 @@ WebSocket reconnection active with circuit breaker protection.`;
     let message = `🚨 *Rescue Operation Started* 🏃‍♂️
 
 📱 *Wallet:* \`${notification.walletAddress}\`
-💰 *Amount:* \`${amount} ETH\`
+💰 *Amount:* \`${amount} ${notification.asset || this.nativeSymbol}\`
 🎯 *Type:* ${notification.rescueType || 'Auto'} Detection`;
 
     if (notification.error) {
@@ -196,12 +248,17 @@ WebSocket reconnection active with circuit breaker protection.`;
     let message = `✅ *Rescue Operation Successful* 🎉
 
 📱 *Wallet:* \`${notification.walletAddress}\`
-💰 *Rescued:* \`${amount} ETH\`
-⛽ *Gas Cost:* \`${gasCost} ETH\``;
+💰 *Rescued:* \`${amount} ${notification.asset || this.nativeSymbol}\`
+⛽ *Gas Cost:* \`${gasCost} ${this.nativeSymbol}\``;
 
     if (notification.txHash) {
       message += `\n🔗 *Transaction:* \`${notification.txHash}\``;
 
+      const explorerUrl = this.chain && explorerTxUrl(this.chain, notification.txHash);
+      if (explorerUrl) {
+        message += `\n🔍 *Explorer:* ${explorerUrl}`;
+      }
+
       if (notification.blockNumber) {
         message += `\n📦 *Block:* \`${notification.blockNumber}\``;
       }
@@ -219,7 +276,7 @@ WebSocket reconnection active with circuit breaker protection.`;
     let message = `❌ *Rescue Operation Failed* ⚠️
 
 📱 *Wallet:* \`${notification.walletAddress}\`
-💰 *Amount Attempted:* \`${amount} ETH\``;
+💰 *Amount Attempted:* \`${amount} ${notification.asset || this.nativeSymbol}\``;
 
     if (notification.error) {
       message += `\n🚫 *Error:* \`${notification.error}\``;
@@ -0,0 +1,48 @@
+import { createHmac } from 'crypto';
+import { ChainConfig } from '../config/chains';
+import { EventNotifier, NotificationEvent } from './notifier';
+import { toJson } from './format';
+import { postJson } from './http';
+
+/**
+ * Sign a webhook body the way WebhookNotifier does, for receivers to verify:
+ * hex HMAC-SHA256 over "<timestamp>.<body>"
+ */
+export function signWebhookBody(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Posts each event as JSON to any HTTP endpoint. With a secret, requests carry
+ * X-Rescue-Timestamp (Unix seconds) and X-Rescue-Signature ("sha256=<hex>") headers.
+ */
+export class WebhookNotifier extends EventNotifier {
+  readonly name = 'Webhook';
+
+  constructor(
+    private readonly url: string,
+    private readonly secret?: string,
+    private readonly chain?: ChainConfig
+  ) {
+    super();
+  }
+
+  protected async deliver(event: NotificationEvent): Promise<void> {
+    const body = toJson({
+      event: event.type,
+      at: new Date(event.at).toISOString(),
+      chainId: this.chain?.chainId,
+      notification: event.notification,
+      attackerTransaction: event.attackerTransaction,
+    });
+
+    const headers: Record<string, string> = {};
+    if (this.secret) {
+      const timestamp = String(Math.floor(event.at / 1000));
+      headers['X-Rescue-Timestamp'] = timestamp;
+      headers['X-Rescue-Signature'] = `sha256=${signWebhookBody(this.secret, timestamp, body)}`;
+    }
+
+    await postJson(this.url, body, headers);
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Minimal human-readable ABIs for the contracts the rescue bundles interact with
+ */
+export const ERC20_ABI = [
+  'function balanceOf(address owner) view returns (uint256)',
+  'function decimals() view returns (uint8)',
+  'function symbol() view returns (string)',
+  'function transfer(address to, uint256 amount) returns (bool)',
+];
+
+export const ERC721_ABI = [
+  'function ownerOf(uint256 tokenId) view returns (address)',
+  'function safeTransferFrom(address from, address to, uint256 tokenId)',
+];
+
+export const ERC1155_ABI = [
+  'function balanceOfBatch(address[] accounts, uint256[] ids) view returns (uint256[])',
+  'function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] amounts, bytes data)',
+];
+
+export const MERKLE_DISTRIBUTOR_ABI = [
+  'function claim(uint256 index, address account, uint256 amount, bytes32[] merkleProof)',
+];
+
+// OP Stack GasPriceOracle predeploy
+export const GAS_PRICE_ORACLE_ABI = [
+  'function getL1Fee(bytes _data) view returns (uint256)',
+];
+
+// Arbitrum NodeInterface virtual contract (eth_call only)
+export const NODE_INTERFACE_ABI = [
+  'function gasEstimateL1Component(address to, bool contractCreation, bytes data) payable returns (uint64 gasEstimateForL1, uint256 baseFee, uint256 l1BaseFeeEstimate)',
+];
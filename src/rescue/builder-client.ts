@@ -0,0 +1,91 @@
+import { Wallet, ethers } from 'ethers';
+import { logger } from '../utils/logger';
+import { BuilderEndpoint } from '../config/config';
+
+export interface BuilderSubmission {
+  builder: string;
+  targetBlock: number;
+  success: boolean;
+  bundleHash?: string;
+  error?: string;
+}
+
+const BUILDER_REQUEST_TIMEOUT_MS = 5000;
+
+/**
+ * Minimal eth_sendBundle client for block builders outside the Flashbots relay
+ */
+export class BuilderClient {
+  private requestId = 0;
+
+  constructor(
+    private readonly endpoint: BuilderEndpoint,
+    private readonly authSigner: Wallet
+  ) {}
+
+  get name(): string {
+    return this.endpoint.name;
+  }
+
+  /**
+   * Send a signed bundle for a single target block
+   */
+  async sendBundle(signedBundle: string[], targetBlock: number): Promise<BuilderSubmission> {
+    try {
+      const body = JSON.stringify({
+        jsonrpc: '2.0',
+        id: ++this.requestId,
+        method: 'eth_sendBundle',
+        params: [{
+          txs: signedBundle,
+          blockNumber: `0x${targetBlock.toString(16)}`,
+        }],
+      });
+
+      const response = await fetch(this.endpoint.url, {
+        method: 'POST',
+        headers: await this.buildHeaders(body),
+        body,
+        signal: AbortSignal.timeout(BUILDER_REQUEST_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}`);
+      }
+
+      const payload = await response.json() as {
+        result?: { bundleHash?: string } | string | null;
+        error?: { message: string };
+      };
+
+      if (payload.error) {
+        throw new Error(payload.error.message);
+      }
+
+      const bundleHash = typeof payload.result === 'object' && payload.result !== null
+        ? payload.result.bundleHash
+        : undefined;
+
+      logger.debug(`Bundle accepted by ${this.name} for block ${targetBlock}`);
+
+      return { builder: this.name, targetBlock, success: true, bundleHash };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn(`Bundle submission to ${this.name} failed for block ${targetBlock}: ${message}`);
+      return { builder: this.name, targetBlock, success: false, error: message };
+    }
+  }
+
+  private async buildHeaders(body: string): Promise<Record<string, string>> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    if (this.endpoint.auth === 'flashbots') {
+      const signature = await this.authSigner.signMessage(ethers.id(body));
+      headers['X-Flashbots-Signature'] = `${this.authSigner.address}:${signature}`;
+    } else if (this.endpoint.auth === 'header' && this.endpoint.headerName) {
+      headers[this.endpoint.headerName] = this.endpoint.headerValue ?? '';
+    }
+
+    return headers;
+  }
+}
@@ -1,24 +1,79 @@
-import { TransactionRequest, Wallet, ethers } from 'ethers';
-import { FlashbotsBundleTransaction } from '@flashbots/ethers-provider-bundle';
-import { GasEstimate } from './gas-calculator';
+import { Interface, TransactionRequest, Wallet, ethers } from 'ethers';
+import {
+  FlashbotsBundleProvider,
+  FlashbotsBundleRawTransaction,
+  FlashbotsBundleTransaction,
+} from '@flashbots/ethers-provider-bundle';
+import { GasEstimate, SponsoredCall, SponsoredGasEstimate } from './gas-calculator';
+import { ERC20_ABI, ERC721_ABI, ERC1155_ABI, MERKLE_DISTRIBUTOR_ABI } from './abis';
+import { NftRescueTarget } from '../config/nft-targets';
+import { ClaimRescueConfig } from '../config/claim-file';
+import { FeeModel } from '../config/chains';
+import { encodeCoinbasePayment } from './coinbase-payer';
 import { logger } from '../utils/logger';
 
+/**
+ * Builder payment made through the coinbase payer contract as the last bundle transaction
+ */
+export interface CoinbasePayment {
+  payerAddress: string;
+  amount: bigint;
+  gasLimit: bigint;
+}
+
+/**
+ * Value transfer out of the compromised wallet, one per split recipient
+ */
+export interface SweepTransfer {
+  to: string;
+  value: bigint;
+  gasLimit: bigint;
+}
+
+/**
+ * Bundle entry: a transaction we sign, or someone else's already-signed transaction
+ */
+export type BundleEntry = FlashbotsBundleTransaction | FlashbotsBundleRawTransaction;
+
+export interface BundleSimulation {
+  success: boolean;
+  blockNumber: number;
+  gasUsed?: number;
+  coinbaseDiff?: bigint;
+  effectiveGasPrice?: bigint;
+  revertReason?: string;
+  error?: string;
+}
+
+const erc20Interface = new Interface(ERC20_ABI);
+const erc721Interface = new Interface(ERC721_ABI);
+const erc1155Interface = new Interface(ERC1155_ABI);
+const distributorInterface = new Interface(MERKLE_DISTRIBUTOR_ABI);
+
+// Transfer cannot be estimated before the claim lands, so use a generous fixed limit
+const DEFAULT_CLAIMED_TRANSFER_GAS_LIMIT = BigInt(100000);
+
 export class BundleBuilder {
   private wallet: Wallet;
   private safeWalletAddress: string;
+  private feeModel: FeeModel;
 
-  constructor(wallet: Wallet, safeWalletAddress: string) {
+  constructor(wallet: Wallet, safeWalletAddress: string, feeModel: FeeModel = 'eip1559') {
     this.wallet = wallet;
     this.safeWalletAddress = safeWalletAddress;
+    this.feeModel = feeModel;
   }
 
   /**
-   * Build Flashbots bundle with rescue transaction
+   * Build Flashbots bundle with rescue transaction, signed with nonceOverride when the
+   * caller has already resolved the nonce
    */
   async buildRescueBundle(
     balance: bigint,
     sweepAmount: bigint,
-    gasEstimate: GasEstimate
+    gasEstimate: GasEstimate,
+    coinbasePayment?: CoinbasePayment,
+    nonceOverride?: number
   ): Promise<FlashbotsBundleTransaction[]> {
     try {
       logger.info('Building Flashbots rescue bundle...');
@@ -30,18 +85,16 @@ export class BundleBuilder {
 
       // Get network info and nonce
       const network = await this.wallet.provider.getNetwork();
-      const nonce = await this.wallet.getNonce();
+      // Latest rather than pending, so the sweep replaces any attacker transaction still in the mempool
+      const nonce = nonceOverride ?? await this.wallet.getNonce('latest');
 
       // Create rescue transaction
       const rescueTx: TransactionRequest = {
         to: this.safeWalletAddress,
         value: sweepAmount,
         gasLimit: gasEstimate.gasLimit,
-        maxFeePerGas: gasEstimate.maxFeePerGas,
-        maxPriorityFeePerGas: gasEstimate.maxPriorityFeePerGas,
-        chainId: network.chainId,
+        ...this.buildFeeFields(gasEstimate, network.chainId),
         nonce: nonce,
-        type: 2, // EIP-1559 transaction
       };
 
       // Sign the transaction
@@ -62,6 +115,23 @@ export class BundleBuilder {
         },
       ];
 
+      // Pay the builder directly via block.coinbase as the last transaction
+      if (coinbasePayment) {
+        bundle.push({
+          transaction: {
+            to: coinbasePayment.payerAddress,
+            data: encodeCoinbasePayment(),
+            value: coinbasePayment.amount,
+            gasLimit: coinbasePayment.gasLimit,
+            ...this.buildFeeFields(gasEstimate, network.chainId),
+            nonce: nonce + 1,
+          },
+          signer: this.wallet,
+        });
+
+        logger.info(`  Coinbase bribe: ${this.formatEther(coinbasePayment.amount)} ETH via ${coinbasePayment.payerAddress}`);
+      }
+
       return bundle;
     } catch (error) {
       logger.error('Failed to build rescue bundle', error);
@@ -70,32 +140,338 @@ export class BundleBuilder {
   }
 
   /**
-   * Simulate bundle execution (for testing)
+   * Build a rescue bundle that splits the sweep into one transfer per recipient,
+   * with sequential nonces and the coinbase payment (if any) last
+   */
+  async buildSplitRescueBundle(
+    transfers: SweepTransfer[],
+    gasEstimate: GasEstimate,
+    coinbasePayment?: CoinbasePayment,
+    nonceOverride?: number
+  ): Promise<FlashbotsBundleTransaction[]> {
+    try {
+      logger.info(`Building Flashbots split rescue bundle (${transfers.length} transfers)...`);
+
+      if (!this.wallet.provider) {
+        throw new Error('Wallet provider not connected');
+      }
+
+      const network = await this.wallet.provider.getNetwork();
+      const nonce = nonceOverride ?? await this.wallet.getNonce('latest');
+      const feeFields = this.buildFeeFields(gasEstimate, network.chainId);
+
+      const bundle: FlashbotsBundleTransaction[] = transfers.map((transfer, i) => ({
+        transaction: {
+          to: transfer.to,
+          value: transfer.value,
+          gasLimit: transfer.gasLimit,
+          ...feeFields,
+          nonce: nonce + i,
+        },
+        signer: this.wallet,
+      }));
+
+      for (const transfer of transfers) {
+        logger.info(`  ${this.formatEther(transfer.value)} ETH -> ${transfer.to}`);
+      }
+
+      if (coinbasePayment) {
+        bundle.push({
+          transaction: {
+            to: coinbasePayment.payerAddress,
+            data: encodeCoinbasePayment(),
+            value: coinbasePayment.amount,
+            gasLimit: coinbasePayment.gasLimit,
+            ...feeFields,
+            nonce: nonce + transfers.length,
+          },
+          signer: this.wallet,
+        });
+
+        logger.info(`  Coinbase bribe: ${this.formatEther(coinbasePayment.amount)} ETH via ${coinbasePayment.payerAddress}`);
+      }
+
+      return bundle;
+    } catch (error) {
+      logger.error('Failed to build split rescue bundle', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Build a backrun bundle: [pending incoming transfer -> our sweep], so the
+   * funds are swept in the same block they arrive
+   */
+  async buildBackrunBundle(
+    incomingRawTransaction: string,
+    balance: bigint,
+    sweepAmount: bigint,
+    gasEstimate: GasEstimate,
+    coinbasePayment?: CoinbasePayment,
+    nonceOverride?: number
+  ): Promise<BundleEntry[]> {
+    const rescueBundle = await this.buildRescueBundle(balance, sweepAmount, gasEstimate, coinbasePayment, nonceOverride);
+    return [{ signedTransaction: incomingRawTransaction }, ...rescueBundle];
+  }
+
+  /**
+   * Build a sponsored bundle:
+   * [sponsor funds exact gas -> compromised wallet executes calls -> optional dust sweep].
+   * The compromised wallet signs from its confirmed nonce, or nonceOverride when given.
+   */
+  async buildSponsoredBundle(
+    sponsorWallet: Wallet,
+    calls: SponsoredCall[],
+    gasEstimate: SponsoredGasEstimate,
+    dustAmount: bigint,
+    nonceOverride?: number
+  ): Promise<FlashbotsBundleTransaction[]> {
+    try {
+      logger.info('Building sponsored Flashbots bundle...');
+
+      if (!this.wallet.provider) {
+        throw new Error('Wallet provider not connected');
+      }
+
+      if (calls.length !== gasEstimate.callGasLimits.length) {
+        throw new Error('Gas estimate does not match bundle calls');
+      }
+
+      const network = await this.wallet.provider.getNetwork();
+      const sponsorNonce = await sponsorWallet.getNonce();
+      const nonce = nonceOverride ?? await this.wallet.getNonce('latest');
+
+      const feeFields = this.buildFeeFields(gasEstimate, network.chainId);
+
+      const bundle: FlashbotsBundleTransaction[] = [
+        {
+          transaction: {
+            ...feeFields,
+            to: this.wallet.address,
+            value: gasEstimate.fundingAmount,
+            gasLimit: gasEstimate.fundingGasLimit,
+            nonce: sponsorNonce,
+          },
+          signer: sponsorWallet,
+        },
+      ];
+
+      calls.forEach((call, i) => {
+        bundle.push({
+          transaction: {
+            ...feeFields,
+            to: call.to,
+            data: call.data,
+            value: 0n,
+            gasLimit: gasEstimate.callGasLimits[i],
+            nonce: nonce + i,
+          },
+          signer: this.wallet,
+        });
+      });
+
+      if (dustAmount > 0n && gasEstimate.sweepGasLimit > 0n) {
+        bundle.push({
+          transaction: {
+            ...feeFields,
+            to: this.safeWalletAddress,
+            value: dustAmount,
+            gasLimit: gasEstimate.sweepGasLimit,
+            nonce: nonce + calls.length,
+          },
+          signer: this.wallet,
+        });
+      }
+
+      logger.info('Sponsored bundle prepared:');
+      logger.info(`  Sponsor: ${sponsorWallet.address}`);
+      logger.info(`  Gas funding: ${this.formatEther(gasEstimate.fundingAmount)} ETH`);
+      logger.info(`  Calls: ${calls.length}`);
+      logger.info(`  Dust sweep: ${this.formatEther(dustAmount)} ETH`);
+      logger.info(`  Max Fee: ${this.formatGwei(gasEstimate.maxFeePerGas)} gwei`);
+
+      return bundle;
+    } catch (error) {
+      logger.error('Failed to build sponsored bundle', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Encode an ERC-20 transfer of the given amount to the safe wallet
+   */
+  buildTokenTransferCall(tokenAddress: string, amount: bigint): SponsoredCall {
+    return {
+      to: tokenAddress,
+      data: erc20Interface.encodeFunctionData('transfer', [this.safeWalletAddress, amount]),
+    };
+  }
+
+  /**
+   * Encode NFT transfers to the safe wallet: one safeTransferFrom per ERC-721 token,
+   * or a single safeBatchTransferFrom for ERC-1155
+   */
+  buildNftTransferCalls(target: NftRescueTarget): SponsoredCall[] {
+    if (target.standard === 'erc721') {
+      return target.tokenIds.map(tokenId => ({
+        to: target.contract,
+        data: erc721Interface.encodeFunctionData('safeTransferFrom', [
+          this.wallet.address,
+          this.safeWalletAddress,
+          tokenId,
+        ]),
+      }));
+    }
+
+    if (!target.amounts || target.amounts.length !== target.tokenIds.length) {
+      throw new Error('ERC-1155 transfer requires an amount for every token ID');
+    }
+
+    return [{
+      to: target.contract,
+      data: erc1155Interface.encodeFunctionData('safeBatchTransferFrom', [
+        this.wallet.address,
+        this.safeWalletAddress,
+        target.tokenIds,
+        target.amounts,
+        '0x',
+      ]),
+    }];
+  }
+
+  /**
+   * Encode claim-and-sweep calls: claim from the Merkle distributor, then transfer
+   * the claimed tokens to the safe wallet in the same bundle
+   */
+  buildClaimAndSweepCalls(claim: ClaimRescueConfig): SponsoredCall[] {
+    const claimData = claim.claimCalldata ?? distributorInterface.encodeFunctionData('claim', [
+      claim.index,
+      claim.account ?? this.wallet.address,
+      claim.amount,
+      claim.proof,
+    ]);
+
+    return [
+      {
+        to: claim.distributor,
+        data: claimData,
+        gasLimit: claim.claimGasLimit,
+      },
+      {
+        ...this.buildTokenTransferCall(claim.token, claim.amount),
+        gasLimit: claim.transferGasLimit ?? DEFAULT_CLAIMED_TRANSFER_GAS_LIMIT,
+      },
+    ];
+  }
+
+  /**
+   * Fee fields for the chain's fee model; legacy chains pay maxFeePerGas as the gas price
+   */
+  private buildFeeFields(
+    gas: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint },
+    chainId: bigint
+  ): TransactionRequest {
+    if (this.feeModel === 'legacy') {
+      return { gasPrice: gas.maxFeePerGas, chainId, type: 0 };
+    }
+
+    return {
+      maxFeePerGas: gas.maxFeePerGas,
+      maxPriorityFeePerGas: gas.maxPriorityFeePerGas,
+      chainId,
+      type: 2, // EIP-1559 transaction
+    };
+  }
+
+  /**
+   * Validate bundle structure and sign every transaction
+   */
+  async signBundle(
+    flashbotsProvider: FlashbotsBundleProvider,
+    bundle: BundleEntry[]
+  ): Promise<string[]> {
+    if (bundle.length === 0) {
+      throw new Error('Empty bundle');
+    }
+
+    for (const tx of bundle) {
+      if ('signedTransaction' in tx) {
+        if (!ethers.isHexString(tx.signedTransaction)) {
+          throw new Error('Invalid raw transaction in bundle: must be a signed hex string');
+        }
+      } else if (!tx.transaction || !tx.signer) {
+        throw new Error('Invalid transaction in bundle: must have transaction and signer');
+      }
+    }
+
+    return flashbotsProvider.signBundle(bundle);
+  }
+
+  /**
+   * Sign every transaction locally, for routes that take plain signed transactions
+   * instead of a relay bundle
+   */
+  async signTransactions(bundle: BundleEntry[]): Promise<string[]> {
+    if (bundle.length === 0) {
+      throw new Error('Empty bundle');
+    }
+
+    return Promise.all(bundle.map(entry =>
+      'signedTransaction' in entry ? entry.signedTransaction : entry.signer.signTransaction(entry.transaction)
+    ));
+  }
+
+  /**
+   * Simulate a signed bundle against the target block via the relay's eth_callBundle
    */
   async simulateBundle(
-    bundle: FlashbotsBundleTransaction[],
+    flashbotsProvider: FlashbotsBundleProvider,
+    signedBundle: string[],
     blockNumber: number
-  ): Promise<boolean> {
+  ): Promise<BundleSimulation> {
     try {
       logger.debug(`Simulating bundle for block ${blockNumber}...`);
-      // In production, this would call flashbotsProvider.simulate()
-      // For now, we'll just validate the bundle structure
 
-      if (bundle.length === 0) {
-        throw new Error('Empty bundle');
+      const simulation = await flashbotsProvider.simulate(signedBundle, blockNumber);
+
+      if ('error' in simulation) {
+        logger.warn(`Bundle simulation error for block ${blockNumber}: ${simulation.error.message}`);
+        return {
+          success: false,
+          blockNumber,
+          error: simulation.error.message,
+        };
       }
 
-      for (const tx of bundle) {
-        if (!tx.transaction || !tx.signer) {
-          throw new Error('Invalid transaction in bundle: must have transaction and signer');
-        }
+      const result: BundleSimulation = {
+        success: true,
+        blockNumber,
+        gasUsed: simulation.totalGasUsed,
+        coinbaseDiff: BigInt(simulation.coinbaseDiff),
+        effectiveGasPrice: BigInt(simulation.bundleGasPrice),
+      };
+
+      if (simulation.firstRevert) {
+        const revert = simulation.firstRevert;
+        const reason = 'revert' in revert ? (revert.revert || revert.error) : 'unknown';
+        logger.warn(`Bundle simulation reverted for block ${blockNumber} at ${revert.txHash}: ${reason}`);
+        return { ...result, success: false, revertReason: reason, error: `Transaction ${revert.txHash} reverted: ${reason}` };
       }
 
-      logger.debug('Bundle simulation passed');
-      return true;
+      logger.debug(`Bundle simulation passed for block ${blockNumber}`, {
+        gasUsed: result.gasUsed,
+        coinbaseDiff: this.formatEther(result.coinbaseDiff!) + ' ETH',
+        effectiveGasPrice: this.formatGwei(result.effectiveGasPrice!) + ' gwei',
+      });
+
+      return result;
     } catch (error) {
-      logger.error('Bundle simulation failed', error);
-      return false;
+      logger.error(`Bundle simulation failed for block ${blockNumber}`, error);
+      return {
+        success: false,
+        blockNumber,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
     }
   }
 
@@ -0,0 +1,27 @@
+import { Interface } from 'ethers';
+import artifact from './contracts/coinbase-payer.json';
+
+/**
+ * CoinbasePayer helper contract: forwards msg.value to block.coinbase on any call
+ * and reverts if the transfer fails. Hand-assembled runtime code:
+ *
+ *   PUSH1 0 DUP1 DUP1 DUP1      // retSize, retOffset, argsSize, argsOffset = 0
+ *   CALLVALUE COINBASE GAS CALL // coinbase.call{value: msg.value}("")
+ *   ISZERO PUSH1 0x0e JUMPI     // revert on failure
+ *   STOP
+ *   JUMPDEST PUSH1 0 DUP1 REVERT
+ *
+ * Deploy with `node tests/scripts/deploy-coinbase-payer.js` (e.g. against a local devnet).
+ */
+export const COINBASE_PAYER_ABI = artifact.abi;
+export const COINBASE_PAYER_BYTECODE = artifact.bytecode;
+export const COINBASE_PAYER_DEPLOYED_BYTECODE = artifact.deployedBytecode;
+
+const coinbasePayerInterface = new Interface(COINBASE_PAYER_ABI);
+
+/**
+ * Calldata for a coinbase payment; the value sent is the bribe
+ */
+export function encodeCoinbasePayment(): string {
+  return coinbasePayerInterface.encodeFunctionData('pay');
+}
@@ -1,18 +1,108 @@
-import { JsonRpcProvider, Wallet, ethers } from 'ethers';
-import { FlashbotsBundleProvider, FlashbotsBundleResolution, FlashbotsBundleTransaction } from '@flashbots/ethers-provider-bundle';
-import { GasCalculator } from './gas-calculator';
-import { BundleBuilder } from './bundle-builder';
+import { randomBytes } from 'crypto';
+import { Contract, JsonRpcProvider, Transaction, Wallet, ethers, isError, keccak256 } from 'ethers';
+import { FlashbotsBundleProvider, FlashbotsBundleResolution } from '@flashbots/ethers-provider-bundle';
+import { BidStrategyOptions, GasCalculator } from './gas-calculator';
+import { BundleBuilder, BundleEntry, BundleSimulation, CoinbasePayment } from './bundle-builder';
+import { BuilderClient, BuilderSubmission } from './builder-client';
+import { SequencerClient } from './sequencer-client';
+import { encodeCoinbasePayment } from './coinbase-payer';
+import { allocateSplit, splitRecipients, SplitTransfer } from './split-rules';
+import { ERC20_ABI, ERC721_ABI, ERC1155_ABI } from './abis';
+import { SponsoredCall } from './gas-calculator';
+import { NftRescueTarget } from '../config/nft-targets';
+import { ClaimRescueConfig } from '../config/claim-file';
+import { ScheduledUnlock } from '../config/schedule-file';
+import { BuilderEndpoint, SplitRule } from '../config/config';
+import { ChainConfig, getChainConfig, resolveRelayUrl } from '../config/chains';
+import { AttackerTransaction, IncomingTransaction } from '../monitors/mempool-monitor';
+import { ApprovalDecision, ApprovalGate } from '../control/approval-gate';
 import { logger } from '../utils/logger';
-import { withRetry, withTimeout, CircuitBreaker } from '../utils/retry';
+import { withRetry, withTimeout, CircuitBreaker, CircuitBreakerSnapshot, CircuitStateListener, sleep } from '../utils/retry';
+import { RescueRecord, StateStore } from '../utils/state-store';
+import { AuditEventType, AuditJournal } from '../utils/audit-journal';
+import { metrics } from '../utils/metrics';
 
 export interface RescueResult {
   success: boolean;
   txHash?: string;
   blockNumber?: number;
   amountRescued?: bigint;
+  tokenAddress?: string;
+  tokenIds?: bigint[];
+  verified?: boolean; // Post-inclusion check that the safe wallet holds the assets
+  simulations?: BundleSimulation[];
+  builderSubmissions?: BuilderSubmission[];
+  backrunOf?: string; // Hash of the incoming transfer the sweep was bundled behind
+  nonceConflicts?: NonceConflict[]; // Third-party transactions that took our nonce mid-rescue
+  splitTransfers?: SplitTransfer[]; // How amountRescued was divided when split rules apply
+  rescueId?: string; // Groups this rescue's events in the audit journal
   error?: string;
 }
 
+/**
+ * A transaction we did not send confirmed with the nonce a bundle was signed with
+ */
+export interface NonceConflict {
+  signedNonce: number;
+  latestNonce: number; // Confirmed nonce when the conflict was detected
+  pendingNonce: number;
+  detectedAt: number; // Unix ms
+}
+
+/**
+ * Builds the bundle for a target block; blockIndex 0 is the next block
+ */
+type BundleFactory = (targetBlock: number, blockIndex: number) => Promise<BundleEntry[]>;
+
+/**
+ * One rescue in progress, handed down its call chain so concurrent rescues keep
+ * their own journal ID and latency timing
+ */
+interface RescueContext {
+  kind: string;
+  id?: string; // Audit journal rescue ID, only assigned when journaling
+  startedAt: number;
+  submitted: boolean; // Latency is observed on the first submission only
+}
+
+/**
+ * Where and how a bundle is submitted
+ */
+interface SubmissionOptions {
+  targetBlockCount?: number; // Defaults to the configured TARGET_BLOCKS
+  skipSimulation?: boolean; // Pre-armed bundles cannot pass simulation before the funds arrive
+}
+
+export interface FlashbotsRescueOptions {
+  sponsorWallet?: Wallet; // Pays gas for token, NFT and claim rescues
+  builderEndpoints?: BuilderEndpoint[]; // Additional builders to fan bundles out to
+  bidOptions?: BidStrategyOptions; // Priority fee escalation across target blocks
+  coinbasePayerAddress?: string; // Pay bids as a coinbase transfer through this helper contract
+  attackerOutbidPercent?: number; // How far above a pending attacker transaction's tip to bid
+  chain?: ChainConfig; // Relay, network name and fee model; resolved from the provider when omitted
+  gasLimitMarginPercent?: number; // Margin added to estimated gas limits
+  splitRules?: SplitRule[]; // Send shares of each ETH sweep to other recipients
+  stateStore?: StateStore; // Persist bundles, outcomes and circuit breaker state across restarts
+  auditJournal?: AuditJournal; // Structured record of every rescue decision
+  approvalGate?: ApprovalGate; // Hold ETH sweeps above its threshold until a human decides
+}
+
+const DEFAULT_ATTACKER_OUTBID_PERCENT = 10;
+
+// A backrun only makes sense while the incoming transfer is still pending
+const BACKRUN_TARGET_BLOCKS = 2;
+
+const SEQUENCER_CONFIRMATION_TIMEOUT_MS = 60000;
+
+// Scheduled token transfers are signed before the tokens exist, so they cannot be estimated
+const SCHEDULED_TOKEN_TRANSFER_GAS_LIMIT = BigInt(100000);
+
+// Re-sign after losing the nonce at most this many times per rescue
+const MAX_NONCE_REBUILDS = 2;
+
+// Rescue attempts kept in memory for status reporting
+const MAX_RECENT_ATTEMPTS = 20;
+
 export class FlashbotsRescue {
   private provider: JsonRpcProvider;
   private wallet: Wallet;
@@ -22,8 +112,22 @@ export class FlashbotsRescue {
   private safeWalletAddress: string;
   private minRescueAmount: bigint;
   private targetBlocks: number;
-  private flashbotsRpcUrl: string;
+  private flashbotsRpcUrl?: string;
   private circuitBreaker: CircuitBreaker;
+  private sponsorWallet?: Wallet;
+  private builderClients: BuilderClient[];
+  private coinbasePayerAddress?: string;
+  private attackerOutbidPercent: number;
+  private attackerTransaction?: AttackerTransaction;
+  private chain?: ChainConfig;
+  private sequencerClient?: SequencerClient;
+  private splitRules: SplitRule[];
+  private stateStore?: StateStore;
+  private auditJournal?: AuditJournal;
+  private approvalGate?: ApprovalGate;
+  private scheduledApprovals = new Map<string, ApprovalDecision>(); // By unlock name
+  private scheduledBaselines = new Map<string, bigint>(); // Balance before the unlock, by unlock name
+  private recentAttempts: RescueRecord[] = [];
 
   constructor(
     provider: JsonRpcProvider,
@@ -32,7 +136,8 @@ export class FlashbotsRescue {
     minRescueAmount: bigint,
     targetBlocks: number,
     maxPriorityFeeGwei: number,
-    flashbotsRpcUrl: string
+    flashbotsRpcUrl: string | undefined,
+    options: FlashbotsRescueOptions = {}
   ) {
     this.provider = provider;
     this.wallet = wallet;
@@ -40,133 +145,1234 @@ export class FlashbotsRescue {
     this.minRescueAmount = minRescueAmount;
     this.targetBlocks = targetBlocks;
     this.flashbotsRpcUrl = flashbotsRpcUrl;
-    this.gasCalculator = new GasCalculator(provider, maxPriorityFeeGwei);
-    this.bundleBuilder = new BundleBuilder(wallet, safeWalletAddress);
+    this.sponsorWallet = options.sponsorWallet;
+    this.coinbasePayerAddress = options.coinbasePayerAddress;
+    this.attackerOutbidPercent = options.attackerOutbidPercent ?? DEFAULT_ATTACKER_OUTBID_PERCENT;
+    this.builderClients = (options.builderEndpoints ?? []).map(endpoint => new BuilderClient(endpoint, wallet));
+    this.chain = options.chain;
+    this.splitRules = options.splitRules ?? [];
+    this.gasCalculator = new GasCalculator(provider, maxPriorityFeeGwei, {
+      bidOptions: options.bidOptions,
+      feeModel: options.chain?.feeModel,
+      l1FeeModel: options.chain?.l1FeeModel,
+      gasLimitMarginPercent: options.gasLimitMarginPercent,
+    });
+    this.bundleBuilder = new BundleBuilder(wallet, safeWalletAddress, options.chain?.feeModel);
     this.circuitBreaker = new CircuitBreaker(3, 120000, 'FlashbotsRescue'); // 3 failures, 2min timeout
+    this.stateStore = options.stateStore;
+    this.auditJournal = options.auditJournal;
+    this.approvalGate = options.approvalGate;
+
+    const savedBreaker = this.stateStore?.getCircuitBreaker(this.circuitBreakerKey());
+    if (savedBreaker) {
+      this.circuitBreaker.restore(savedBreaker);
+    }
+
+    this.recentAttempts = (this.stateStore?.getRescueHistory(wallet.address) ?? []).slice(-MAX_RECENT_ATTEMPTS);
   }
 
   /**
-   * Initialize Flashbots provider
+   * Initialize Flashbots provider, or the sequencer route on rollups without a relay override
    */
   async initialize(): Promise<void> {
     try {
+      const chain = this.chain ?? getChainConfig((await this.provider.getNetwork()).chainId);
+      this.chain = chain;
+
+      if (chain.sequencerUrl && !this.flashbotsRpcUrl) {
+        this.sequencerClient = new SequencerClient(chain.sequencerUrl);
+        logger.info(`Using ${chain.displayName} sequencer for private submission (${chain.sequencerUrl})`);
+        return;
+      }
+
       logger.info('Initializing Flashbots provider...');
 
+      const relayUrl = resolveRelayUrl(chain, this.flashbotsRpcUrl);
+
       this.flashbotsProvider = await FlashbotsBundleProvider.create(
         this.provider,
         this.wallet,
-        this.flashbotsRpcUrl,
-        'mainnet'
+        relayUrl,
+        { name: chain.name, chainId: chain.chainId }
       );
 
-      logger.info('Flashbots provider initialized successfully');
+      logger.info(`Flashbots provider initialized successfully (${chain.displayName} via ${relayUrl})`);
     } catch (error) {
       logger.error('Failed to initialize Flashbots provider', error);
       throw error;
     }
   }
 
+  /**
+   * Initialize the Flashbots provider on first use
+   */
+  private async ensureInitialized(): Promise<void> {
+    if (!this.flashbotsProvider && !this.sequencerClient) {
+      await withRetry(
+        () => this.initialize(),
+        'initialize Flashbots provider',
+        { maxAttempts: 3, baseDelayMs: 2000 }
+      );
+    }
+  }
+
+  /**
+   * Remember the attacker's latest pending transaction so the next rescue outbids it
+   */
+  recordAttackerTransaction(tx: AttackerTransaction): void {
+    if (!this.attackerTransaction || tx.nonce >= this.attackerTransaction.nonce) {
+      this.attackerTransaction = tx;
+    }
+  }
+
+  /**
+   * Whether sweeping this amount has to wait for a human decision
+   */
+  requiresApproval(amount: bigint): boolean {
+    return this.approvalGate !== undefined && amount >= this.approvalGate.threshold;
+  }
+
+  getCircuitBreakerSnapshot(): CircuitBreakerSnapshot {
+    return this.circuitBreaker.getSnapshot();
+  }
+
+  /**
+   * Follow the bundle submission and gas estimation circuit breakers
+   */
+  onCircuitStateChange(listener: CircuitStateListener): void {
+    this.circuitBreaker.onStateChange(listener);
+    this.gasCalculator.onCircuitStateChange(listener);
+  }
+
+  /**
+   * Most recent rescue attempts, oldest first
+   */
+  getRecentAttempts(): RescueRecord[] {
+    return [...this.recentAttempts];
+  }
+
+  /**
+   * Resolve bundles a previous run left in flight: wait until their target blocks have
+   * passed, then check whether our transaction landed. Returns the landed rescue, if any.
+   */
+  async recoverInFlightBundles(): Promise<RescueResult | undefined> {
+    const bundles = this.stateStore?.getInFlightBundles(this.wallet.address) ?? [];
+    if (bundles.length === 0) {
+      return undefined;
+    }
+
+    logger.info(`Checking ${bundles.length} bundle(s) left in flight by the previous run...`);
+    const rescue = this.beginRescue('recovered');
+    await this.waitForBlock(Math.max(...bundles.map(bundle => bundle.targetBlock)));
+
+    let landed: RescueResult | undefined;
+    for (const bundle of bundles) {
+      const txHash = bundle.txHashes[bundle.txHashes.length - 1];
+      const receipt = await withRetry(
+        () => this.provider.getTransactionReceipt(txHash),
+        `get receipt for ${txHash}`,
+        { maxAttempts: 3, baseDelayMs: 1000 }
+      );
+      const included = receipt?.status === 1;
+
+      this.stateStore!.resolveBundle(bundle.id, included, receipt?.blockNumber);
+      this.journal(rescue, 'resolution', {
+        targetBlock: bundle.targetBlock,
+        txHash,
+        included,
+        blockNumber: receipt?.blockNumber,
+        recovered: true,
+      });
+
+      if (included && !landed) {
+        landed = { success: true, txHash, blockNumber: receipt!.blockNumber };
+      }
+    }
+
+    if (landed) {
+      logger.info(`✓ Bundle from the previous run landed in block ${landed.blockNumber} (${landed.txHash})`);
+      return this.finishRescue(rescue, landed);
+    }
+
+    logger.info('No bundle from the previous run landed');
+    this.journal(rescue, 'rescue-finished', { success: false, error: 'No in-flight bundle landed' });
+    return undefined;
+  }
+
   /**
    * Execute rescue operation
    */
   async executeRescue(balance: bigint): Promise<RescueResult> {
-    return this.circuitBreaker.execute(async () => {
+    return this.runGuarded('eth', async rescue => {
       try {
         logger.info('='.repeat(60));
         logger.info('STARTING RESCUE OPERATION');
         logger.info('='.repeat(60));
 
-        if (!this.flashbotsProvider) {
-          await withRetry(
-            () => this.initialize(),
-            'initialize Flashbots provider',
-            { maxAttempts: 3, baseDelayMs: 2000 }
-          );
+        const approval = await this.awaitApproval(rescue, balance);
+        if (approval && !approval.approved) {
+          return { success: false, error: this.describeRejection(approval) };
         }
 
-        // Calculate gas parameters with retry
-        const gasEstimate = await this.gasCalculator.calculateGasParams();
+        // Funds may have moved while the rescue waited for approval
+        const sweepable = approval ? await this.provider.getBalance(this.wallet.address) : balance;
+        return await this.sweepBalance(rescue, sweepable);
+      } catch (error) {
+        logger.error('Rescue operation failed', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    });
+  }
+
+  /**
+   * Backrun a pending transfer into the compromised wallet: bundle its raw bytes
+   * ahead of our sweep so the funds leave in the block they arrive
+   */
+  async executeBackrunRescue(incoming: IncomingTransaction): Promise<RescueResult> {
+    return this.runGuarded('backrun', async rescue => {
+      try {
+        logger.info('='.repeat(60));
+        logger.info(`STARTING BACKRUN RESCUE OPERATION (${incoming.hash})`);
+        logger.info('='.repeat(60));
 
-        // Check economic viability
-        if (!this.gasCalculator.isRescueViable(balance, this.minRescueAmount, gasEstimate.totalGasCost)) {
-          return {
-            success: false,
-            error: 'Rescue not economically viable',
-          };
+        const currentBalance = await this.provider.getBalance(this.wallet.address);
+        const expectedBalance = currentBalance + incoming.value;
+
+        // Backruns cannot wait for approval, so a sweep that needs one is left for after the deposit lands
+        if (this.requiresApproval(expectedBalance)) {
+          return { success: false, backrunOf: incoming.hash, error: 'Backrun sweep needs approval' };
         }
 
-        // Calculate sweep amount
-        const sweepAmount = this.gasCalculator.calculateSweepAmount(balance, gasEstimate.totalGasCost);
+        const result = await this.sweepBalance(rescue, expectedBalance, incoming.rawTransaction, {
+          targetBlockCount: BACKRUN_TARGET_BLOCKS,
+        });
+        return { ...result, backrunOf: incoming.hash };
+      } catch (error) {
+        logger.error('Backrun rescue operation failed', error);
+        return {
+          success: false,
+          backrunOf: incoming.hash,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    });
+  }
+
+  /**
+   * Pre-armed rescue for a scheduled unlock: signed against the expected amount and
+   * submitted for the next block only, before the funds are there. Bundles are expected
+   * to miss until the unlock lands, so this bypasses the circuit breaker.
+   */
+  async executeScheduledRescue(unlock: ScheduledUnlock): Promise<RescueResult> {
+    const rescue = this.beginRescue('scheduled', { unlock: unlock.name });
+    const result = await this.armScheduledRescue(rescue, unlock);
+
+    // Misses are expected every block until the unlock lands, so only the landing is persisted
+    if (result.success) {
+      return this.finishRescue(rescue, result);
+    }
+
+    this.journal(rescue, 'rescue-finished', { success: false, error: result.error });
+    return { ...result, rescueId: rescue.id };
+  }
+
+  private async armScheduledRescue(rescue: RescueContext, unlock: ScheduledUnlock): Promise<RescueResult> {
+    const submission: SubmissionOptions = { targetBlockCount: 1, skipSimulation: true };
+
+    try {
+      await this.ensureInitialized();
+
+      if (unlock.token) {
+        // The transfer cannot be estimated before the tokens arrive
+        const calls = [{
+          ...this.bundleBuilder.buildTokenTransferCall(unlock.token, unlock.expectedAmount),
+          gasLimit: SCHEDULED_TOKEN_TRANSFER_GAS_LIMIT,
+        }];
+        const result = await this.submitSponsoredBundle(rescue, calls, submission);
+
+        return {
+          ...result,
+          tokenAddress: unlock.token,
+          amountRescued: result.success ? unlock.expectedAmount : undefined,
+        };
+      }
+
+      const balance = await this.provider.getBalance(this.wallet.address);
+      const expectedBalance = this.expectScheduledBalance(unlock, balance);
+
+      const approval = await this.awaitScheduledApproval(rescue, unlock, expectedBalance);
+      if (approval && !approval.approved) {
+        return { success: false, error: this.describeRejection(approval) };
+      }
+
+      return await this.sweepBalance(rescue, expectedBalance, undefined, submission);
+    } catch (error) {
+      logger.error(`Scheduled rescue for ${unlock.name} failed`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Balance a scheduled sweep is signed against: the unlock is added on top of the balance
+   * until it shows up on-chain, after which the actual balance is swept
+   */
+  private expectScheduledBalance(unlock: ScheduledUnlock, balance: bigint): bigint {
+    let baseline = this.scheduledBaselines.get(unlock.name);
+    if (baseline === undefined) {
+      baseline = balance;
+      this.scheduledBaselines.set(unlock.name, baseline);
+    }
+
+    if (balance >= baseline + unlock.expectedAmount) {
+      logger.info(`Unlock ${unlock.name} has landed, sweeping the actual balance`);
+      return balance;
+    }
+
+    return balance + unlock.expectedAmount;
+  }
+
+  /**
+   * Sweep the ETH balance to the safe wallet, optionally behind a pending incoming transaction.
+   * If another transaction takes the nonce mid-rescue, the sweep is rebuilt against the
+   * new nonce and the refreshed balance.
+   */
+  private async sweepBalance(
+    rescue: RescueContext,
+    balance: bigint,
+    incomingRawTransaction?: string,
+    submission: SubmissionOptions = {}
+  ): Promise<RescueResult> {
+    await this.ensureInitialized();
+
+    const nonceConflicts: NonceConflict[] = [];
+    let sweepableBalance = balance;
+    let backrunTransaction = incomingRawTransaction;
+
+    this.journal(rescue, 'balance-observed', { balance, backrun: incomingRawTransaction !== undefined });
+
+    for (let rebuild = 0; ; rebuild++) {
+      const nonce = await this.getSweepNonce();
+      const result = await this.submitSweep(rescue, sweepableBalance, nonce, backrunTransaction, submission);
+      const report = nonceConflicts.length > 0 ? { nonceConflicts: [...nonceConflicts] } : {};
+
+      if (result.success) {
+        return { ...result, ...report };
+      }
+
+      const conflict = await this.detectNonceConflict(nonce);
+      if (!conflict) {
+        return { ...result, ...report };
+      }
+
+      nonceConflicts.push(conflict);
+      this.journal(rescue, 'nonce-conflict', { ...conflict });
+
+      if (rebuild >= MAX_NONCE_REBUILDS) {
+        return {
+          ...result,
+          nonceConflicts,
+          error: `Nonce consumed by another transaction ${nonceConflicts.length} times, giving up`,
+        };
+      }
+
+      // Whatever took the nonce probably moved funds, and the incoming transfer we were
+      // backrunning has either landed (and is in the balance) or can no longer be bundled
+      sweepableBalance = await this.provider.getBalance(this.wallet.address);
+      backrunTransaction = undefined;
+      this.journal(rescue, 'balance-observed', { balance: sweepableBalance, refreshedAfterNonceConflict: true });
+
+      logger.warn(
+        `Rebuilding sweep with nonce ${conflict.latestNonce} and balance ` +
+        `${this.formatEther(sweepableBalance)} ETH (rebuild ${rebuild + 1}/${MAX_NONCE_REBUILDS})`
+      );
+
+      if (sweepableBalance === 0n) {
+        return {
+          success: false,
+          nonceConflicts,
+          error: 'Balance drained by the transaction that consumed the nonce',
+        };
+      }
+    }
+  }
+
+  /**
+   * Post the planned sweep for approval when the balance reaches the gate's threshold.
+   * Undefined when no approval is needed, or the sweep is not viable anyway.
+   */
+  private async awaitApproval(rescue: RescueContext, balance: bigint): Promise<ApprovalDecision | undefined> {
+    if (!this.approvalGate || !this.requiresApproval(balance)) {
+      return undefined;
+    }
+
+    const destinations = this.splitRules.length > 0
+      ? splitRecipients(this.splitRules, this.safeWalletAddress)
+      : [this.safeWalletAddress];
+    const gasEstimate = this.splitRules.length > 0
+      ? await this.gasCalculator.calculateSplitGasParams(this.wallet.address, destinations, balance)
+      : await this.gasCalculator.calculateGasParams({ from: this.wallet.address, to: this.safeWalletAddress, value: balance });
+
+    // Judged and priced the way submitSweep will sign it, so approvers see the amount that is sent
+    const projection = await this.gasCalculator.projectBaseFees(this.targetBlocks + 1);
+    const exact = projection !== undefined;
+    if (!this.gasCalculator.isRescueViable(balance, this.minRescueAmount, gasEstimate.totalGasCost, exact)) {
+      return undefined;
+    }
+
+    const priced = projection
+      ? this.gasCalculator.applyProjectedBaseFee(gasEstimate, projection.baseFees[0])
+      : gasEstimate;
+    const request = {
+      balance,
+      sweepAmount: this.gasCalculator.calculateSweepAmountFor(exact, balance, priced.totalGasCost),
+      destinations,
+      gasLimit: priced.gasLimit,
+      maxFeePerGas: priced.maxFeePerGas,
+      maxPriorityFeePerGas: priced.maxPriorityFeePerGas,
+      totalGasCost: priced.totalGasCost,
+      targetBlockCount: this.targetBlocks,
+      currentBlock: await this.provider.getBlockNumber(),
+    };
+    this.journal(rescue, 'approval-requested', { ...request, threshold: this.approvalGate.threshold });
+
+    const requestedAt = Date.now();
+    const decision = await this.approvalGate.requestApproval({
+      ...request,
+      wallet: this.wallet.address,
+      rescueId: rescue.id,
+    });
+    this.journal(rescue, 'approval-decided', { ...decision, waitedMs: Date.now() - requestedAt });
+
+    // Submission latency measures the bot, not the human
+    rescue.startedAt = Date.now();
+
+    return decision;
+  }
+
+  /**
+   * Approval for a scheduled ETH sweep, asked once per unlock: the rescue is re-armed
+   * every block of the window, and the decision holds for all of them
+   */
+  private async awaitScheduledApproval(
+    rescue: RescueContext,
+    unlock: ScheduledUnlock,
+    expectedBalance: bigint
+  ): Promise<ApprovalDecision | undefined> {
+    const earlier = this.scheduledApprovals.get(unlock.name);
+    if (earlier) {
+      return earlier;
+    }
+
+    const decision = await this.awaitApproval(rescue, expectedBalance);
+    if (decision) {
+      this.scheduledApprovals.set(unlock.name, decision);
+    }
+    return decision;
+  }
+
+  private describeRejection(decision: ApprovalDecision): string {
+    return decision.timedOut ? 'Rescue not approved in time' : `Rescue rejected by ${decision.decidedBy}`;
+  }
+
+  /**
+   * Confirmed nonce to sign the sweep (or the sponsored calls) with. Pending transactions from
+   * the wallet are not ours (rescues only travel privately), so the rescue replaces rather than
+   * queues behind them.
+   */
+  private async getSweepNonce(): Promise<number> {
+    const [latestNonce, pendingNonce] = await Promise.all([
+      this.wallet.getNonce('latest'),
+      this.wallet.getNonce('pending'),
+    ]);
+
+    if (pendingNonce > latestNonce) {
+      logger.warn(
+        `${pendingNonce - latestNonce} pending transaction(s) from the compromised wallet, ` +
+        `signing with nonce ${latestNonce} to replace them`
+      );
+    }
+
+    return latestNonce;
+  }
+
+  /**
+   * Check whether a transaction we did not send confirmed with the nonce the bundle was signed with
+   */
+  private async detectNonceConflict(signedNonce: number): Promise<NonceConflict | undefined> {
+    const [latestNonce, pendingNonce] = await Promise.all([
+      this.wallet.getNonce('latest'),
+      this.wallet.getNonce('pending'),
+    ]);
+
+    if (latestNonce <= signedNonce) {
+      return undefined;
+    }
+
+    logger.warn(
+      `⚠️ Nonce conflict: bundle signed with nonce ${signedNonce} but the wallet is now at ${latestNonce} ` +
+      `(pending ${pendingNonce}), another transaction landed first`
+    );
+
+    return { signedNonce, latestNonce, pendingNonce, detectedAt: Date.now() };
+  }
+
+  /**
+   * Price, build and submit one sweep signed with the given nonce
+   */
+  private async submitSweep(
+    rescue: RescueContext,
+    balance: bigint,
+    nonce: number,
+    incomingRawTransaction: string | undefined,
+    submission: SubmissionOptions
+  ): Promise<RescueResult> {
+    // Calculate gas parameters with retry, estimating the transfer when the safe wallet is a contract;
+    // split sweeps pay gas for one transfer per recipient
+    const splitGas = this.splitRules.length > 0
+      ? await this.gasCalculator.calculateSplitGasParams(
+        this.wallet.address,
+        splitRecipients(this.splitRules, this.safeWalletAddress),
+        balance
+      )
+      : undefined;
+    const gasEstimate = splitGas ?? await this.gasCalculator.calculateGasParams({
+      from: this.wallet.address,
+      to: this.safeWalletAddress,
+      value: balance,
+    });
+
+    // One spare block in case the chain advances before the target blocks are picked
+    const projection = await this.gasCalculator.projectBaseFees((submission.targetBlockCount ?? this.targetBlocks) + 1);
+
+    // Projected base fees price the sweep exactly, otherwise it keeps the safety buffer; the
+    // viability check and every signed bundle of this submission use the same formula
+    const exact = projection !== undefined;
+
+    // Check economic viability
+    const viable = this.gasCalculator.isRescueViable(balance, this.minRescueAmount, gasEstimate.totalGasCost, exact);
+    this.journal(rescue, 'viability', {
+      viable,
+      exact,
+      balance,
+      minRescueAmount: this.minRescueAmount,
+      gasLimit: gasEstimate.gasLimit,
+      maxFeePerGas: gasEstimate.maxFeePerGas,
+      totalGasCost: gasEstimate.totalGasCost,
+      l1Fee: gasEstimate.l1Fee,
+    });
+
+    if (!viable) {
+      return {
+        success: false,
+        error: 'Rescue not economically viable',
+      };
+    }
+
+    const payerAddress = this.coinbasePayerAddress;
+    const bribeGasLimit = payerAddress
+      ? await this.gasCalculator.estimateCoinbasePaymentGas(this.wallet.address, payerAddress, encodeCoinbasePayment())
+      : undefined;
+
+    const tipFloor = await this.getAttackerTipFloor();
+
+    // Re-sign per target block with an escalating bid; the sweep shrinks as the bid grows
+    const sweepAmounts = new Map<number, bigint>();
+    const splitTransfers = new Map<number, SplitTransfer[]>();
+    const result = await this.submitToTargetBlocks(rescue, async (targetBlock, blockIndex) => {
+      let bid = this.gasCalculator.calculateBidForBlock(gasEstimate, blockIndex, balance, tipFloor);
+
+      // With a known base fee the transaction is priced exactly and leaves no buffer behind
+      const projectedBaseFee = projection?.baseFees[targetBlock - projection.parentBlock - 1];
+      if (projectedBaseFee !== undefined) {
+        bid = this.gasCalculator.applyProjectedBaseFee(bid, projectedBaseFee);
+      }
+
+      let sweepAmount: bigint;
+      let gasParams = bid;
+      let coinbasePayment: CoinbasePayment | undefined;
+
+      if (payerAddress && bribeGasLimit) {
+        const bribe = this.gasCalculator.applyCoinbaseBribe(bid, bribeGasLimit);
+        sweepAmount = this.gasCalculator.calculateSweepAmountFor(exact, balance, bribe.totalGasCost, bribe.bribeAmount);
+        gasParams = bribe;
+        coinbasePayment = { payerAddress, amount: bribe.bribeAmount, gasLimit: bribeGasLimit };
+      } else {
+        sweepAmount = this.gasCalculator.calculateSweepAmountFor(exact, balance, bid.totalGasCost);
+      }
+
+      sweepAmounts.set(targetBlock, sweepAmount);
+      this.journal(rescue, 'gas-params', {
+        targetBlock,
+        gasLimit: gasParams.gasLimit,
+        maxFeePerGas: gasParams.maxFeePerGas,
+        maxPriorityFeePerGas: gasParams.maxPriorityFeePerGas,
+        projectedBaseFee,
+        coinbaseBribe: coinbasePayment?.amount,
+        totalGasCost: gasParams.totalGasCost,
+        sweepAmount,
+      });
+
+      if (splitGas) {
+        const transfers = allocateSplit(sweepAmount, this.splitRules, this.safeWalletAddress);
+        splitTransfers.set(targetBlock, transfers);
 
-        // Build rescue bundle
         const bundle = await withRetry(
-          () => this.bundleBuilder.buildRescueBundle(balance, sweepAmount, gasEstimate),
-          'build rescue bundle',
+          () => this.bundleBuilder.buildSplitRescueBundle(
+            transfers.map((transfer, i) => ({
+              to: transfer.to,
+              value: transfer.amount,
+              gasLimit: splitGas.transferGasLimits[i],
+            })),
+            gasParams,
+            coinbasePayment,
+            nonce
+          ),
+          `build split rescue bundle for block ${targetBlock}`,
           { maxAttempts: 2, baseDelayMs: 500 }
         );
 
-        // Get current block number with retry
-        const currentBlock = await withRetry(
-          () => withTimeout(
-            () => this.provider.getBlockNumber(),
-            5000,
-            'getBlockNumber timeout'
-          ),
-          'get current block number',
-          { maxAttempts: 3, baseDelayMs: 1000 }
-        );
+        return incomingRawTransaction ? [{ signedTransaction: incomingRawTransaction }, ...bundle] : bundle;
+      }
+
+      return withRetry(
+        () => incomingRawTransaction
+          ? this.bundleBuilder.buildBackrunBundle(
+            incomingRawTransaction, balance, sweepAmount, gasParams, coinbasePayment, nonce
+          )
+          : this.bundleBuilder.buildRescueBundle(balance, sweepAmount, gasParams, coinbasePayment, nonce),
+        `build rescue bundle for block ${targetBlock}`,
+        { maxAttempts: 2, baseDelayMs: 500 }
+      );
+    }, submission);
 
-        logger.info(`Current block: ${currentBlock}`);
+    if (result.success) {
+      // Sequencer submissions build a single bundle and land in whichever block the sequencer picks
+      const sweepAmount = sweepAmounts.get(result.blockNumber!) ?? [...sweepAmounts.values()][0];
 
-        // Submit bundle to multiple future blocks with retry
-        logger.info(`Submitting bundle to next ${this.targetBlocks} blocks...`);
+      logger.info('='.repeat(60));
+      logger.info('RESCUE SUCCESSFUL!');
+      logger.info('='.repeat(60));
+      logger.info(`Transaction hash: ${result.txHash}`);
+      logger.info(`Block number: ${result.blockNumber}`);
+      logger.info(`Amount rescued: ${this.formatEther(sweepAmount)} ETH`);
 
-        const results = await Promise.allSettled(
-          Array.from({ length: this.targetBlocks }, (_, i) => {
-            const targetBlock = currentBlock + i + 1;
-            return this.submitBundleWithRetry(bundle, targetBlock);
-          })
-        );
+      const transfers = splitTransfers.get(result.blockNumber!) ?? [...splitTransfers.values()][0];
+      for (const transfer of transfers ?? []) {
+        logger.info(`  ${this.formatEther(transfer.amount)} ETH -> ${transfer.to}`);
+      }
+      logger.info('='.repeat(60));
+
+      return { ...result, amountRescued: sweepAmount, ...(transfers ? { splitTransfers: transfers } : {}) };
+    }
+
+    return result;
+  }
 
-      // Check if any bundle was included
-      for (const result of results) {
-        if (result.status === 'fulfilled' && result.value.success) {
+  /**
+   * Execute a sponsored ERC-20 rescue: the sponsor wallet funds exact gas,
+   * the compromised wallet transfers the tokens and sweeps any leftover ETH
+   */
+  async executeTokenRescue(tokenAddress: string, tokenBalance: bigint): Promise<RescueResult> {
+    return this.runGuarded('token', async rescue => {
+      try {
+        logger.info('='.repeat(60));
+        logger.info(`STARTING TOKEN RESCUE OPERATION (${tokenAddress})`);
+        logger.info('='.repeat(60));
+
+        await this.ensureInitialized();
+
+        // Re-read the token balance so the transfer never exceeds what is held
+        const token = new Contract(tokenAddress, ERC20_ABI, this.provider);
+        const heldBalance: bigint = await token.balanceOf(this.wallet.address);
+        const amount = heldBalance < tokenBalance ? heldBalance : tokenBalance;
+
+        if (amount === 0n) {
+          return {
+            success: false,
+            tokenAddress,
+            error: 'No token balance to rescue',
+          };
+        }
+
+        const calls = [this.bundleBuilder.buildTokenTransferCall(tokenAddress, amount)];
+        const result = await this.submitSponsoredBundle(rescue, calls);
+
+        if (result.success) {
           logger.info('='.repeat(60));
-          logger.info('RESCUE SUCCESSFUL!');
+          logger.info('TOKEN RESCUE SUCCESSFUL!');
           logger.info('='.repeat(60));
-          logger.info(`Transaction hash: ${result.value.txHash}`);
-          logger.info(`Block number: ${result.value.blockNumber}`);
-          logger.info(`Amount rescued: ${this.formatEther(sweepAmount)} ETH`);
+          logger.info(`Token: ${tokenAddress}`);
+          logger.info(`Amount rescued: ${amount.toString()}`);
+          logger.info(`Block number: ${result.blockNumber}`);
           logger.info('='.repeat(60));
+        }
 
-          return {
-            success: true,
-            txHash: result.value.txHash,
-            blockNumber: result.value.blockNumber,
-            amountRescued: sweepAmount,
-          };
+        return { ...result, tokenAddress, amountRescued: result.success ? amount : undefined };
+      } catch (error) {
+        logger.error('Token rescue operation failed', error);
+        return {
+          success: false,
+          tokenAddress,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    });
+  }
+
+  /**
+   * Execute a sponsored NFT rescue: verify the compromised wallet owns the tokens,
+   * transfer them to the safe wallet, then confirm the safe wallet owns them
+   */
+  async executeNftRescue(target: NftRescueTarget): Promise<RescueResult> {
+    return this.runGuarded('nft', async rescue => {
+      const tokenIds = target.tokenIds;
+
+      try {
+        logger.info('='.repeat(60));
+        logger.info(`STARTING NFT RESCUE OPERATION (${target.standard} ${target.contract})`);
+        logger.info('='.repeat(60));
+
+        await this.ensureInitialized();
+
+        // Ownership check before signing anything
+        const heldAmounts = await this.getNftHoldings(target, this.wallet.address);
+        const notOwned = tokenIds.filter((_, i) => heldAmounts[i] === 0n);
+        if (notOwned.length > 0) {
+          throw new Error(`Compromised wallet does not own token ID(s) ${notOwned.join(', ')} of ${target.contract}`);
+        }
+
+        const amounts = target.standard === 'erc1155'
+          ? this.resolveErc1155Amounts(target, heldAmounts)
+          : undefined;
+
+        const calls = this.bundleBuilder.buildNftTransferCalls({ ...target, amounts });
+        const result = await this.submitSponsoredBundle(rescue, calls);
+
+        if (!result.success) {
+          return { ...result, tokenAddress: target.contract, tokenIds };
+        }
+
+        // Post-inclusion verification that the safe wallet now owns the tokens
+        const safeHoldings = await this.getNftHoldings(target, this.safeWalletAddress);
+        const expected = amounts ?? tokenIds.map(() => 1n);
+        const verified = expected.every((amount, i) => safeHoldings[i] >= amount);
+
+        if (verified) {
+          logger.info('='.repeat(60));
+          logger.info('NFT RESCUE SUCCESSFUL!');
+          logger.info('='.repeat(60));
+          logger.info(`Contract: ${target.contract}`);
+          logger.info(`Token IDs: ${tokenIds.join(', ')}`);
+          logger.info(`Block number: ${result.blockNumber}`);
+          logger.info('='.repeat(60));
+        } else {
+          logger.error(`Bundle included but safe wallet does not hold all token IDs of ${target.contract}`);
+        }
+
+        return { ...result, tokenAddress: target.contract, tokenIds, verified };
+      } catch (error) {
+        logger.error('NFT rescue operation failed', error);
+        return {
+          success: false,
+          tokenAddress: target.contract,
+          tokenIds,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    });
+  }
+
+  /**
+   * Execute an atomic claim-and-sweep: fund gas, claim from the Merkle distributor
+   * and transfer the tokens to the safe wallet so they never rest in the compromised wallet
+   */
+  async executeClaimRescue(claim: ClaimRescueConfig): Promise<RescueResult> {
+    return this.runGuarded('claim', async rescue => {
+      try {
+        logger.info('='.repeat(60));
+        logger.info(`STARTING CLAIM AND SWEEP OPERATION (${claim.distributor})`);
+        logger.info('='.repeat(60));
+
+        await this.ensureInitialized();
+
+        const token = new Contract(claim.token, ERC20_ABI, this.provider);
+        const safeBalanceBefore: bigint = await token.balanceOf(this.safeWalletAddress);
+
+        const calls = this.bundleBuilder.buildClaimAndSweepCalls(claim);
+        const result = await this.submitSponsoredBundle(rescue, calls);
+
+        if (!result.success) {
+          return { ...result, tokenAddress: claim.token };
         }
+
+        const safeBalanceAfter: bigint = await token.balanceOf(this.safeWalletAddress);
+        const verified = safeBalanceAfter - safeBalanceBefore >= claim.amount;
+
+        if (verified) {
+          logger.info('='.repeat(60));
+          logger.info('CLAIM AND SWEEP SUCCESSFUL!');
+          logger.info('='.repeat(60));
+          logger.info(`Token: ${claim.token}`);
+          logger.info(`Amount rescued: ${claim.amount.toString()}`);
+          logger.info(`Block number: ${result.blockNumber}`);
+          logger.info('='.repeat(60));
+        } else {
+          logger.error(`Bundle included but safe wallet did not receive ${claim.amount} of ${claim.token}`);
+        }
+
+        return { ...result, tokenAddress: claim.token, amountRescued: claim.amount, verified };
+      } catch (error) {
+        logger.error('Claim and sweep operation failed', error);
+        return {
+          success: false,
+          tokenAddress: claim.token,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    });
+  }
+
+  /**
+   * Minimum priority fee needed to beat a still-pending attacker transaction. Our
+   * sweep is signed with the latest nonce, so it competes for the same nonce slot.
+   */
+  private async getAttackerTipFloor(): Promise<bigint> {
+    const attackerTx = this.attackerTransaction;
+    if (!attackerTx) {
+      return 0n;
+    }
+
+    const latestNonce = await this.provider.getTransactionCount(this.wallet.address, 'latest');
+    if (attackerTx.nonce < latestNonce) {
+      logger.debug(`Attacker transaction ${attackerTx.hash} already mined, ignoring its tip`);
+      this.attackerTransaction = undefined;
+      return 0n;
+    }
+
+    // Legacy gasPrice counts entirely as tip, which overbids rather than underbids
+    const attackerTip = attackerTx.maxPriorityFeePerGas ?? attackerTx.gasPrice ?? 0n;
+    const floor = (attackerTip * BigInt(Math.round((100 + this.attackerOutbidPercent) * 100))) / 10000n;
+
+    logger.info(
+      `Outbidding pending attacker transaction ${attackerTx.hash} (nonce ${attackerTx.nonce}): ` +
+      `priority fee floor ${ethers.formatUnits(floor, 'gwei')} gwei`
+    );
+
+    return floor;
+  }
+
+  /**
+   * Read how many of each token ID the owner holds (0 or 1 for ERC-721)
+   */
+  private async getNftHoldings(target: NftRescueTarget, owner: string): Promise<bigint[]> {
+    if (target.standard === 'erc721') {
+      const contract = new Contract(target.contract, ERC721_ABI, this.provider);
+      const owners: string[] = await Promise.all(target.tokenIds.map(id => contract.ownerOf(id)));
+      return owners.map(tokenOwner => tokenOwner.toLowerCase() === owner.toLowerCase() ? 1n : 0n);
+    }
+
+    const contract = new Contract(target.contract, ERC1155_ABI, this.provider);
+    const balances: bigint[] = await contract.balanceOfBatch(
+      target.tokenIds.map(() => owner),
+      target.tokenIds
+    );
+    return Array.from(balances);
+  }
+
+  /**
+   * Pick ERC-1155 amounts to move, failing if the wallet holds less than requested
+   */
+  private resolveErc1155Amounts(target: NftRescueTarget, heldAmounts: bigint[]): bigint[] {
+    return target.tokenIds.map((tokenId, i) => {
+      const requested = target.amounts?.[i] ?? heldAmounts[i];
+      if (heldAmounts[i] < requested) {
+        throw new Error(`Compromised wallet holds ${heldAmounts[i]} of token ${tokenId}, cannot transfer ${requested}`);
+      }
+      return requested;
+    });
+  }
+
+  /**
+   * Submit the calls as a sponsored bundle. If another transaction takes the compromised
+   * wallet's nonce mid-rescue, the bundle is rebuilt against the new nonce.
+   */
+  private async submitSponsoredBundle(
+    rescue: RescueContext,
+    calls: SponsoredCall[],
+    submission: SubmissionOptions = {}
+  ): Promise<RescueResult> {
+    const nonceConflicts: NonceConflict[] = [];
+
+    for (let rebuild = 0; ; rebuild++) {
+      const nonce = await this.getSweepNonce();
+      const result = await this.submitSponsoredCalls(rescue, calls, nonce, submission);
+      const report = nonceConflicts.length > 0 ? { nonceConflicts: [...nonceConflicts] } : {};
+
+      if (result.success) {
+        return { ...result, ...report };
+      }
+
+      const conflict = await this.detectNonceConflict(nonce);
+      if (!conflict) {
+        return { ...result, ...report };
+      }
+
+      nonceConflicts.push(conflict);
+      this.journal(rescue, 'nonce-conflict', { ...conflict });
+
+      if (rebuild >= MAX_NONCE_REBUILDS) {
+        return {
+          ...result,
+          nonceConflicts,
+          error: `Nonce consumed by another transaction ${nonceConflicts.length} times, giving up`,
+        };
       }
 
-      logger.warn('Bundle not included in any target block');
+      logger.warn(
+        `Rebuilding sponsored bundle with nonce ${conflict.latestNonce} ` +
+        `(rebuild ${rebuild + 1}/${MAX_NONCE_REBUILDS})`
+      );
+    }
+  }
+
+  /**
+   * Fund gas from the sponsor, run the calls from the compromised wallet and sweep
+   * any ETH already sitting there, then submit to the target blocks
+   */
+  private async submitSponsoredCalls(
+    rescue: RescueContext,
+    calls: SponsoredCall[],
+    nonce: number,
+    submission: SubmissionOptions
+  ): Promise<RescueResult> {
+    const sponsorWallet = this.sponsorWallet;
+    if (!sponsorWallet) {
+      throw new Error('Sponsor wallet not configured for sponsored rescue');
+    }
+
+    // Any ETH already in the compromised wallet is swept as dust
+    const dustAmount = await this.provider.getBalance(this.wallet.address);
+
+    const gasEstimate = await this.gasCalculator.calculateSponsoredGasParams(
+      this.wallet.address,
+      calls,
+      dustAmount > 0n ? this.safeWalletAddress : undefined
+    );
+
+    const sponsorBalance = await this.provider.getBalance(sponsorWallet.address);
+    this.journal(rescue, 'viability', {
+      viable: sponsorBalance >= gasEstimate.totalGasCost,
+      sponsorBalance,
+      dustAmount,
+      totalGasCost: gasEstimate.totalGasCost,
+    });
+    this.journal(rescue, 'gas-params', {
+      callGasLimits: gasEstimate.callGasLimits,
+      sweepGasLimit: gasEstimate.sweepGasLimit,
+      fundingAmount: gasEstimate.fundingAmount,
+      maxFeePerGas: gasEstimate.maxFeePerGas,
+      maxPriorityFeePerGas: gasEstimate.maxPriorityFeePerGas,
+      totalGasCost: gasEstimate.totalGasCost,
+    });
+
+    if (sponsorBalance < gasEstimate.totalGasCost) {
+      return {
+        success: false,
+        error: `Sponsor balance ${this.formatEther(sponsorBalance)} ETH ` +
+          `< required ${this.formatEther(gasEstimate.totalGasCost)} ETH`,
+      };
+    }
+
+    const bundle = await withRetry(
+      () => this.bundleBuilder.buildSponsoredBundle(sponsorWallet, calls, gasEstimate, dustAmount, nonce),
+      'build sponsored bundle',
+      { maxAttempts: 2, baseDelayMs: 500 }
+    );
+
+    return this.submitToTargetBlocks(rescue, async () => bundle, submission);
+  }
+
+  /**
+   * Submit a bundle to the next target blocks and return the first inclusion
+   */
+  private async submitToTargetBlocks(
+    rescue: RescueContext,
+    buildBundle: BundleFactory,
+    submission: SubmissionOptions = {}
+  ): Promise<RescueResult> {
+    const targetBlockCount = submission.targetBlockCount ?? this.targetBlocks;
+
+    // Get current block number with retry
+    const currentBlock = await withRetry(
+      () => withTimeout(
+        () => this.provider.getBlockNumber(),
+        5000,
+        'getBlockNumber timeout'
+      ),
+      'get current block number',
+      { maxAttempts: 3, baseDelayMs: 1000 }
+    );
+
+    logger.info(`Current block: ${currentBlock}`);
+
+    if (this.sequencerClient) {
+      return this.submitToSequencer(rescue, this.sequencerClient, await buildBundle(currentBlock + 1, 0), currentBlock + 1);
+    }
+
+    const flashbotsProvider = this.flashbotsProvider;
+    if (!flashbotsProvider) {
+      throw new Error('Flashbots provider not initialized');
+    }
+
+    const targetBlocks = Array.from({ length: targetBlockCount }, (_, i) => currentBlock + i + 1);
+
+    const signedBundles: string[][] = [];
+    for (const [blockIndex, targetBlock] of targetBlocks.entries()) {
+      const bundle = await buildBundle(targetBlock, blockIndex);
+      signedBundles.push(await this.bundleBuilder.signBundle(flashbotsProvider, bundle));
+    }
+
+    // Simulate against every target block before touching the relay's submission endpoint
+    const simulations = this.chain?.supportsSimulation === false || submission.skipSimulation
+      ? []
+      : await Promise.all(
+        targetBlocks.map((targetBlock, i) =>
+          this.bundleBuilder.simulateBundle(flashbotsProvider, signedBundles[i], targetBlock)
+        )
+      );
+
+    const failedSimulation = simulations.find(simulation => !simulation.success);
+    if (failedSimulation) {
+      logger.error(`Bundle simulation failed for block ${failedSimulation.blockNumber}, aborting submission`);
       return {
         success: false,
-        error: 'Bundle not included in target blocks',
+        simulations,
+        error: `Simulation failed: ${failedSimulation.error}`,
       };
+    }
+
+    const [firstSimulation] = simulations;
+    if (firstSimulation) {
+      logger.info(
+        `Bundle simulation passed: gas used ${firstSimulation.gasUsed}, ` +
+        `coinbase diff ${this.formatEther(firstSimulation.coinbaseDiff!)} ETH, ` +
+        `effective gas price ${ethers.formatUnits(firstSimulation.effectiveGasPrice!, 'gwei')} gwei`
+      );
+    } else if (submission.skipSimulation) {
+      logger.info('Pre-armed bundle, submitting without simulation');
+    } else {
+      logger.warn(`Relay for ${this.chain?.displayName} does not support eth_callBundle, submitting without simulation`);
+    }
+
+    // Submit bundle to multiple future blocks with retry, fanning out to every builder
+    logger.info(`Submitting bundle to next ${targetBlockCount} blocks via ${this.builderClients.length + 1} builder(s)...`);
+
+    const bundleIds = targetBlocks.map((targetBlock, i) => this.recordSignedBundle(rescue, signedBundles[i], targetBlock));
+    this.observeSubmissionLatency(rescue);
+
+    const builderSubmissions: BuilderSubmission[] = [];
+    const results = await Promise.allSettled(
+      targetBlocks.map(async (targetBlock, i) => {
+        const [result, submissions] = await Promise.all([
+          this.submitBundleWithRetry(signedBundles[i], targetBlock, builderSubmissions),
+          this.broadcastToBuilders(signedBundles[i], targetBlock),
+        ]);
+        builderSubmissions.push(...submissions);
+
+        // The relay only speaks for itself; a builder that took the bundle may still land it
+        if (!result.success && submissions.some(submission => submission.success)) {
+          return this.checkBundleLanded(signedBundles[i], targetBlock, result);
+        }
+        return result;
+      })
+    );
+
+    this.logBuilderSummary(builderSubmissions);
+
+    for (const submission of builderSubmissions) {
+      metrics.bundlesSubmitted.inc({ builder: submission.builder, result: submission.success ? 'accepted' : 'rejected' });
+      this.journal(rescue, 'builder-submission', { ...submission });
+    }
+
+    targetBlocks.forEach((targetBlock, i) => {
+      const result = results[i];
+      const included = result.status === 'fulfilled' && result.value.success;
+      if (included) {
+        metrics.bundlesIncluded.inc({ route: 'relay' });
+      }
+      const bundleHashes = builderSubmissions
+        .filter(submission => submission.targetBlock === targetBlock && submission.bundleHash)
+        .map(submission => submission.bundleHash!);
+      this.stateStore?.resolveBundle(bundleIds[i], included, included ? targetBlock : undefined, bundleHashes);
+      this.journal(rescue, 'resolution', {
+        targetBlock,
+        included,
+        error: result.status === 'fulfilled' ? result.value.error : String(result.reason),
+      });
+    });
+
+    // Check if any bundle was included
+    for (const result of results) {
+      if (result.status === 'fulfilled' && result.value.success) {
+        return { ...result.value, simulations, builderSubmissions };
+      }
+    }
+
+    logger.warn('Bundle not included in any target block');
+    return {
+      success: false,
+      simulations,
+      builderSubmissions,
+      error: 'Bundle not included in target blocks',
+    };
+  }
+
+  /**
+   * Send the transactions to the rollup sequencer in bundle order and wait for the
+   * last one. Unlike a relay bundle this is not atomic, the sequencer orders by arrival.
+   */
+  private async submitToSequencer(
+    rescue: RescueContext,
+    sequencer: SequencerClient,
+    bundle: BundleEntry[],
+    targetBlock: number
+  ): Promise<RescueResult> {
+    try {
+      const signedTransactions = await this.bundleBuilder.signTransactions(bundle);
+      const bundleId = this.recordSignedBundle(rescue, signedTransactions, targetBlock);
+      this.observeSubmissionLatency(rescue);
+
+      logger.info(`Sending ${signedTransactions.length} transaction(s) to the ${this.chain?.displayName} sequencer...`);
+
+      const txHashes: string[] = [];
+      for (const signedTransaction of signedTransactions) {
+        txHashes.push(await sequencer.sendRawTransaction(signedTransaction));
+      }
+
+      let receipt;
+      try {
+        receipt = await this.provider.waitForTransaction(
+          txHashes[txHashes.length - 1],
+          1,
+          SEQUENCER_CONFIRMATION_TIMEOUT_MS
+        );
       } catch (error) {
-        logger.error('Rescue operation failed', error);
+        if (!isError(error, 'TIMEOUT')) {
+          throw error;
+        }
+
+        // A timeout leaves the bundle in flight; it may still land after a restart
+        this.journal(rescue, 'resolution', { targetBlock, included: false, inFlight: true, sequencer: true });
         return {
           success: false,
-          error: error instanceof Error ? error.message : 'Unknown error',
+          txHash: txHashes[0],
+          error: 'Transaction not confirmed before timeout',
         };
       }
-    });
+
+      this.stateStore?.resolveBundle(bundleId, receipt?.status === 1, receipt?.blockNumber);
+      this.journal(rescue, 'resolution', {
+        targetBlock,
+        included: receipt?.status === 1,
+        blockNumber: receipt?.blockNumber,
+        sequencer: true,
+      });
+
+      if (!receipt || receipt.status !== 1) {
+        return {
+          success: false,
+          txHash: txHashes[0],
+          error: `Transaction ${txHashes[txHashes.length - 1]} reverted`,
+        };
+      }
+
+      logger.info(`✓ Transactions included in block ${receipt.blockNumber}`);
+      metrics.bundlesIncluded.inc({ route: 'sequencer' });
+
+      return {
+        success: true,
+        txHash: txHashes[0],
+        blockNumber: receipt.blockNumber,
+      };
+    } catch (error) {
+      logger.error('Sequencer submission failed', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Wait out the target block and look for our transaction on-chain, for bundles whose
+   * fate the relay cannot tell; falls back to the relay's result when it did not land
+   */
+  private async checkBundleLanded(
+    signedBundle: string[],
+    targetBlock: number,
+    relayResult: RescueResult
+  ): Promise<RescueResult> {
+    await this.waitForBlock(targetBlock);
+
+    const txHash = keccak256(signedBundle[signedBundle.length - 1]);
+    const receipt = await withRetry(
+      () => this.provider.getTransactionReceipt(txHash),
+      `get receipt for ${txHash}`,
+      { maxAttempts: 3, baseDelayMs: 1000 }
+    );
+
+    if (receipt?.status !== 1) {
+      return relayResult;
+    }
+
+    logger.info(`✓ Bundle landed in block ${receipt.blockNumber} through another builder`);
+    return { success: true, txHash, blockNumber: receipt.blockNumber };
+  }
+
+  /**
+   * Send the signed bundle to every additional builder in parallel
+   */
+  private async broadcastToBuilders(signedBundle: string[], targetBlock: number): Promise<BuilderSubmission[]> {
+    return Promise.all(
+      this.builderClients.map(client => client.sendBundle(signedBundle, targetBlock))
+    );
+  }
+
+  /**
+   * Log accepted/failed submission counts per builder
+   */
+  private logBuilderSummary(submissions: BuilderSubmission[]): void {
+    const byBuilder = new Map<string, BuilderSubmission[]>();
+    for (const submission of submissions) {
+      byBuilder.set(submission.builder, [...(byBuilder.get(submission.builder) ?? []), submission]);
+    }
+
+    for (const [builder, entries] of byBuilder) {
+      const accepted = entries.filter(entry => entry.success).length;
+      const lastError = entries.filter(entry => !entry.success).pop()?.error;
+      logger.info(
+        `  ${builder}: ${accepted}/${entries.length} submissions accepted` +
+        (lastError ? ` (last error: ${lastError})` : '')
+      );
+    }
   }
 
   /**
    * Submit bundle to specific block
    */
-  private async submitBundle(bundle: FlashbotsBundleTransaction[], targetBlock: number): Promise<RescueResult> {
+  private async submitBundle(
+    signedBundle: string[],
+    targetBlock: number,
+    submissions: BuilderSubmission[]
+  ): Promise<RescueResult> {
+    let accepted = false;
+
     try {
       if (!this.flashbotsProvider) {
         throw new Error('Flashbots provider not initialized');
@@ -174,29 +1380,47 @@ export class FlashbotsRescue {
 
       logger.info(`Submitting bundle for block ${targetBlock}...`);
 
-      const bundleResponse = await this.flashbotsProvider.sendBundle(
-        bundle,
+      const bundleResponse = await this.flashbotsProvider.sendRawBundle(
+        signedBundle,
         targetBlock
       );
 
       // Check if sendBundle returned an error
       if ('error' in bundleResponse) {
         logger.error(`✗ Bundle submission error for block ${targetBlock}: ${bundleResponse.error.message}`);
+        submissions.push({
+          builder: 'flashbots',
+          targetBlock,
+          success: false,
+          error: bundleResponse.error.message,
+        });
         return {
           success: false,
           error: bundleResponse.error.message,
         };
       }
 
+      submissions.push({
+        builder: 'flashbots',
+        targetBlock,
+        success: true,
+        bundleHash: bundleResponse.bundleHash,
+      });
+      accepted = true;
+
       // Wait for bundle inclusion
       const resolution = await bundleResponse.wait();
 
       if (resolution === FlashbotsBundleResolution.BundleIncluded) {
         logger.info(`✓ Bundle included in block ${targetBlock}`);
 
-        // Get transaction receipts
+        // Get transaction receipts, skipping third-party transactions we bundled behind
         const receipts = await bundleResponse.receipts();
-        const txHash = receipts[0]?.hash || 'unknown';
+        const ownAddresses = [this.wallet.address, this.sponsorWallet?.address]
+          .filter((address): address is string => !!address)
+          .map(address => address.toLowerCase());
+        const ownReceipt = receipts.find(receipt => ownAddresses.includes(receipt.from.toLowerCase()));
+        const txHash = ownReceipt?.hash || receipts[0]?.hash || 'unknown';
 
         return {
           success: true,
@@ -206,7 +1430,11 @@ export class FlashbotsRescue {
       } else if (resolution === FlashbotsBundleResolution.BlockPassedWithoutInclusion) {
         logger.debug(`✗ Block ${targetBlock} passed without inclusion`);
       } else if (resolution === FlashbotsBundleResolution.AccountNonceTooHigh) {
-        logger.error(`✗ Account nonce too high for block ${targetBlock}`);
+        logger.error(`✗ Account nonce too high for block ${targetBlock}, another transaction used it first`);
+        return {
+          success: false,
+          error: 'Account nonce too high',
+        };
       }
 
       return {
@@ -215,6 +1443,14 @@ export class FlashbotsRescue {
       };
     } catch (error) {
       logger.error(`Failed to submit bundle for block ${targetBlock}`, error);
+      if (!accepted) {
+        submissions.push({
+          builder: 'flashbots',
+          targetBlock,
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -225,9 +1461,13 @@ export class FlashbotsRescue {
   /**
    * Submit bundle with retry logic
    */
-  private async submitBundleWithRetry(bundle: FlashbotsBundleTransaction[], targetBlock: number): Promise<RescueResult> {
+  private async submitBundleWithRetry(
+    signedBundle: string[],
+    targetBlock: number,
+    submissions: BuilderSubmission[]
+  ): Promise<RescueResult> {
     return withRetry(
-      () => this.submitBundle(bundle, targetBlock),
+      () => this.submitBundle(signedBundle, targetBlock, submissions),
       `submit bundle for block ${targetBlock}`,
       {
         maxAttempts: 2, // Only retry once for bundles
@@ -237,6 +1477,141 @@ export class FlashbotsRescue {
     );
   }
 
+  /**
+   * Run a rescue behind the circuit breaker, persisting its outcome and the breaker state
+   */
+  private async runGuarded(
+    kind: string,
+    operation: (rescue: RescueContext) => Promise<RescueResult>
+  ): Promise<RescueResult> {
+    const rescue = this.beginRescue(kind);
+
+    try {
+      const result = await this.circuitBreaker.execute(() => operation(rescue));
+      return this.finishRescue(rescue, result);
+    } catch (error) {
+      metrics.rescues.inc({ kind, result: 'failure' });
+      this.journal(rescue, 'rescue-finished', { success: false, error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    } finally {
+      this.stateStore?.saveCircuitBreaker(this.circuitBreakerKey(), this.circuitBreaker.getSnapshot());
+    }
+  }
+
+  /**
+   * Start a rescue; every audit journal event journaled with it is grouped under its ID
+   */
+  private beginRescue(kind: string, data: Record<string, unknown> = {}): RescueContext {
+    const rescue: RescueContext = { kind, startedAt: Date.now(), submitted: false };
+
+    if (!this.auditJournal) {
+      return rescue;
+    }
+
+    rescue.id = `${kind}-${randomBytes(4).toString('hex')}`;
+    logger.info(`Audit journal rescue ID: ${rescue.id}`);
+    this.journal(rescue, 'rescue-started', { kind, ...data });
+    return rescue;
+  }
+
+  /**
+   * Persist and journal a rescue's outcome, tagging the result with its rescue ID
+   */
+  private finishRescue(rescue: RescueContext, result: RescueResult): RescueResult {
+    this.recordRescue(rescue.kind, result);
+    metrics.rescues.inc({ kind: rescue.kind, result: result.success ? 'success' : 'failure' });
+    if (result.success && !result.tokenAddress && result.amountRescued) {
+      metrics.ethRescued.inc({}, Number(ethers.formatEther(result.amountRescued)));
+    }
+
+    this.journal(rescue, 'rescue-finished', {
+      success: result.success,
+      txHash: result.txHash,
+      blockNumber: result.blockNumber,
+      amountRescued: result.amountRescued,
+      verified: result.verified,
+      error: result.error,
+    });
+
+    return { ...result, rescueId: rescue.id };
+  }
+
+  /**
+   * Time from the rescue being triggered to its first bundle leaving, once per rescue
+   */
+  private observeSubmissionLatency(rescue: RescueContext): void {
+    if (rescue.submitted) {
+      return;
+    }
+
+    rescue.submitted = true;
+    metrics.detectionToSubmission.observe({ kind: rescue.kind }, (Date.now() - rescue.startedAt) / 1000);
+  }
+
+  private journal(rescue: RescueContext, type: AuditEventType, data: Record<string, unknown>): void {
+    this.auditJournal?.record({ type, wallet: this.wallet.address, rescueId: rescue.id, data });
+  }
+
+  private recordRescue(kind: string, result: RescueResult): void {
+    const record: RescueRecord = {
+      wallet: this.wallet.address,
+      kind,
+      success: result.success,
+      txHash: result.txHash,
+      blockNumber: result.blockNumber,
+      amountRescued: result.amountRescued,
+      tokenAddress: result.tokenAddress,
+      error: result.error,
+      at: Date.now(),
+    };
+
+    this.recentAttempts = [...this.recentAttempts, record].slice(-MAX_RECENT_ATTEMPTS);
+    this.stateStore?.recordRescue(record);
+  }
+
+  /**
+   * Persist and journal a signed bundle before it is sent; returns its id. The last
+   * transaction is always ours, so its receipt tells whether the bundle landed.
+   */
+  private recordSignedBundle(rescue: RescueContext, signedTransactions: string[], targetBlock: number): string {
+    const txHashes = signedTransactions.map(signedTransaction => keccak256(signedTransaction));
+    const id = `${targetBlock}:${txHashes[txHashes.length - 1]}`;
+
+    this.stateStore?.recordBundle({
+      id,
+      wallet: this.wallet.address,
+      targetBlock,
+      txHashes,
+      submittedAt: Date.now(),
+    });
+
+    if (this.auditJournal) {
+      for (const signedTransaction of signedTransactions) {
+        const tx = Transaction.from(signedTransaction);
+        this.journal(rescue, 'bundle-signed', {
+          targetBlock,
+          txHash: tx.hash,
+          from: tx.from,
+          to: tx.to,
+          nonce: tx.nonce,
+          value: tx.value,
+        });
+      }
+    }
+
+    return id;
+  }
+
+  private circuitBreakerKey(): string {
+    return `flashbots-rescue:${this.wallet.address.toLowerCase()}`;
+  }
+
+  private async waitForBlock(blockNumber: number): Promise<void> {
+    while (await this.provider.getBlockNumber() < blockNumber) {
+      await sleep(1000);
+    }
+  }
+
   private formatEther(wei: bigint): string {
     return ethers.formatEther(wei);
   }
@@ -1,65 +1,222 @@
 import { ethers, JsonRpcProvider } from 'ethers';
 import { logger } from '../utils/logger';
-import { withRetry, withTimeout, CircuitBreaker } from '../utils/retry';
+import { withRetry, withTimeout, CircuitBreaker, CircuitStateListener } from '../utils/retry';
+import { BidStrategy } from '../config/config';
+import { FeeModel, L1FeeModel } from '../config/chains';
+import { createL1FeeEstimator, L1FeeEstimator, L1FeeTransaction } from './l1-fee-estimator';
 
 export interface GasEstimate {
   gasLimit: bigint;
   maxFeePerGas: bigint;
   maxPriorityFeePerGas: bigint;
   totalGasCost: bigint;
+  l1Fee?: bigint; // Rollup L1 data fee, included in totalGasCost
+}
+
+/**
+ * Gas for a sweep split across several recipients, one transfer each
+ */
+export interface SplitGasEstimate extends GasEstimate {
+  transferGasLimits: bigint[]; // In recipient order; gasLimit is their sum
+}
+
+/**
+ * Gas for a sweep that pays the builder through a coinbase transfer instead of a tip
+ */
+export interface CoinbaseBribeEstimate extends GasEstimate {
+  bribeGasLimit: bigint;
+  bribeAmount: bigint;
+}
+
+/**
+ * Contract call executed by the compromised wallet with gas paid by a sponsor
+ */
+export interface SponsoredCall {
+  to: string;
+  data: string;
+  gasLimit?: bigint; // Skips estimateGas when set
+}
+
+export interface SponsoredGasEstimate {
+  callGasLimits: bigint[];
+  sweepGasLimit: bigint;
+  fundingGasLimit: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  fundingAmount: bigint; // ETH the sponsor sends to cover the compromised wallet's gas
+  totalGasCost: bigint; // Funding plus the sponsor's own transaction
+}
+
+/**
+ * How the priority fee escalates across target blocks:
+ * - linear: add `escalation` gwei per block
+ * - exponential: multiply by `escalation` per block
+ * - percent: bid `escalation`% of the balance per block, cumulatively
+ */
+export interface BidStrategyOptions {
+  strategy: BidStrategy;
+  escalation: number;
+  maxBidSharePercent: number; // Total tip never exceeds this share of the balance
+}
+
+export const DEFAULT_BID_OPTIONS: BidStrategyOptions = {
+  strategy: 'static',
+  escalation: 0,
+  maxBidSharePercent: 50,
+};
+
+/**
+ * Native-token transfer whose gas limit depends on the recipient: 21000 for an
+ * EOA, an estimate plus margin for a contract such as a Gnosis Safe
+ */
+export interface TransferTarget {
+  from: string;
+  to: string;
+  value?: bigint; // Sizes the transaction for rollup L1 data fees
+}
+
+/**
+ * Base fees for the blocks following `parentBlock`, nearest first
+ */
+export interface BaseFeeProjection {
+  parentBlock: number;
+  baseFees: bigint[];
+}
+
+export interface GasCalculatorOptions {
+  bidOptions?: BidStrategyOptions;
+  feeModel?: FeeModel;
+  l1FeeModel?: L1FeeModel; // Include the rollup L1 data component in gas costs
+  gasLimitMarginPercent?: number;
+}
+
+const ETH_TRANSFER_GAS_LIMIT = BigInt(21000);
+export const DEFAULT_GAS_LIMIT_MARGIN_PERCENT = 20;
+
+// EIP-1559: base fee moves at most 1/8 per block, toward a target of half the gas limit
+const BASE_FEE_MAX_CHANGE_DENOMINATOR = 8n;
+const ELASTICITY_MULTIPLIER = 2n;
+
+/**
+ * Base fee of the block after a parent with the given base fee and gas usage
+ */
+export function calculateNextBaseFee(baseFee: bigint, gasUsed: bigint, gasLimit: bigint): bigint {
+  const gasTarget = gasLimit / ELASTICITY_MULTIPLIER;
+
+  if (gasTarget === 0n || gasUsed === gasTarget) {
+    return baseFee;
+  }
+
+  if (gasUsed > gasTarget) {
+    const delta = (baseFee * (gasUsed - gasTarget)) / gasTarget / BASE_FEE_MAX_CHANGE_DENOMINATOR;
+    return baseFee + (delta > 1n ? delta : 1n);
+  }
+
+  const delta = (baseFee * (gasTarget - gasUsed)) / gasTarget / BASE_FEE_MAX_CHANGE_DENOMINATOR;
+  return baseFee - delta;
 }
 
 export class GasCalculator {
   private provider: JsonRpcProvider;
   private maxPriorityFeeGwei: number;
   private circuitBreaker: CircuitBreaker;
+  private bidOptions: BidStrategyOptions;
+  private feeModel: FeeModel;
+  private gasLimitMarginPercent: bigint;
+  private l1FeeEstimator?: L1FeeEstimator;
+  private contractRecipients = new Map<string, boolean>();
 
-  constructor(provider: JsonRpcProvider, maxPriorityFeeGwei: number) {
+  constructor(
+    provider: JsonRpcProvider,
+    maxPriorityFeeGwei: number,
+    options: GasCalculatorOptions = {}
+  ) {
     this.provider = provider;
     this.maxPriorityFeeGwei = maxPriorityFeeGwei;
+    this.bidOptions = options.bidOptions ?? DEFAULT_BID_OPTIONS;
+    this.feeModel = options.feeModel ?? 'eip1559';
+    this.gasLimitMarginPercent = BigInt(Math.round(options.gasLimitMarginPercent ?? DEFAULT_GAS_LIMIT_MARGIN_PERCENT));
+    this.l1FeeEstimator = options.l1FeeModel ? createL1FeeEstimator(options.l1FeeModel, provider) : undefined;
     this.circuitBreaker = new CircuitBreaker(5, 60000, 'GasCalculator');
   }
 
+  onCircuitStateChange(listener: CircuitStateListener): void {
+    this.circuitBreaker.onStateChange(listener);
+  }
+
   /**
-   * Calculate optimal gas parameters for rescue transaction
+   * Calculate optimal gas parameters for rescue transaction; without a transfer
+   * target the standard 21000 ETH transfer gas limit is used
    */
-  async calculateGasParams(): Promise<GasEstimate> {
+  async calculateGasParams(transfer?: TransferTarget): Promise<GasEstimate> {
     return this.circuitBreaker.execute(async () => {
-      const feeData = await withTimeout(
-        () => withRetry(
-          () => this.provider.getFeeData(),
-          'getFeeData',
-          { maxAttempts: 3, baseDelayMs: 1000 }
-        ),
-        10000,
-        'getFeeData timeout'
-      );
+      const { maxFeePerGas, maxPriorityFeePerGas } = await this.fetchFeeParams();
 
-      if (!feeData.maxFeePerGas || !feeData.maxPriorityFeePerGas) {
-        throw new Error('Failed to fetch fee data from provider');
-      }
+      const gasLimit = transfer
+        ? await this.estimateTransferGas(transfer)
+        : ETH_TRANSFER_GAS_LIMIT;
+      const l1Fee = transfer
+        ? await this.estimateL1Fee({
+          to: transfer.to,
+          data: '0x',
+          value: transfer.value ?? 0n,
+          gasLimit,
+          maxFeePerGas,
+          maxPriorityFeePerGas,
+        })
+        : 0n;
+      const totalGasCost = gasLimit * maxFeePerGas + l1Fee;
 
-      // Use standard ETH transfer gas limit
-      const gasLimit = BigInt(21000);
+      logger.debug('Gas calculation:', {
+        gasLimit: gasLimit.toString(),
+        maxFeePerGas: this.formatGwei(maxFeePerGas) + ' gwei',
+        maxPriorityFeePerGas: this.formatGwei(maxPriorityFeePerGas) + ' gwei',
+        l1Fee: ethers.formatEther(l1Fee) + ' ETH',
+        totalGasCost: ethers.formatEther(totalGasCost) + ' ETH',
+      });
 
-      // Use network fee or our max priority fee, whichever is lower
-      const ourPriorityFee = ethers.parseUnits(
-        this.maxPriorityFeeGwei.toString(),
-        'gwei'
-      );
+      return {
+        gasLimit,
+        maxFeePerGas,
+        maxPriorityFeePerGas,
+        totalGasCost,
+        ...(this.l1FeeEstimator ? { l1Fee } : {}),
+      };
+    });
+  }
 
-      // Calculate maxFeePerGas = baseFee + maxPriorityFee
-      // Use 2x baseFee for safety to handle next block increase
-      const baseFee = feeData.maxFeePerGas! - feeData.maxPriorityFeePerGas!;
-      const maxFeePerGas = (baseFee * 2n) + ourPriorityFee;
-      const maxPriorityFeePerGas = ourPriorityFee;
+  /**
+   * Calculate gas for a sweep split into one transfer per recipient; the fee caps apply
+   * to every transfer, so totalGasCost covers the whole split
+   */
+  async calculateSplitGasParams(from: string, recipients: string[], value = 0n): Promise<SplitGasEstimate> {
+    return this.circuitBreaker.execute(async () => {
+      const { maxFeePerGas, maxPriorityFeePerGas } = await this.fetchFeeParams();
 
-      const totalGasCost = gasLimit * maxFeePerGas;
+      // Each transfer carries roughly an even share; only rollup L1 data sizing depends on it
+      const shareValue = recipients.length > 0 ? value / BigInt(recipients.length) : 0n;
 
-      logger.debug('Gas calculation:', {
-        gasLimit: gasLimit.toString(),
+      const transferGasLimits: bigint[] = [];
+      let l1Fee = 0n;
+      for (const to of recipients) {
+        const gasLimit = await this.estimateTransferGas({ from, to, value: shareValue });
+        transferGasLimits.push(gasLimit);
+        l1Fee += await this.estimateL1Fee({
+          to,
+          data: '0x',
+          value: shareValue,
+          gasLimit,
+          maxFeePerGas,
+          maxPriorityFeePerGas,
+        });
+      }
+
+      const gasLimit = transferGasLimits.reduce((sum, limit) => sum + limit, 0n);
+      const totalGasCost = gasLimit * maxFeePerGas + l1Fee;
+
+      logger.debug('Split gas calculation:', {
+        transferGasLimits: transferGasLimits.map(limit => limit.toString()),
         maxFeePerGas: this.formatGwei(maxFeePerGas) + ' gwei',
-        maxPriorityFeePerGas: this.formatGwei(maxPriorityFeePerGas) + ' gwei',
         totalGasCost: ethers.formatEther(totalGasCost) + ' ETH',
       });
 
@@ -68,16 +225,217 @@ export class GasCalculator {
         maxFeePerGas,
         maxPriorityFeePerGas,
         totalGasCost,
+        ...(this.l1FeeEstimator ? { l1Fee } : {}),
+        transferGasLimits,
       };
     });
   }
 
   /**
-   * Calculate amount to sweep, leaving enough for gas
+   * Calculate gas for a sponsored bundle: sponsor funds gas, compromised wallet
+   * executes the calls, then optionally sweeps its leftover ETH to dustSweepTo
+   */
+  async calculateSponsoredGasParams(
+    from: string,
+    calls: SponsoredCall[],
+    dustSweepTo?: string
+  ): Promise<SponsoredGasEstimate> {
+    return this.circuitBreaker.execute(async () => {
+      const { maxFeePerGas, maxPriorityFeePerGas } = await this.fetchFeeParams();
+
+      const callGasLimits: bigint[] = [];
+      for (const call of calls) {
+        callGasLimits.push(call.gasLimit ?? await this.estimateCallGas(from, call));
+      }
+
+      const sweepGasLimit = dustSweepTo ? await this.estimateTransferGas({ from, to: dustSweepTo }) : 0n;
+      const fundingGasLimit = await this.estimateTransferGas({ from, to: from, value: 1n });
+
+      // Rollup L1 data fees: the compromised wallet's are funded, the sponsor pays its own
+      const fees = { maxFeePerGas, maxPriorityFeePerGas };
+      let compromisedL1Fee = 0n;
+      for (const [i, call] of calls.entries()) {
+        compromisedL1Fee += await this.estimateL1Fee({ ...call, ...fees, value: 0n, gasLimit: callGasLimits[i] });
+      }
+      if (dustSweepTo) {
+        compromisedL1Fee += await this.estimateL1Fee({ to: dustSweepTo, data: '0x', value: 1n, gasLimit: sweepGasLimit, ...fees });
+      }
+      const fundingL1Fee = await this.estimateL1Fee({ to: from, data: '0x', value: 1n, gasLimit: fundingGasLimit, ...fees });
+
+      const compromisedGasLimit = callGasLimits.reduce((sum, limit) => sum + limit, 0n) + sweepGasLimit;
+      const fundingAmount = compromisedGasLimit * maxFeePerGas + compromisedL1Fee;
+      const totalGasCost = fundingAmount + (fundingGasLimit * maxFeePerGas) + fundingL1Fee;
+
+      logger.debug('Sponsored gas calculation:', {
+        callGasLimits: callGasLimits.map(limit => limit.toString()),
+        sweepGasLimit: sweepGasLimit.toString(),
+        maxFeePerGas: this.formatGwei(maxFeePerGas) + ' gwei',
+        fundingAmount: ethers.formatEther(fundingAmount) + ' ETH',
+        totalGasCost: ethers.formatEther(totalGasCost) + ' ETH',
+      });
+
+      return {
+        callGasLimits,
+        sweepGasLimit,
+        fundingGasLimit,
+        maxFeePerGas,
+        maxPriorityFeePerGas,
+        fundingAmount,
+        totalGasCost,
+      };
+    });
+  }
+
+  /**
+   * Escalate the priority fee for the N-th target block (0 = next block),
+   * raised to at least minPriorityFeePerGas and capped at the configured share of the balance
+   */
+  calculateBidForBlock(
+    baseEstimate: GasEstimate,
+    blockIndex: number,
+    balance: bigint,
+    minPriorityFeePerGas = 0n
+  ): GasEstimate {
+    const { strategy, escalation, maxBidSharePercent } = this.bidOptions;
+    const baseTip = baseEstimate.maxPriorityFeePerGas;
+    const gasLimit = baseEstimate.gasLimit;
+
+    let tip: bigint;
+    switch (strategy) {
+      case 'linear':
+        tip = baseTip + ethers.parseUnits(escalation.toString(), 'gwei') * BigInt(blockIndex);
+        break;
+      case 'exponential': {
+        // Fixed-point multiplier to keep bigint math exact enough
+        const scaledMultiplier = BigInt(Math.round(escalation * 1000));
+        tip = baseTip;
+        for (let i = 0; i < blockIndex; i++) {
+          tip = (tip * scaledMultiplier) / 1000n;
+        }
+        break;
+      }
+      case 'percent': {
+        const scaledPercent = BigInt(Math.round(escalation * 100 * (blockIndex + 1)));
+        const percentTip = (balance * scaledPercent) / 10000n / gasLimit;
+        tip = percentTip > baseTip ? percentTip : baseTip;
+        break;
+      }
+      default:
+        tip = baseTip;
+    }
+
+    if (tip < minPriorityFeePerGas) {
+      logger.debug(`Bid for block +${blockIndex + 1} raised to ${this.formatGwei(minPriorityFeePerGas)} gwei floor`);
+      tip = minPriorityFeePerGas;
+    }
+
+    const maxTotalTip = (balance * BigInt(Math.round(maxBidSharePercent * 100))) / 10000n;
+    const tipCap = maxTotalTip / gasLimit;
+    if (tip > tipCap) {
+      logger.debug(`Bid for block +${blockIndex + 1} capped at ${maxBidSharePercent}% of balance`);
+      tip = tipCap;
+    }
+
+    const baseFeeComponent = baseEstimate.maxFeePerGas - baseEstimate.maxPriorityFeePerGas;
+    const maxFeePerGas = baseFeeComponent + tip;
+
+    logger.debug(`Bid for block +${blockIndex + 1} (${strategy}): ${this.formatGwei(tip)} gwei priority fee`);
+
+    const l1Fee = baseEstimate.l1Fee ?? 0n;
+
+    return {
+      gasLimit,
+      maxFeePerGas,
+      maxPriorityFeePerGas: tip,
+      totalGasCost: gasLimit * maxFeePerGas + l1Fee,
+      ...(baseEstimate.l1Fee !== undefined ? { l1Fee } : {}),
+    };
+  }
+
+  /**
+   * Base fees for the next `count` blocks. The next block's is exact (it follows from
+   * the latest block's gas usage); later blocks assume full blocks, the largest rise
+   * EIP-1559 allows, so their transactions stay valid. Undefined where the chain's fees
+   * cannot be projected (legacy pricing, rollup L1 fees, or no base fee).
+   */
+  async projectBaseFees(count: number): Promise<BaseFeeProjection | undefined> {
+    if (this.feeModel !== 'eip1559' || this.l1FeeEstimator) {
+      return undefined;
+    }
+
+    const block = await withRetry(
+      () => this.provider.getBlock('latest'),
+      'get latest block',
+      { maxAttempts: 3, baseDelayMs: 500 }
+    );
+
+    if (!block || block.baseFeePerGas === null || block.baseFeePerGas === undefined) {
+      return undefined;
+    }
+
+    const baseFees = [calculateNextBaseFee(block.baseFeePerGas, block.gasUsed, block.gasLimit)];
+    while (baseFees.length < count) {
+      const previous = baseFees[baseFees.length - 1];
+      baseFees.push(calculateNextBaseFee(previous, block.gasLimit, block.gasLimit));
+    }
+
+    logger.debug(
+      `Projected base fees after block ${block.number}: ${baseFees.map(fee => this.formatGwei(fee)).join(', ')} gwei`
+    );
+
+    return { parentBlock: block.number, baseFees };
+  }
+
+  /**
+   * Price a bid for a block whose base fee is known: the fee cap is exactly base fee
+   * plus tip, so nothing beyond the tip is left unspent
+   */
+  applyProjectedBaseFee(bid: GasEstimate, baseFee: bigint): GasEstimate {
+    const maxFeePerGas = baseFee + bid.maxPriorityFeePerGas;
+
+    return {
+      ...bid,
+      maxFeePerGas,
+      totalGasCost: bid.gasLimit * maxFeePerGas + (bid.l1Fee ?? 0n),
+    };
+  }
+
+  /**
+   * Convert a bid into a coinbase payment: the tip value moves into the bribe
+   * transaction and both transactions pay only the base fee
+   */
+  applyCoinbaseBribe(bid: GasEstimate, bribeGasLimit: bigint): CoinbaseBribeEstimate {
+    const bribeAmount = bid.maxPriorityFeePerGas * bid.gasLimit;
+    const maxFeePerGas = bid.maxFeePerGas - bid.maxPriorityFeePerGas;
+    const totalGasCost = (bid.gasLimit + bribeGasLimit) * maxFeePerGas + (bid.l1Fee ?? 0n);
+
+    logger.debug(`Coinbase bribe: ${ethers.formatEther(bribeAmount)} ETH`);
+
+    return {
+      gasLimit: bid.gasLimit,
+      maxFeePerGas,
+      maxPriorityFeePerGas: 0n,
+      totalGasCost,
+      ...(bid.l1Fee !== undefined ? { l1Fee: bid.l1Fee } : {}),
+      bribeGasLimit,
+      bribeAmount,
+    };
+  }
+
+  /**
+   * Estimate gas for a call to the coinbase payer helper contract
+   */
+  async estimateCoinbasePaymentGas(from: string, payerAddress: string, data: string): Promise<bigint> {
+    // Non-zero value so the estimate includes the value-transfer cost of the inner CALL
+    return this.estimateCallGas(from, { to: payerAddress, data }, 1n);
+  }
+
+  /**
+   * Calculate amount to sweep, leaving enough for gas and any coinbase bribe
    */
-  calculateSweepAmount(balance: bigint, totalGasCost: bigint): bigint {
+  calculateSweepAmount(balance: bigint, totalGasCost: bigint, bribeAmount = 0n): bigint {
     const safetyBuffer = totalGasCost / 10n; // 10% safety margin
-    const amountToSweep = balance - totalGasCost - safetyBuffer;
+    const amountToSweep = balance - totalGasCost - safetyBuffer - bribeAmount;
 
     if (amountToSweep <= 0n) {
       throw new Error('Insufficient balance to cover gas costs');
@@ -86,17 +444,47 @@ export class GasCalculator {
     logger.info(`Balance: ${ethers.formatEther(balance)} ETH`);
     logger.info(`Gas cost: ${ethers.formatEther(totalGasCost)} ETH`);
     logger.info(`Safety buffer: ${ethers.formatEther(safetyBuffer)} ETH`);
+    if (bribeAmount > 0n) {
+      logger.info(`Coinbase bribe: ${ethers.formatEther(bribeAmount)} ETH`);
+    }
     logger.info(`Amount to sweep: ${ethers.formatEther(amountToSweep)} ETH`);
 
     return amountToSweep;
   }
 
   /**
-   * Check if rescue is economically viable
+   * Sweep everything except the exact gas cost and bribe, for bids priced against a
+   * projected base fee; any unspent fee cap comes back as near-zero dust
    */
-  isRescueViable(balance: bigint, minRescueAmount: bigint, totalGasCost: bigint): boolean {
+  calculateExactSweepAmount(balance: bigint, totalGasCost: bigint, bribeAmount = 0n): bigint {
+    const amountToSweep = balance - totalGasCost - bribeAmount;
+
+    if (amountToSweep <= 0n) {
+      throw new Error('Insufficient balance to cover gas costs');
+    }
+
+    logger.debug(`Exact sweep: ${ethers.formatEther(amountToSweep)} ETH (gas ${ethers.formatEther(totalGasCost)} ETH)`);
+
+    return amountToSweep;
+  }
+
+  /**
+   * Amount a sweep sends: exact when its gas is priced against projected base fees,
+   * with the safety buffer otherwise
+   */
+  calculateSweepAmountFor(exact: boolean, balance: bigint, totalGasCost: bigint, bribeAmount = 0n): bigint {
+    return exact
+      ? this.calculateExactSweepAmount(balance, totalGasCost, bribeAmount)
+      : this.calculateSweepAmount(balance, totalGasCost, bribeAmount);
+  }
+
+  /**
+   * Check if rescue is economically viable, against the same sweep formula (exact or
+   * buffered) the submission signs with
+   */
+  isRescueViable(balance: bigint, minRescueAmount: bigint, totalGasCost: bigint, exact = false): boolean {
     try {
-      const sweepAmount = this.calculateSweepAmount(balance, totalGasCost);
+      const sweepAmount = this.calculateSweepAmountFor(exact, balance, totalGasCost);
       const isViable = sweepAmount >= minRescueAmount;
 
       if (!isViable) {
@@ -113,6 +501,125 @@ export class GasCalculator {
     }
   }
 
+  /**
+   * Fetch current fee data and derive our EIP-1559 fee caps
+   */
+  private async fetchFeeParams(): Promise<{ maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }> {
+    const feeData = await withTimeout(
+      () => withRetry(
+        () => this.provider.getFeeData(),
+        'getFeeData',
+        { maxAttempts: 3, baseDelayMs: 1000 }
+      ),
+      10000,
+      'getFeeData timeout'
+    );
+
+    // Use network fee or our max priority fee, whichever is lower
+    const ourPriorityFee = ethers.parseUnits(
+      this.maxPriorityFeeGwei.toString(),
+      'gwei'
+    );
+
+    // Legacy chains: the network gas price plays the base fee's role and our tip goes on top
+    if (this.feeModel === 'legacy') {
+      if (!feeData.gasPrice) {
+        throw new Error('Failed to fetch gas price from provider');
+      }
+
+      return { maxFeePerGas: feeData.gasPrice + ourPriorityFee, maxPriorityFeePerGas: ourPriorityFee };
+    }
+
+    if (!feeData.maxFeePerGas || !feeData.maxPriorityFeePerGas) {
+      throw new Error('Failed to fetch fee data from provider');
+    }
+
+    // Calculate maxFeePerGas = baseFee + maxPriorityFee
+    // Use 2x baseFee for safety to handle next block increase
+    const baseFee = feeData.maxFeePerGas - feeData.maxPriorityFeePerGas;
+    const maxFeePerGas = (baseFee * 2n) + ourPriorityFee;
+
+    return { maxFeePerGas, maxPriorityFeePerGas: ourPriorityFee };
+  }
+
+  /**
+   * Gas limit for a plain value transfer: 21000 for an EOA, otherwise estimated
+   * so receive hooks (e.g. a Gnosis Safe) have enough gas
+   */
+  private async estimateTransferGas(transfer: TransferTarget): Promise<bigint> {
+    const recipient = transfer.to.toLowerCase();
+    let isContract = this.contractRecipients.get(recipient);
+
+    if (isContract === undefined) {
+      const code = await withRetry(
+        () => this.provider.getCode(transfer.to),
+        `getCode for ${transfer.to}`,
+        { maxAttempts: 3, baseDelayMs: 500 }
+      );
+      isContract = code !== '0x';
+      this.contractRecipients.set(recipient, isContract);
+
+      if (isContract) {
+        logger.info(`Recipient ${transfer.to} is a contract, estimating transfer gas`);
+      }
+    }
+
+    if (!isContract) {
+      // Arbitrum charges L1 data as extra gas; estimateGas already covers it for contracts
+      const l1Gas = await this.estimateL1Gas(transfer);
+      return ETH_TRANSFER_GAS_LIMIT + l1Gas + (l1Gas * this.gasLimitMarginPercent) / 100n;
+    }
+
+    // Non-zero value so the estimate takes the recipient's receive path
+    const gasLimit = await this.estimateCallGas(transfer.from, { to: transfer.to, data: '0x' }, 1n);
+    logger.debug(`Contract transfer gas limit: ${gasLimit.toString()}`);
+
+    return gasLimit;
+  }
+
+  /**
+   * Extra L2 gas for a fixed-limit transfer's L1 data (Arbitrum); 0 elsewhere
+   */
+  private async estimateL1Gas(transfer: TransferTarget): Promise<bigint> {
+    if (!this.l1FeeEstimator) {
+      return 0n;
+    }
+
+    return this.l1FeeEstimator.estimateL1Gas({
+      to: transfer.to,
+      data: '0x',
+      value: transfer.value ?? 0n,
+      gasLimit: ETH_TRANSFER_GAS_LIMIT,
+      maxFeePerGas: 0n,
+      maxPriorityFeePerGas: 0n,
+    });
+  }
+
+  /**
+   * L1 data fee charged on top of execution gas (OP Stack), doubled like the
+   * base fee to absorb L1 price movement before inclusion; 0 elsewhere
+   */
+  private async estimateL1Fee(tx: L1FeeTransaction): Promise<bigint> {
+    if (!this.l1FeeEstimator) {
+      return 0n;
+    }
+
+    return (await this.l1FeeEstimator.estimateL1Fee(tx)) * 2n;
+  }
+
+  /**
+   * Estimate gas for a call and add a safety margin
+   */
+  private async estimateCallGas(from: string, call: SponsoredCall, value = 0n): Promise<bigint> {
+    const estimate = await withRetry(
+      () => this.provider.estimateGas({ from, to: call.to, data: call.data, value }),
+      `estimateGas for call to ${call.to}`,
+      { maxAttempts: 2, baseDelayMs: 500 }
+    );
+
+    return estimate + (estimate * this.gasLimitMarginPercent) / 100n;
+  }
+
   private formatGwei(wei: bigint): string {
     // Use ethers formatter to avoid precision loss
     return ethers.formatUnits(wei, 'gwei');
@@ -0,0 +1,87 @@
+import { Contract, JsonRpcProvider, Transaction } from 'ethers';
+import { L1FeeModel } from '../config/chains';
+import { GAS_PRICE_ORACLE_ABI, NODE_INTERFACE_ABI } from './abis';
+import { withRetry } from '../utils/retry';
+
+const GAS_PRICE_ORACLE_ADDRESS = '0x420000000000000000000000000000000000000F';
+const NODE_INTERFACE_ADDRESS = '0x00000000000000000000000000000000000000C8';
+
+/**
+ * Transaction shape the L1 data cost is quoted for
+ */
+export interface L1FeeTransaction {
+  to: string;
+  data: string;
+  value: bigint;
+  gasLimit: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+/**
+ * Quotes the L1 data component of a rollup transaction
+ */
+export interface L1FeeEstimator {
+  /** Extra L2 gas the transaction needs for its L1 data; 0 where the fee is charged separately */
+  estimateL1Gas(tx: L1FeeTransaction): Promise<bigint>;
+  /** L1 data fee charged on top of execution gas; 0 where it is paid as gas */
+  estimateL1Fee(tx: L1FeeTransaction): Promise<bigint>;
+}
+
+/**
+ * OP Stack: the GasPriceOracle predeploy prices the unsigned RLP-encoded
+ * transaction (it pads for the signature itself)
+ */
+export class OpStackL1FeeEstimator implements L1FeeEstimator {
+  private oracle: Contract;
+
+  constructor(private readonly provider: JsonRpcProvider) {
+    this.oracle = new Contract(GAS_PRICE_ORACLE_ADDRESS, GAS_PRICE_ORACLE_ABI, provider);
+  }
+
+  async estimateL1Gas(): Promise<bigint> {
+    return 0n;
+  }
+
+  async estimateL1Fee(tx: L1FeeTransaction): Promise<bigint> {
+    const { chainId } = await this.provider.getNetwork();
+    const unsignedTx = Transaction.from({ ...tx, chainId, nonce: 0, type: 2 }).unsignedSerialized;
+
+    return withRetry(
+      () => this.oracle.getL1Fee(unsignedTx) as Promise<bigint>,
+      'GasPriceOracle.getL1Fee',
+      { maxAttempts: 3, baseDelayMs: 500 }
+    );
+  }
+}
+
+/**
+ * Arbitrum: L1 data is paid as additional L2 gas, quoted by the NodeInterface precompile
+ */
+export class ArbitrumL1FeeEstimator implements L1FeeEstimator {
+  private nodeInterface: Contract;
+
+  constructor(provider: JsonRpcProvider) {
+    this.nodeInterface = new Contract(NODE_INTERFACE_ADDRESS, NODE_INTERFACE_ABI, provider);
+  }
+
+  async estimateL1Gas(tx: L1FeeTransaction): Promise<bigint> {
+    const [gasEstimateForL1] = await withRetry(
+      () => this.nodeInterface.gasEstimateL1Component.staticCall(tx.to, false, tx.data),
+      'NodeInterface.gasEstimateL1Component',
+      { maxAttempts: 3, baseDelayMs: 500 }
+    );
+
+    return BigInt(gasEstimateForL1);
+  }
+
+  async estimateL1Fee(): Promise<bigint> {
+    return 0n;
+  }
+}
+
+export function createL1FeeEstimator(model: L1FeeModel, provider: JsonRpcProvider): L1FeeEstimator {
+  return model === 'op-stack'
+    ? new OpStackL1FeeEstimator(provider)
+    : new ArbitrumL1FeeEstimator(provider);
+}
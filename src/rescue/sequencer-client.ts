@@ -0,0 +1,50 @@
+import { logger } from '../utils/logger';
+
+const SEQUENCER_REQUEST_TIMEOUT_MS = 5000;
+
+/**
+ * Minimal eth_sendRawTransaction client for a rollup sequencer endpoint, which
+ * accepts transactions directly without a public mempool
+ */
+export class SequencerClient {
+  private requestId = 0;
+
+  constructor(private readonly url: string) {}
+
+  /**
+   * Send a signed transaction and return its hash
+   */
+  async sendRawTransaction(signedTransaction: string): Promise<string> {
+    const body = JSON.stringify({
+      jsonrpc: '2.0',
+      id: ++this.requestId,
+      method: 'eth_sendRawTransaction',
+      params: [signedTransaction],
+    });
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+      signal: AbortSignal.timeout(SEQUENCER_REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+
+    const payload = await response.json() as { result?: string; error?: { message: string } };
+
+    if (payload.error) {
+      throw new Error(payload.error.message);
+    }
+
+    if (!payload.result) {
+      throw new Error('Sequencer returned no transaction hash');
+    }
+
+    logger.debug(`Transaction accepted by sequencer: ${payload.result}`);
+
+    return payload.result;
+  }
+}
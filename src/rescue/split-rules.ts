@@ -0,0 +1,36 @@
+import { SplitRule } from '../config/config';
+
+/**
+ * One recipient's share of a split sweep
+ */
+export interface SplitTransfer {
+  to: string;
+  amount: bigint;
+}
+
+/**
+ * Recipients of a split sweep in transfer order: each rule's recipient, then the remainder recipient
+ */
+export function splitRecipients(rules: SplitRule[], remainderRecipient: string): string[] {
+  return [...rules.map(rule => rule.recipient), remainderRecipient];
+}
+
+/**
+ * Divide a sweep across the split rules. Percentages apply to the whole sweep, fixed
+ * amounts are taken as-is, and the remainder recipient receives what is left.
+ */
+export function allocateSplit(total: bigint, rules: SplitRule[], remainderRecipient: string): SplitTransfer[] {
+  const transfers = rules.map(rule => ({
+    to: rule.recipient,
+    amount: rule.percent !== undefined
+      ? (total * BigInt(Math.round(rule.percent * 100))) / 10000n
+      : rule.amountWei ?? 0n,
+  }));
+
+  const allocated = transfers.reduce((sum, transfer) => sum + transfer.amount, 0n);
+  if (allocated >= total) {
+    throw new Error('Split rules allocate the entire sweep, nothing left for the safe wallet');
+  }
+
+  return [...transfers, { to: remainderRecipient, amount: total - allocated }];
+}
@@ -1,5 +1,66 @@
-import { ethers, WebSocketProvider } from 'ethers';
+import { ethers, SocketSubscriber, Transaction, WebSocketProvider } from 'ethers';
 import { logger } from './logger';
+import { metrics } from './metrics';
+
+export interface PendingTransactionFilter {
+  fromAddress?: string;
+  toAddress?: string;
+}
+
+/**
+ * Pending transaction as seen in the mempool
+ */
+export interface PendingTransaction {
+  hash: string;
+  from: string;
+  to: string | null;
+  nonce: number;
+  value: bigint;
+  gasLimit: bigint;
+  gasPrice?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+}
+
+export type PendingTransactionCallback = (tx: PendingTransaction) => void;
+
+/**
+ * Told about every failed connection check or reconnect, and about each successful reconnect
+ */
+export type ConnectionChangeCallback = (connected: boolean, error?: string) => void;
+
+/**
+ * Alchemy's server-side filtered pending transaction feed (full transaction objects)
+ */
+class AlchemyPendingSubscriber extends SocketSubscriber {
+  constructor(
+    provider: WebSocketProvider,
+    filter: PendingTransactionFilter,
+    private readonly onTransaction: PendingTransactionCallback
+  ) {
+    super(provider, ['alchemy_pendingTransactions', { ...filter, hashesOnly: false }]);
+  }
+
+  async _emit(_provider: WebSocketProvider, message: Record<string, string | null>): Promise<void> {
+    this.onTransaction(parseRpcTransaction(message));
+  }
+}
+
+function parseRpcTransaction(tx: Record<string, string | null>): PendingTransaction {
+  const toBigInt = (value: string | null | undefined) => (value ? BigInt(value) : undefined);
+
+  return {
+    hash: tx.hash as string,
+    from: ethers.getAddress(tx.from as string),
+    to: tx.to ? ethers.getAddress(tx.to) : null,
+    nonce: Number(tx.nonce),
+    value: toBigInt(tx.value) ?? 0n,
+    gasLimit: toBigInt(tx.gas) ?? 0n,
+    gasPrice: toBigInt(tx.gasPrice),
+    maxFeePerGas: toBigInt(tx.maxFeePerGas),
+    maxPriorityFeePerGas: toBigInt(tx.maxPriorityFeePerGas),
+  };
+}
 
 /**
  * Enhanced WebSocket Provider for Alchemy (Ethers v6 compatible)
@@ -10,8 +71,10 @@ export class AlchemyWebSocketProvider {
   private isConnected = false;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
+  private healthCheckInterval?: NodeJS.Timeout;
+  private pendingSubscribers: AlchemyPendingSubscriber[] = [];
 
-  constructor(private rpcUrl: string) {
+  constructor(private rpcUrl: string, private onConnectionChange?: ConnectionChangeCallback) {
     // Convert HTTPS to WebSocket URL
     const wsUrl = rpcUrl
       .replace('https://', 'wss://')
@@ -45,7 +108,8 @@ export class AlchemyWebSocketProvider {
       const network = await this.provider.getNetwork();
       logger.info(`✅ WebSocket connected to: ${network.name} (chainId: ${network.chainId})`);
     } catch (error) {
-      throw new Error(`WebSocket connectivity test failed: ${(error as Error).message}`);
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`WebSocket connectivity test failed: ${message}`);
     }
   }
 
@@ -60,6 +124,7 @@ export class AlchemyWebSocketProvider {
       // Method 1: Use provider.on('block') with v6 syntax
       this.provider.on('block', (blockNumber) => {
         logger.debug(`📦 New block (event): ${blockNumber}`);
+        metrics.blocksReceived.inc({ source: 'event' });
         onBlock(Number(blockNumber));
       });
 
@@ -69,7 +134,7 @@ export class AlchemyWebSocketProvider {
       this.startBlockPolling(onBlock);
 
       // Method 3: Monitor connection health
-      this.startConnectionMonitoring();
+      this.monitorConnection();
 
     } catch (error) {
       logger.error('❌ WebSocket subscription failed:', error);
@@ -77,6 +142,71 @@ export class AlchemyWebSocketProvider {
     }
   }
 
+  /**
+   * Subscribe to pending transactions matching the filter through Alchemy's filtered feed.
+   * Fails when the endpoint does not offer it: fetching every pending hash instead does
+   * not keep up with mainnet.
+   */
+  async subscribeToPendingTransactions(
+    filter: PendingTransactionFilter,
+    onTransaction: PendingTransactionCallback
+  ): Promise<void> {
+    if (!this.isConnected) {
+      throw new Error('WebSocket not connected');
+    }
+
+    logger.info('📡 Subscribing to pending transactions...', filter);
+
+    try {
+      // Probe for support before handing the subscription to ethers
+      const probeId = await this.provider.send('eth_subscribe', [
+        'alchemy_pendingTransactions',
+        { ...filter, hashesOnly: true },
+      ]);
+      await this.provider.send('eth_unsubscribe', [probeId]);
+    } catch (error) {
+      throw new Error(
+        'alchemy_pendingTransactions unavailable, mempool watching needs an Alchemy WebSocket endpoint: ' +
+        (error instanceof Error ? error.message : String(error))
+      );
+    }
+
+    const subscriber = new AlchemyPendingSubscriber(this.provider, filter, onTransaction);
+    subscriber.start();
+    this.pendingSubscribers.push(subscriber);
+    logger.info('✅ Subscribed via alchemy_pendingTransactions');
+  }
+
+  /**
+   * Stop every pending transaction subscription, so they can be made again after a reconnect
+   */
+  unsubscribePendingTransactions(): void {
+    for (const subscriber of this.pendingSubscribers.splice(0)) {
+      subscriber.stop();
+    }
+  }
+
+  /**
+   * Fetch the signed raw bytes of a transaction, rebuilding them from the
+   * transaction fields when the node lacks eth_getRawTransactionByHash
+   */
+  async getRawTransaction(txHash: string): Promise<string | null> {
+    try {
+      const raw: string | null = await this.provider.send('eth_getRawTransactionByHash', [txHash]);
+      if (raw && raw !== '0x') {
+        return raw;
+      }
+    } catch (error) {
+      logger.debug(
+        'eth_getRawTransactionByHash unavailable, rebuilding from transaction fields:',
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+
+    const tx = await this.provider.getTransaction(txHash);
+    return tx ? Transaction.from(tx).serialized : null;
+  }
+
   private startBlockPolling(onBlock: (blockNumber: number) => void): void {
     let lastBlock = 0;
 
@@ -86,32 +216,46 @@ export class AlchemyWebSocketProvider {
         if (currentBlock > lastBlock) {
           lastBlock = currentBlock;
           logger.debug(`📦 New block (polling): ${currentBlock}`);
+          metrics.blocksReceived.inc({ source: 'poll' });
           onBlock(currentBlock);
         }
       } catch (error) {
         logger.warn('Block polling error:', error);
         // Connection might be lost, try to reconnect
-        this.handleConnectionLoss();
+        this.handleConnectionLoss(error).catch(lossError => {
+          logger.error('Failed to handle connection loss:', lossError);
+        });
       }
     }, 3000); // Poll every 3 seconds
   }
 
-  private startConnectionMonitoring(): void {
-    setInterval(async () => {
+  /**
+   * Check the connection every 10 seconds, reconnecting and reporting through the
+   * connection change callback when it fails. Only one check runs per provider.
+   */
+  monitorConnection(): void {
+    if (this.healthCheckInterval) {
+      return;
+    }
+
+    this.healthCheckInterval = setInterval(async () => {
       try {
         // Test connection with a lightweight call
         await this.provider.getNetwork();
       } catch (error) {
         logger.warn('Connection health check failed:', error);
-        this.handleConnectionLoss();
+        this.handleConnectionLoss(error).catch(lossError => {
+          logger.error('Failed to handle connection loss:', lossError);
+        });
       }
     }, 10000); // Check every 10 seconds
   }
 
-  private async handleConnectionLoss(): Promise<void> {
+  private async handleConnectionLoss(cause: unknown): Promise<void> {
     if (this.isConnected) {
       this.isConnected = false;
       logger.warn('🔌 Connection lost, attempting reconnection...');
+      this.onConnectionChange?.(false, cause instanceof Error ? cause.message : String(cause));
 
       if (this.reconnectAttempts < this.maxReconnectAttempts) {
         this.reconnectAttempts++;
@@ -119,9 +263,13 @@ export class AlchemyWebSocketProvider {
         try {
           await this.sleep(Math.min(1000 * Math.pow(2, this.reconnectAttempts), 10000));
           await this.connect();
+          metrics.websocketReconnects.inc({ result: 'success' });
           logger.info(`✅ Reconnection successful (attempt ${this.reconnectAttempts})`);
+          this.onConnectionChange?.(true);
         } catch (error) {
+          metrics.websocketReconnects.inc({ result: 'failure' });
           logger.error(`❌ Reconnection failed (attempt ${this.reconnectAttempts}):`, error);
+          this.onConnectionChange?.(false, error instanceof Error ? error.message : String(error));
         }
       } else {
         logger.error('❌ Max reconnection attempts reached');
@@ -138,7 +286,9 @@ export class AlchemyWebSocketProvider {
       return await this.provider.getBalance(address);
     } catch (error) {
       logger.warn('Balance query failed:', error);
-      this.handleConnectionLoss();
+      this.handleConnectionLoss(error).catch(lossError => {
+        logger.error('Failed to handle connection loss:', lossError);
+      });
       throw error;
     }
   }
@@ -148,13 +298,17 @@ export class AlchemyWebSocketProvider {
       return await this.provider.getNetwork();
     } catch (error) {
       logger.warn('Network query failed:', error);
-      this.handleConnectionLoss();
+      this.handleConnectionLoss(error).catch(lossError => {
+        logger.error('Failed to handle connection loss:', lossError);
+      });
       throw error;
     }
   }
 
   disconnect(): void {
     this.isConnected = false;
+    clearInterval(this.healthCheckInterval);
+    this.healthCheckInterval = undefined;
     try {
       this.provider.removeAllListeners();
       logger.info('🔌 WebSocket disconnected');
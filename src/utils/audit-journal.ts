@@ -0,0 +1,126 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from './logger';
+
+export type AuditEventType =
+  | 'rescue-started'
+  | 'balance-observed'
+  | 'approval-requested'
+  | 'approval-decided'
+  | 'viability'
+  | 'gas-params'
+  | 'bundle-signed'
+  | 'builder-submission'
+  | 'nonce-conflict'
+  | 'resolution'
+  | 'rescue-finished';
+
+/**
+ * One line of the journal. Amounts are wei strings, since JSON has no bigint.
+ */
+export interface AuditEvent {
+  at: string; // ISO 8601
+  type: AuditEventType;
+  wallet: string;
+  rescueId?: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Append-only JSONL journal of every rescue decision, for reconstructing what happened
+ * after the fact. Writes are synchronous so the journal survives a crash mid-rescue.
+ */
+export class AuditJournal {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  record(event: Omit<AuditEvent, 'at'>): void {
+    const line = JSON.stringify(
+      { at: new Date().toISOString(), ...event },
+      (_, value) => typeof value === 'bigint' ? value.toString() : value
+    );
+
+    try {
+      fs.appendFileSync(this.filePath, line + '\n');
+    } catch (error) {
+      // The journal is for diagnosis only and must never fail a rescue
+      logger.error(`Failed to write audit journal ${this.filePath}`, error);
+    }
+  }
+}
+
+/**
+ * Read every event from a journal, skipping lines that do not parse (e.g. one cut off by a crash)
+ */
+export function readAuditJournal(filePath: string): AuditEvent[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf8');
+  } catch (error) {
+    throw new Error(`Failed to read audit journal ${filePath}: ${(error as Error).message}`);
+  }
+
+  const events: AuditEvent[] = [];
+  for (const line of content.split('\n')) {
+    if (line.trim().length === 0) {
+      continue;
+    }
+
+    try {
+      events.push(JSON.parse(line) as AuditEvent);
+    } catch {
+      logger.warn(`Skipping unreadable audit journal line: ${line.slice(0, 80)}`);
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Events for one wallet and/or one rescue, in journal order
+ */
+export function filterAuditEvents(
+  events: AuditEvent[],
+  filter: { wallet?: string; rescueId?: string }
+): AuditEvent[] {
+  return events.filter(event =>
+    (!filter.wallet || event.wallet.toLowerCase() === filter.wallet.toLowerCase()) &&
+    (!filter.rescueId || event.rescueId === filter.rescueId)
+  );
+}
+
+/**
+ * Render events as a timeline, one block per rescue (in order of first appearance)
+ * with each event's offset from the rescue's first event
+ */
+export function formatTimeline(events: AuditEvent[]): string {
+  const byRescue = new Map<string, AuditEvent[]>();
+  for (const event of events) {
+    const rescue = event.rescueId ?? '(no rescue)';
+    byRescue.set(rescue, [...(byRescue.get(rescue) ?? []), event]);
+  }
+
+  const blocks: string[] = [];
+  for (const [rescue, rescueEvents] of byRescue) {
+    const start = Date.parse(rescueEvents[0].at);
+    const lines = [`Rescue ${rescue} — wallet ${rescueEvents[0].wallet}`];
+
+    for (const event of rescueEvents) {
+      const offset = `+${((Date.parse(event.at) - start) / 1000).toFixed(3)}s`;
+      const details = Object.entries(event.data)
+        .filter(([, value]) => value !== undefined && value !== null)
+        .map(([key, value]) => `${key}=${typeof value === 'object' ? JSON.stringify(value) : value}`)
+        .join(' ');
+
+      lines.push(`  ${event.at} ${offset.padStart(10)}  ${event.type.padEnd(18)} ${details}`.trimEnd());
+    }
+
+    blocks.push(lines.join('\n'));
+  }
+
+  return blocks.join('\n\n');
+}
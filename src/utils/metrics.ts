@@ -0,0 +1,235 @@
+import * as http from 'http';
+import { logger } from './logger';
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+  reset(): void;
+}
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels)
+    .sort()
+    .map(name => `${name}="${labels[name].replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+    .join(',');
+}
+
+function sample(name: string, key: string, value: number): string {
+  return `${name}${key ? `{${key}}` : ''} ${value}`;
+}
+
+/**
+ * Monotonic counter, one series per label set
+ */
+export class Counter implements Metric {
+  private values = new Map<string, number>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + amount);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels)) ?? 0;
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values].map(([key, value]) => sample(this.name, key, value)),
+    ];
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+/**
+ * Value that can go up and down, one series per label set
+ */
+export class Gauge implements Metric {
+  private values = new Map<string, number>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  set(labels: Labels, value: number): void {
+    this.values.set(labelKey(labels), value);
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + amount);
+  }
+
+  dec(labels: Labels = {}, amount = 1): void {
+    this.inc(labels, -amount);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels)) ?? 0;
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      ...[...this.values].map(([key, value]) => sample(this.name, key, value)),
+    ];
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+/**
+ * Cumulative histogram with fixed upper bounds, one series per label set
+ */
+export class Histogram implements Metric {
+  private series = new Map<string, { buckets: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private readonly bounds: number[]) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    const series = this.series.get(key) ?? { buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) {
+        series.buckets[i]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+    this.series.set(key, series);
+  }
+
+  getCount(labels: Labels = {}): number {
+    return this.series.get(labelKey(labels))?.count ?? 0;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+
+    for (const [key, series] of this.series) {
+      const withLe = (le: string) => (key ? `${key},` : '') + `le="${le}"`;
+      this.bounds.forEach((bound, i) => lines.push(sample(`${this.name}_bucket`, withLe(String(bound)), series.buckets[i])));
+      lines.push(sample(`${this.name}_bucket`, withLe('+Inf'), series.count));
+      lines.push(sample(`${this.name}_sum`, key, series.sum));
+      lines.push(sample(`${this.name}_count`, key, series.count));
+    }
+
+    return lines;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+/**
+ * Holds every metric and renders them in the Prometheus text format
+ */
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, bounds: number[]): Histogram {
+    return this.register(new Histogram(name, help, bounds));
+  }
+
+  render(): string {
+    return this.metrics.flatMap(metric => metric.render()).join('\n') + '\n';
+  }
+
+  /**
+   * Clear every series; for tests
+   */
+  reset(): void {
+    this.metrics.forEach(metric => metric.reset());
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+export const registry = new MetricsRegistry();
+
+export const metrics = {
+  blocksReceived: registry.counter(
+    'evm_rescue_blocks_received_total',
+    'New block notifications received, by source (event or poll)'
+  ),
+  balanceChecks: registry.counter(
+    'evm_rescue_balance_checks_total',
+    'Wallet balance checks, by result'
+  ),
+  detectionToSubmission: registry.histogram(
+    'evm_rescue_detection_to_submission_seconds',
+    'Time from a rescue being triggered to its first bundle being sent, by rescue kind',
+    [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+  ),
+  bundlesSubmitted: registry.counter(
+    'evm_rescue_bundles_submitted_total',
+    'Bundle submissions per builder and target block, by whether the builder accepted them'
+  ),
+  bundlesIncluded: registry.counter(
+    'evm_rescue_bundles_included_total',
+    'Bundles that landed on chain, by submission route (relay or sequencer)'
+  ),
+  rescues: registry.counter(
+    'evm_rescue_rescues_total',
+    'Rescue attempts, by kind and result'
+  ),
+  ethRescued: registry.counter(
+    'evm_rescue_eth_rescued_total',
+    'Native currency swept to safety, in ETH'
+  ),
+  circuitBreakers: registry.gauge(
+    'evm_rescue_circuit_breakers',
+    'Circuit breakers currently in each state, by breaker name'
+  ),
+  websocketReconnects: registry.counter(
+    'evm_rescue_websocket_reconnects_total',
+    'WebSocket reconnection attempts after a lost connection, by result'
+  ),
+};
+
+/**
+ * Serve GET /metrics in the Prometheus text format
+ */
+export function startMetricsServer(port: number, host: string): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    if (req.method === 'GET' && req.url?.split('?')[0] === '/metrics') {
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+      res.end(registry.render());
+      return;
+    }
+
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end('Not found\n');
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      logger.info(`📈 Metrics available at http://${host}:${port}/metrics`);
+      resolve(server);
+    });
+  });
+}
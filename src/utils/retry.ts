@@ -1,4 +1,5 @@
 import { logger } from './logger';
+import { metrics } from './metrics';
 
 export interface RetryOptions {
   maxAttempts: number;
@@ -134,24 +135,40 @@ export function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export type CircuitStateListener = (name: string, state: CircuitState, previous: CircuitState) => void;
+
+/**
+ * Everything needed to restore a circuit breaker after a restart
+ */
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  failureCount: number;
+  lastFailureTime: number; // Unix ms
+}
+
 /**
  * Circuit breaker pattern implementation
  */
 export class CircuitBreaker {
   private failureCount = 0;
   private lastFailureTime = 0;
-  private state: 'CLOSED' | 'OPEN' | 'HALF_OPEN' = 'CLOSED';
+  private state: CircuitState = 'CLOSED';
+  private listeners: CircuitStateListener[] = [];
 
   constructor(
     private readonly failureThreshold: number = 5,
     private readonly recoveryTimeoutMs: number = 60000, // 1 minute
     private readonly name: string = 'CircuitBreaker'
-  ) {}
+  ) {
+    metrics.circuitBreakers.inc({ name, state: this.state });
+  }
 
   async execute<T>(operation: () => Promise<T>): Promise<T> {
     if (this.state === 'OPEN') {
       if (Date.now() - this.lastFailureTime > this.recoveryTimeoutMs) {
-        this.state = 'HALF_OPEN';
+        this.setState('HALF_OPEN');
         logger.info(`${this.name} circuit breaker entering HALF_OPEN state`);
       } else {
         throw new Error(`${this.name} circuit breaker is OPEN`);
@@ -171,7 +188,7 @@ export class CircuitBreaker {
   private onSuccess(): void {
     this.failureCount = 0;
     if (this.state === 'HALF_OPEN') {
-      this.state = 'CLOSED';
+      this.setState('CLOSED');
       logger.info(`${this.name} circuit breaker returning to CLOSED state`);
     }
   }
@@ -181,13 +198,31 @@ export class CircuitBreaker {
     this.lastFailureTime = Date.now();
 
     if (this.failureCount >= this.failureThreshold) {
-      this.state = 'OPEN';
+      this.setState('OPEN');
       logger.warn(
         `${this.name} circuit breaker opened after ${this.failureCount} failures`
       );
     }
   }
 
+  private setState(state: CircuitState): void {
+    const previous = this.state;
+    metrics.circuitBreakers.dec({ name: this.name, state: previous });
+    metrics.circuitBreakers.inc({ name: this.name, state });
+    this.state = state;
+
+    if (state !== previous) {
+      this.listeners.forEach(listener => listener(this.name, state, previous));
+    }
+  }
+
+  /**
+   * Called on every state transition, e.g. to alert when the breaker opens and closes again
+   */
+  onStateChange(listener: CircuitStateListener): void {
+    this.listeners.push(listener);
+  }
+
   getState(): string {
     return this.state;
   }
@@ -195,4 +230,25 @@ export class CircuitBreaker {
   getFailureCount(): number {
     return this.failureCount;
   }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    return {
+      state: this.state,
+      failureCount: this.failureCount,
+      lastFailureTime: this.lastFailureTime,
+    };
+  }
+
+  /**
+   * Resume from a saved snapshot; an OPEN breaker still waits out its recovery timeout
+   */
+  restore(snapshot: CircuitBreakerSnapshot): void {
+    this.setState(snapshot.state);
+    this.failureCount = snapshot.failureCount;
+    this.lastFailureTime = snapshot.lastFailureTime;
+
+    if (this.state !== 'CLOSED') {
+      logger.warn(`${this.name} circuit breaker restored in ${this.state} state after ${this.failureCount} failures`);
+    }
+  }
 }
\ No newline at end of file
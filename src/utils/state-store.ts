@@ -0,0 +1,222 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from './logger';
+import { CircuitBreakerSnapshot } from './retry';
+
+/**
+ * A signed bundle sent for one target block; the last transaction is always our own
+ */
+export interface BundleRecord {
+  id: string; // Hash of the bundle's last transaction
+  wallet: string;
+  targetBlock: number;
+  txHashes: string[];
+  submittedAt: number; // Unix ms
+}
+
+/**
+ * Outcome of one rescue attempt, as reported by FlashbotsRescue
+ */
+export interface RescueRecord {
+  wallet: string;
+  kind: string; // eth, backrun, token, nft, claim, scheduled
+  success: boolean;
+  txHash?: string;
+  blockNumber?: number;
+  amountRescued?: bigint; // In the token's base units when tokenAddress is set
+  tokenAddress?: string; // Token, NFT and claim rescues
+  error?: string;
+  at: number; // Unix ms
+}
+
+type StateEntry =
+  | { type: 'balance'; key: string; balance: string }
+  | { type: 'bundle'; bundle: BundleRecord }
+  | { type: 'bundle-resolved'; id: string; included: boolean; blockNumber?: number; bundleHashes?: string[] }
+  | { type: 'rescue'; rescue: Omit<RescueRecord, 'amountRescued'> & { amountRescued?: string } }
+  | { type: 'circuit-breaker'; key: string; snapshot: CircuitBreakerSnapshot };
+
+// Rescue history kept across compactions
+const MAX_RESCUE_HISTORY = 200;
+
+/**
+ * Append-only JSONL store for what the bot must remember across restarts: last observed
+ * balances, bundles still in flight, rescue outcomes and circuit breaker state. Every
+ * change is one appended line; the file is rewritten compactly each time it is opened.
+ */
+export class StateStore {
+  private filePath: string;
+  private balances = new Map<string, bigint>();
+  private inFlight = new Map<string, BundleRecord>();
+  private rescues: RescueRecord[] = [];
+  private circuitBreakers = new Map<string, CircuitBreakerSnapshot>();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.load();
+    this.compact();
+  }
+
+  /**
+   * Last balance seen for a wallet (or one of its tokens), undefined if never recorded
+   */
+  getLastBalance(wallet: string, token?: string): bigint | undefined {
+    return this.balances.get(this.balanceKey(wallet, token));
+  }
+
+  recordBalance(wallet: string, balance: bigint, token?: string): void {
+    const key = this.balanceKey(wallet, token);
+    if (this.balances.get(key) === balance) {
+      return;
+    }
+
+    this.append({ type: 'balance', key, balance: balance.toString() });
+  }
+
+  /**
+   * Record a bundle before it is sent, so a restart mid-wait can still check for it
+   */
+  recordBundle(bundle: BundleRecord): void {
+    this.append({ type: 'bundle', bundle: { ...bundle, wallet: bundle.wallet.toLowerCase() } });
+  }
+
+  resolveBundle(id: string, included: boolean, blockNumber?: number, bundleHashes?: string[]): void {
+    if (!this.inFlight.has(id)) {
+      return;
+    }
+
+    this.append({ type: 'bundle-resolved', id, included, blockNumber, bundleHashes });
+  }
+
+  /**
+   * Bundles sent for a wallet whose outcome was never recorded
+   */
+  getInFlightBundles(wallet: string): BundleRecord[] {
+    return [...this.inFlight.values()].filter(bundle => bundle.wallet === wallet.toLowerCase());
+  }
+
+  recordRescue(rescue: RescueRecord): void {
+    this.append({
+      type: 'rescue',
+      rescue: {
+        ...rescue,
+        wallet: rescue.wallet.toLowerCase(),
+        amountRescued: rescue.amountRescued?.toString(),
+      },
+    });
+  }
+
+  /**
+   * Rescue attempts, oldest first; all wallets when none is given
+   */
+  getRescueHistory(wallet?: string): RescueRecord[] {
+    return wallet
+      ? this.rescues.filter(rescue => rescue.wallet === wallet.toLowerCase())
+      : [...this.rescues];
+  }
+
+  getCircuitBreaker(key: string): CircuitBreakerSnapshot | undefined {
+    return this.circuitBreakers.get(key);
+  }
+
+  saveCircuitBreaker(key: string, snapshot: CircuitBreakerSnapshot): void {
+    const previous = this.circuitBreakers.get(key);
+    if (
+      previous?.state === snapshot.state &&
+      previous.failureCount === snapshot.failureCount &&
+      previous.lastFailureTime === snapshot.lastFailureTime
+    ) {
+      return;
+    }
+
+    this.append({ type: 'circuit-breaker', key, snapshot });
+  }
+
+  private balanceKey(wallet: string, token?: string): string {
+    return token ? `${wallet.toLowerCase()}:${token.toLowerCase()}` : wallet.toLowerCase();
+  }
+
+  private append(entry: StateEntry): void {
+    this.apply(entry);
+
+    try {
+      fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n');
+    } catch (error) {
+      // Losing a state line only costs restart recovery, never the rescue itself
+      logger.error(`Failed to write state file ${this.filePath}`, error);
+    }
+  }
+
+  private apply(entry: StateEntry): void {
+    switch (entry.type) {
+      case 'balance':
+        this.balances.set(entry.key, BigInt(entry.balance));
+        break;
+      case 'bundle':
+        this.inFlight.set(entry.bundle.id, entry.bundle);
+        break;
+      case 'bundle-resolved':
+        this.inFlight.delete(entry.id);
+        break;
+      case 'rescue':
+        this.rescues.push({
+          ...entry.rescue,
+          amountRescued: entry.rescue.amountRescued !== undefined ? BigInt(entry.rescue.amountRescued) : undefined,
+        });
+        if (this.rescues.length > MAX_RESCUE_HISTORY) {
+          this.rescues.shift();
+        }
+        break;
+      case 'circuit-breaker':
+        this.circuitBreakers.set(entry.key, entry.snapshot);
+        break;
+    }
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      logger.info(`No state file at ${this.filePath}, starting fresh`);
+      return;
+    }
+
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n').filter(line => line.trim().length > 0);
+
+    for (const [i, line] of lines.entries()) {
+      try {
+        this.apply(JSON.parse(line) as StateEntry);
+      } catch {
+        // A crash mid-append leaves a partial last line; anything else is corruption
+        if (i === lines.length - 1) {
+          logger.warn(`Ignoring truncated last line of state file ${this.filePath}`);
+        } else {
+          throw new Error(`State file ${this.filePath} is corrupt at line ${i + 1}`);
+        }
+      }
+    }
+
+    logger.info(
+      `Loaded state from ${this.filePath}: ${this.balances.size} balance(s), ` +
+      `${this.inFlight.size} in-flight bundle(s), ${this.rescues.length} past rescue(s)`
+    );
+  }
+
+  /**
+   * Rewrite the file as the current state only, replacing it atomically
+   */
+  private compact(): void {
+    const entries: StateEntry[] = [
+      ...[...this.balances].map(([key, balance]): StateEntry => ({ type: 'balance', key, balance: balance.toString() })),
+      ...[...this.inFlight.values()].map((bundle): StateEntry => ({ type: 'bundle', bundle })),
+      ...this.rescues.map((rescue): StateEntry => ({
+        type: 'rescue',
+        rescue: { ...rescue, amountRescued: rescue.amountRescued?.toString() },
+      })),
+      ...[...this.circuitBreakers].map(([key, snapshot]): StateEntry => ({ type: 'circuit-breaker', key, snapshot })),
+    ];
+
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(tmpPath, entries.map(entry => JSON.stringify(entry) + '\n').join(''));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
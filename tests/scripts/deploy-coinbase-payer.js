@@ -0,0 +1,52 @@
+#!/usr/bin/env node
+
+/**
+ * Deploy CoinbasePayer Script
+ * Deploys the coinbase-payment helper contract used for builder bribes.
+ * Point RPC_URL at a local devnet (anvil/hardhat) for testing.
+ *
+ * Usage: DEPLOYER_PRIVATE_KEY=0x... node tests/scripts/deploy-coinbase-payer.js
+ */
+
+const { ethers } = require('ethers');
+const artifact = require('../../src/rescue/contracts/coinbase-payer.json');
+require('dotenv').config();
+
+async function deploy() {
+  console.log('🏗️  Deploy CoinbasePayer');
+  console.log('========================');
+
+  try {
+    const rpcUrl = process.env.RPC_URL;
+    const privateKey = process.env.DEPLOYER_PRIVATE_KEY;
+
+    if (!rpcUrl || !privateKey) {
+      throw new Error('Missing RPC_URL or DEPLOYER_PRIVATE_KEY');
+    }
+
+    const provider = new ethers.JsonRpcProvider(rpcUrl);
+    const deployer = new ethers.Wallet(privateKey, provider);
+
+    console.log('🔍 Deployer:', deployer.address);
+    console.log('🌐 Network:', (await provider.getNetwork()).chainId.toString());
+
+    const factory = new ethers.ContractFactory(artifact.abi, artifact.bytecode, deployer);
+    const contract = await factory.deploy();
+    await contract.waitForDeployment();
+
+    const address = await contract.getAddress();
+    const code = await provider.getCode(address);
+
+    if (code !== artifact.deployedBytecode) {
+      throw new Error(`Unexpected runtime code at ${address}: ${code}`);
+    }
+
+    console.log('✅ CoinbasePayer deployed at:', address);
+    console.log(`\nSet in .env:\nBRIBE_MODE=coinbase\nCOINBASE_PAYER_ADDRESS=${address}`);
+  } catch (error) {
+    console.error('❌ Deployment failed:', error.message);
+    process.exit(1);
+  }
+}
+
+deploy();
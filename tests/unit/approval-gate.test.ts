@@ -0,0 +1,116 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { ApprovalRequest, TelegramApprovalGate } from '../../src/control/approval-gate';
+
+describe('TelegramApprovalGate', () => {
+  const CHAT_ID = '-1001234';
+  const OPERATOR = 42;
+
+  const request: ApprovalRequest = {
+    wallet: '0xAbCdEf0000000000000000000000000000000001',
+    rescueId: 'eth-1',
+    balance: 5n * 10n ** 18n,
+    sweepAmount: 4999n * 10n ** 15n,
+    destinations: ['0x0000000000000000000000000000000000000002'],
+    gasLimit: 21000n,
+    maxFeePerGas: 40n * 10n ** 9n,
+    maxPriorityFeePerGas: 2n * 10n ** 9n,
+    totalGasCost: 840000n * 10n ** 9n,
+    targetBlockCount: 5,
+    currentBlock: 100,
+  };
+
+  let handlers: Record<string, (query: unknown) => void>;
+  let bot: { on: jest.Mock; sendMessage: jest.Mock; answerCallbackQuery: jest.Mock; editMessageText: jest.Mock };
+
+  beforeEach(() => {
+    handlers = {};
+    bot = {
+      on: jest.fn((event: string, handler: (query: unknown) => void) => { handlers[event] = handler; }),
+      sendMessage: jest.fn().mockResolvedValue({ message_id: 7 }),
+      answerCallbackQuery: jest.fn().mockResolvedValue(true),
+      editMessageText: jest.fn().mockResolvedValue(true),
+    };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const createGate = (overrides: { timeoutMs?: number; timeoutPolicy?: 'approve' | 'reject'; allowedUserIds?: number[] } = {}) =>
+    new TelegramApprovalGate(bot as unknown as TelegramBot, CHAT_ID, {
+      threshold: 10n ** 18n,
+      timeoutMs: overrides.timeoutMs ?? 60000,
+      timeoutPolicy: overrides.timeoutPolicy ?? 'reject',
+      allowedUserIds: overrides.allowedUserIds,
+    });
+
+  const press = (action: 'approve' | 'reject', from: { id: number; username?: string }, chatId = CHAT_ID) => {
+    const [, , options] = bot.sendMessage.mock.calls[0];
+    const button = options.reply_markup.inline_keyboard[0].find((entry: { callback_data: string }) =>
+      entry.callback_data.startsWith(action)
+    );
+    handlers.callback_query({ id: 'q1', from, data: button.callback_data, message: { chat: { id: Number(chatId) } } });
+  };
+
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+
+  it('should post the planned sweep with approve and reject buttons', async () => {
+    const gate = createGate();
+    gate.requestApproval(request);
+    await flush();
+
+    const [chatId, text] = bot.sendMessage.mock.calls[0];
+    expect(chatId).toBe(CHAT_ID);
+    expect(text).toContain(`Wallet: ${request.wallet}`);
+    expect(text).toContain('Sweep: ~4.999000 ETH');
+    expect(text).toContain('To: 0x0000000000000000000000000000000000000002');
+    expect(text).toContain('21000 gas at up to 40.0 gwei');
+    expect(text).toContain('Target blocks: 5 after approval');
+
+    press('reject', { id: OPERATOR });
+  });
+
+  it('should resolve with whoever pressed approve', async () => {
+    const gate = createGate();
+    const decision = gate.requestApproval(request);
+    await flush();
+
+    press('approve', { id: OPERATOR, username: 'alice' });
+
+    await expect(decision).resolves.toEqual({ approved: true, decidedBy: '@alice', userId: OPERATOR, timedOut: false });
+    expect(bot.editMessageText).toHaveBeenCalledWith(expect.stringContaining('Approved by @alice'), {
+      chat_id: CHAT_ID,
+      message_id: 7,
+    });
+  });
+
+  it('should ignore users outside the allowlist and other chats', async () => {
+    const gate = createGate({ allowedUserIds: [OPERATOR] });
+    const decision = gate.requestApproval(request);
+    await flush();
+
+    press('approve', { id: 7 });
+    press('approve', { id: OPERATOR }, '999');
+    press('reject', { id: OPERATOR });
+
+    await expect(decision).resolves.toMatchObject({ approved: false, decidedBy: `user ${OPERATOR}` });
+    expect(bot.answerCallbackQuery).toHaveBeenCalledWith('q1', { text: 'You are not allowed to approve rescues' });
+  });
+
+  it('should apply the timeout policy when nobody answers', async () => {
+    jest.useFakeTimers();
+    const gate = createGate({ timeoutMs: 30000, timeoutPolicy: 'approve' });
+    const decision = gate.requestApproval(request);
+
+    await jest.advanceTimersByTimeAsync(30000);
+
+    await expect(decision).resolves.toEqual({ approved: true, decidedBy: 'timeout', timedOut: true });
+  });
+
+  it('should apply the timeout policy when the request cannot be posted', async () => {
+    bot.sendMessage.mockRejectedValue(new Error('Telegram down'));
+    const gate = createGate();
+
+    await expect(gate.requestApproval(request)).resolves.toMatchObject({ approved: false, timedOut: true });
+  });
+});
@@ -0,0 +1,92 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  AuditJournal,
+  filterAuditEvents,
+  formatTimeline,
+  readAuditJournal,
+} from '../../src/utils/audit-journal';
+import { runAuditTimeline } from '../../src/audit-timeline';
+
+describe('AuditJournal', () => {
+  const WALLET = '0xAbCdEf0000000000000000000000000000000001';
+  const OTHER_WALLET = '0x0000000000000000000000000000000000000002';
+
+  let tmpDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-journal-'));
+    filePath = path.join(tmpDir, 'logs', 'audit.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const writeJournal = (): void => {
+    const journal = new AuditJournal(filePath);
+    journal.record({ type: 'rescue-started', wallet: WALLET, rescueId: 'eth-1', data: { kind: 'eth' } });
+    journal.record({ type: 'viability', wallet: WALLET, rescueId: 'eth-1', data: { viable: true, balance: 10n ** 18n } });
+    journal.record({ type: 'rescue-started', wallet: OTHER_WALLET, rescueId: 'eth-2', data: { kind: 'eth' } });
+    journal.record({
+      type: 'resolution',
+      wallet: WALLET,
+      rescueId: 'eth-1',
+      data: { targetBlock: 101, included: false, error: 'Resolution: 1' },
+    });
+  };
+
+  it('should append one JSON line per event with bigints as strings', () => {
+    writeJournal();
+
+    const lines = fs.readFileSync(filePath, 'utf8').trim().split('\n');
+    expect(lines).toHaveLength(4);
+    expect(JSON.parse(lines[1])).toMatchObject({
+      type: 'viability',
+      wallet: WALLET,
+      rescueId: 'eth-1',
+      data: { viable: true, balance: '1000000000000000000' },
+    });
+  });
+
+  it('should skip unreadable lines when reading', () => {
+    writeJournal();
+    fs.appendFileSync(filePath, '{"type":"resc');
+
+    expect(readAuditJournal(filePath)).toHaveLength(4);
+  });
+
+  it('should filter by wallet case-insensitively and by rescue ID', () => {
+    writeJournal();
+    const events = readAuditJournal(filePath);
+
+    expect(filterAuditEvents(events, { wallet: WALLET.toLowerCase() })).toHaveLength(3);
+    expect(filterAuditEvents(events, { rescueId: 'eth-2' }).map(event => event.wallet)).toEqual([OTHER_WALLET]);
+  });
+
+  it('should group the timeline by rescue', () => {
+    writeJournal();
+
+    const timeline = formatTimeline(readAuditJournal(filePath));
+    const blocks = timeline.split('\n\n');
+
+    expect(blocks).toHaveLength(2);
+    expect(blocks[0]).toContain(`Rescue eth-1 — wallet ${WALLET}`);
+    expect(blocks[0]).toContain('viable=true balance=1000000000000000000');
+    expect(blocks[0]).toContain('included=false error=Resolution: 1');
+    expect(blocks[1]).toContain('Rescue eth-2');
+  });
+
+  it('should render a rescue from the reader command', () => {
+    writeJournal();
+
+    const output = runAuditTimeline(['--rescue', 'eth-1', '--file', filePath]);
+
+    expect(output.split('\n')).toHaveLength(4);
+    expect(runAuditTimeline(['--wallet', '0x0000000000000000000000000000000000000003', '--file', filePath]))
+      .toContain('No audit events for wallet');
+    expect(() => runAuditTimeline(['--file', filePath])).toThrow('Usage');
+  });
+});
@@ -0,0 +1,118 @@
+import { JsonRpcProvider } from 'ethers';
+import { GasCalculator, GasEstimate, calculateNextBaseFee } from '../../src/rescue/gas-calculator';
+
+describe('calculateNextBaseFee', () => {
+  const baseFee = BigInt('10000000000'); // 10 gwei
+  const gasLimit = BigInt(30000000);
+
+  it('should keep the base fee when usage is at target', () => {
+    expect(calculateNextBaseFee(baseFee, gasLimit / 2n, gasLimit)).toBe(baseFee);
+  });
+
+  it('should rise 12.5% after a full block', () => {
+    expect(calculateNextBaseFee(baseFee, gasLimit, gasLimit)).toBe(BigInt('11250000000'));
+  });
+
+  it('should fall 12.5% after an empty block', () => {
+    expect(calculateNextBaseFee(baseFee, 0n, gasLimit)).toBe(BigInt('8750000000'));
+  });
+
+  it('should scale with how far usage is above target', () => {
+    // 75% full is halfway between target and full: +6.25%
+    expect(calculateNextBaseFee(baseFee, (gasLimit * 3n) / 4n, gasLimit)).toBe(BigInt('10625000000'));
+  });
+
+  it('should rise by at least 1 wei above target', () => {
+    expect(calculateNextBaseFee(7n, gasLimit / 2n + 1n, gasLimit)).toBe(8n);
+  });
+});
+
+describe('GasCalculator base fee projection', () => {
+  let mockProvider: jest.Mocked<JsonRpcProvider>;
+
+  beforeEach(() => {
+    mockProvider = {
+      getBlock: jest.fn().mockResolvedValue({
+        number: 100,
+        baseFeePerGas: BigInt('10000000000'),
+        gasUsed: BigInt(7500000),
+        gasLimit: BigInt(30000000),
+      }),
+    } as unknown as jest.Mocked<JsonRpcProvider>;
+  });
+
+  it('should project the next block exactly and later blocks at the maximum rise', async () => {
+    const projection = await new GasCalculator(mockProvider, 2).projectBaseFees(3);
+
+    expect(projection).toEqual({
+      parentBlock: 100,
+      baseFees: [
+        BigInt('9375000000'), // 25% full: -6.25%
+        BigInt('10546875000'), // +12.5%
+        BigInt('11865234375'), // +12.5%
+      ],
+    });
+    expect(mockProvider.getBlock).toHaveBeenCalledWith('latest');
+  });
+
+  it('should not project on legacy-fee chains', async () => {
+    const calculator = new GasCalculator(mockProvider, 2, { feeModel: 'legacy' });
+
+    expect(await calculator.projectBaseFees(3)).toBeUndefined();
+    expect(mockProvider.getBlock).not.toHaveBeenCalled();
+  });
+
+  it('should not project on rollups with L1 data fees', async () => {
+    const calculator = new GasCalculator(mockProvider, 2, { l1FeeModel: 'op-stack' });
+
+    expect(await calculator.projectBaseFees(3)).toBeUndefined();
+  });
+
+  it('should not project when the block has no base fee', async () => {
+    mockProvider.getBlock.mockResolvedValue({
+      number: 100,
+      baseFeePerGas: null,
+      gasUsed: BigInt(7500000),
+      gasLimit: BigInt(30000000),
+    } as never);
+
+    expect(await new GasCalculator(mockProvider, 2).projectBaseFees(3)).toBeUndefined();
+  });
+});
+
+describe('GasCalculator exact sweeps', () => {
+  const calculator = new GasCalculator({} as JsonRpcProvider, 2);
+  const bid: GasEstimate = {
+    maxFeePerGas: BigInt('22000000000'),
+    maxPriorityFeePerGas: BigInt('2000000000'),
+    gasLimit: BigInt(21000),
+    totalGasCost: BigInt(21000) * BigInt('22000000000'),
+  };
+
+  it('should price the fee cap at the projected base fee plus tip', () => {
+    const priced = calculator.applyProjectedBaseFee(bid, BigInt('9000000000'));
+
+    expect(priced.maxFeePerGas).toBe(BigInt('11000000000'));
+    expect(priced.maxPriorityFeePerGas).toBe(bid.maxPriorityFeePerGas);
+    expect(priced.totalGasCost).toBe(BigInt(21000) * BigInt('11000000000'));
+  });
+
+  it('should sweep everything except the exact gas cost', () => {
+    const balance = BigInt('1000000000000000000');
+    const priced = calculator.applyProjectedBaseFee(bid, BigInt('9000000000'));
+
+    const sweepAmount = calculator.calculateExactSweepAmount(balance, priced.totalGasCost);
+
+    expect(sweepAmount + priced.totalGasCost).toBe(balance);
+  });
+
+  it('should subtract a coinbase bribe', () => {
+    const balance = BigInt('1000000000000000000');
+
+    expect(calculator.calculateExactSweepAmount(balance, 1000n, 500n)).toBe(balance - 1500n);
+  });
+
+  it('should throw when gas exceeds the balance', () => {
+    expect(() => calculator.calculateExactSweepAmount(1000n, 1000n)).toThrow('Insufficient balance');
+  });
+});
@@ -0,0 +1,74 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Wallet, ethers } from 'ethers';
+import { BuilderClient } from '../../src/rescue/builder-client';
+
+const AUTH_KEY = '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+
+describe('BuilderClient', () => {
+  let server: http.Server;
+  let url: string;
+  let lastRequest: { headers: http.IncomingHttpHeaders; body: string };
+  let responseBody: unknown;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        lastRequest = { headers: req.headers, body };
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(responseBody));
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    responseBody = { jsonrpc: '2.0', id: 1, result: { bundleHash: '0xbundle' } };
+  });
+
+  it('should sign requests with the Flashbots signature header', async () => {
+    const authSigner = new Wallet(AUTH_KEY);
+    const client = new BuilderClient({ name: 'fb', url, auth: 'flashbots' }, authSigner);
+
+    const submission = await client.sendBundle(['0xsigned'], 255);
+
+    expect(submission).toEqual({ builder: 'fb', targetBlock: 255, success: true, bundleHash: '0xbundle' });
+
+    const body = JSON.parse(lastRequest.body);
+    expect(body.method).toBe('eth_sendBundle');
+    expect(body.params).toEqual([{ txs: ['0xsigned'], blockNumber: '0xff' }]);
+
+    const [address, signature] = (lastRequest.headers['x-flashbots-signature'] as string).split(':');
+    expect(address).toBe(authSigner.address);
+    expect(ethers.verifyMessage(ethers.id(lastRequest.body), signature)).toBe(authSigner.address);
+  });
+
+  it('should send a custom auth header', async () => {
+    const client = new BuilderClient(
+      { name: 'custom', url, auth: 'header', headerName: 'X-Api-Key', headerValue: 'secret' },
+      new Wallet(AUTH_KEY)
+    );
+
+    await client.sendBundle(['0xsigned'], 1);
+
+    expect(lastRequest.headers['x-api-key']).toBe('secret');
+    expect(lastRequest.headers['x-flashbots-signature']).toBeUndefined();
+  });
+
+  it('should report JSON-RPC errors as failed submissions', async () => {
+    responseBody = { jsonrpc: '2.0', id: 1, error: { code: -32000, message: 'bundle rejected' } };
+    const client = new BuilderClient({ name: 'none', url, auth: 'none' }, new Wallet(AUTH_KEY));
+
+    const submission = await client.sendBundle(['0xsigned'], 1);
+
+    expect(submission).toEqual({ builder: 'none', targetBlock: 1, success: false, error: 'bundle rejected' });
+  });
+});
@@ -0,0 +1,342 @@
+import { JsonRpcProvider, Wallet, Interface } from 'ethers';
+import { FlashbotsBundleProvider, FlashbotsBundleTransaction } from '@flashbots/ethers-provider-bundle';
+import { BundleBuilder } from '../../src/rescue/bundle-builder';
+import { GasEstimate, SponsoredGasEstimate } from '../../src/rescue/gas-calculator';
+import { encodeCoinbasePayment } from '../../src/rescue/coinbase-payer';
+import { ERC20_ABI, ERC721_ABI, ERC1155_ABI, MERKLE_DISTRIBUTOR_ABI } from '../../src/rescue/abis';
+
+const COMPROMISED_KEY = '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+const SPONSOR_KEY = '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890';
+const SAFE_ADDRESS = '0xabcdef1234567890abcdef1234567890abcdef12';
+const TOKEN_ADDRESS = '0x1111111111111111111111111111111111111111';
+
+describe('BundleBuilder', () => {
+  let mockProvider: jest.Mocked<JsonRpcProvider>;
+  let wallet: Wallet;
+  let sponsorWallet: Wallet;
+  let bundleBuilder: BundleBuilder;
+
+  beforeEach(() => {
+    mockProvider = {
+      getNetwork: jest.fn().mockResolvedValue({ chainId: 1n }),
+      getTransactionCount: jest.fn(),
+    } as unknown as jest.Mocked<JsonRpcProvider>;
+
+    wallet = new Wallet(COMPROMISED_KEY, mockProvider);
+    sponsorWallet = new Wallet(SPONSOR_KEY, mockProvider);
+    bundleBuilder = new BundleBuilder(wallet, SAFE_ADDRESS);
+
+    mockProvider.getTransactionCount.mockImplementation(async (address) =>
+      address === sponsorWallet.address ? 7 : 3
+    );
+  });
+
+  describe('buildRescueBundle', () => {
+    const gasEstimate: GasEstimate = {
+      gasLimit: BigInt(21000),
+      maxFeePerGas: BigInt('20000000000'),
+      maxPriorityFeePerGas: 0n,
+      totalGasCost: BigInt(56000) * BigInt('20000000000'),
+    };
+
+    it('should append the coinbase payment as the last transaction', async () => {
+      const payerAddress = '0x4444444444444444444444444444444444444444';
+
+      const bundle = await bundleBuilder.buildRescueBundle(1000000n, 900000n, gasEstimate, {
+        payerAddress,
+        amount: 5000n,
+        gasLimit: BigInt(35000),
+      });
+
+      expect(bundle).toHaveLength(2);
+      expect(String(bundle[0].transaction.to).toLowerCase()).toBe(SAFE_ADDRESS);
+      expect(bundle[0].transaction.value).toBe(900000n);
+      expect(bundle[1].transaction.to).toBe(payerAddress);
+      expect(bundle[1].transaction.value).toBe(5000n);
+      expect(bundle[1].transaction.data).toBe(encodeCoinbasePayment());
+      expect(bundle[1].transaction.nonce).toBe(4);
+    });
+
+    it('should sign legacy transactions on legacy fee model chains', async () => {
+      const legacyBuilder = new BundleBuilder(wallet, SAFE_ADDRESS, 'legacy');
+
+      const bundle = await legacyBuilder.buildRescueBundle(1000000n, 900000n, gasEstimate);
+
+      expect(bundle[0].transaction.type).toBe(0);
+      expect(bundle[0].transaction.gasPrice).toBe(gasEstimate.maxFeePerGas);
+      expect(bundle[0].transaction.maxFeePerGas).toBeUndefined();
+    });
+
+    it('should sign with the nonce override instead of reading it', async () => {
+      const bundle = await bundleBuilder.buildRescueBundle(1000000n, 900000n, gasEstimate, {
+        payerAddress: '0x4444444444444444444444444444444444444444',
+        amount: 5000n,
+        gasLimit: BigInt(35000),
+      }, 9);
+
+      expect(bundle[0].transaction.nonce).toBe(9);
+      expect(bundle[1].transaction.nonce).toBe(10);
+      expect(mockProvider.getTransactionCount).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('buildBackrunBundle', () => {
+    const gasEstimate: GasEstimate = {
+      gasLimit: BigInt(21000),
+      maxFeePerGas: BigInt('20000000000'),
+      maxPriorityFeePerGas: BigInt('2000000000'),
+      totalGasCost: BigInt(21000) * BigInt('20000000000'),
+    };
+    const incomingRaw = '0x02f86b0180843b9aca00850ba43b7400825208';
+
+    it('should place the incoming transaction ahead of the sweep', async () => {
+      const bundle = await bundleBuilder.buildBackrunBundle(incomingRaw, 1000000n, 900000n, gasEstimate);
+
+      expect(bundle).toHaveLength(2);
+      expect(bundle[0]).toEqual({ signedTransaction: incomingRaw });
+
+      const sweep = bundle[1] as FlashbotsBundleTransaction;
+      expect(String(sweep.transaction.to).toLowerCase()).toBe(SAFE_ADDRESS);
+      expect(sweep.transaction.value).toBe(900000n);
+      expect(sweep.transaction.nonce).toBe(3);
+    });
+
+    it('should reject raw entries that are not signed hex', async () => {
+      const flashbotsProvider = { signBundle: jest.fn() } as unknown as FlashbotsBundleProvider;
+      const bundle = await bundleBuilder.buildBackrunBundle('not-a-transaction', 1000000n, 900000n, gasEstimate);
+
+      await expect(bundleBuilder.signBundle(flashbotsProvider, bundle))
+        .rejects.toThrow('Invalid raw transaction in bundle');
+      expect(flashbotsProvider.signBundle).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('buildTokenTransferCall', () => {
+    it('should encode a transfer to the safe wallet', () => {
+      const call = bundleBuilder.buildTokenTransferCall(TOKEN_ADDRESS, 1000n);
+      const decoded = new Interface(ERC20_ABI).decodeFunctionData('transfer', call.data);
+
+      expect(call.to).toBe(TOKEN_ADDRESS);
+      expect(decoded[0].toLowerCase()).toBe(SAFE_ADDRESS.toLowerCase());
+      expect(decoded[1]).toBe(1000n);
+    });
+  });
+
+  describe('buildNftTransferCalls', () => {
+    it('should encode one safeTransferFrom per ERC-721 token', () => {
+      const calls = bundleBuilder.buildNftTransferCalls({
+        standard: 'erc721',
+        contract: TOKEN_ADDRESS,
+        tokenIds: [1n, 2n],
+      });
+
+      expect(calls).toHaveLength(2);
+      const decoded = new Interface(ERC721_ABI).decodeFunctionData('safeTransferFrom', calls[1].data);
+      expect(decoded[0]).toBe(wallet.address);
+      expect(decoded[1].toLowerCase()).toBe(SAFE_ADDRESS.toLowerCase());
+      expect(decoded[2]).toBe(2n);
+    });
+
+    it('should encode a single ERC-1155 batch transfer', () => {
+      const calls = bundleBuilder.buildNftTransferCalls({
+        standard: 'erc1155',
+        contract: TOKEN_ADDRESS,
+        tokenIds: [5n, 6n],
+        amounts: [3n, 1n],
+      });
+
+      expect(calls).toHaveLength(1);
+      const decoded = new Interface(ERC1155_ABI).decodeFunctionData('safeBatchTransferFrom', calls[0].data);
+      expect(decoded[2]).toEqual([5n, 6n]);
+      expect(decoded[3]).toEqual([3n, 1n]);
+    });
+
+    it('should require amounts for ERC-1155', () => {
+      expect(() => bundleBuilder.buildNftTransferCalls({
+        standard: 'erc1155',
+        contract: TOKEN_ADDRESS,
+        tokenIds: [5n],
+      })).toThrow('ERC-1155 transfer requires an amount');
+    });
+  });
+
+  describe('buildClaimAndSweepCalls', () => {
+    const DISTRIBUTOR_ADDRESS = '0x3333333333333333333333333333333333333333';
+    const proof = ['0x' + 'ab'.repeat(32)];
+
+    it('should claim for the compromised wallet then transfer to the safe wallet', () => {
+      const calls = bundleBuilder.buildClaimAndSweepCalls({
+        distributor: DISTRIBUTOR_ADDRESS,
+        token: TOKEN_ADDRESS,
+        amount: 500n,
+        index: 9n,
+        proof,
+      });
+
+      expect(calls).toHaveLength(2);
+
+      const claim = new Interface(MERKLE_DISTRIBUTOR_ABI).decodeFunctionData('claim', calls[0].data);
+      expect(calls[0].to).toBe(DISTRIBUTOR_ADDRESS);
+      expect(claim[0]).toBe(9n);
+      expect(claim[1]).toBe(wallet.address);
+      expect(claim[2]).toBe(500n);
+      expect(claim[3]).toEqual(proof);
+
+      const transfer = new Interface(ERC20_ABI).decodeFunctionData('transfer', calls[1].data);
+      expect(calls[1].to).toBe(TOKEN_ADDRESS);
+      expect(transfer[1]).toBe(500n);
+      expect(calls[1].gasLimit).toBe(BigInt(100000));
+    });
+
+    it('should use raw claim calldata when provided', () => {
+      const calls = bundleBuilder.buildClaimAndSweepCalls({
+        distributor: DISTRIBUTOR_ADDRESS,
+        token: TOKEN_ADDRESS,
+        amount: 500n,
+        claimCalldata: '0xdeadbeef',
+        transferGasLimit: BigInt(80000),
+      });
+
+      expect(calls[0].data).toBe('0xdeadbeef');
+      expect(calls[1].gasLimit).toBe(BigInt(80000));
+    });
+  });
+
+  describe('buildSponsoredBundle', () => {
+    const gasEstimate: SponsoredGasEstimate = {
+      callGasLimits: [BigInt(60000)],
+      sweepGasLimit: BigInt(21000),
+      fundingGasLimit: BigInt(21000),
+      maxFeePerGas: BigInt('30000000000'),
+      maxPriorityFeePerGas: BigInt('2000000000'),
+      fundingAmount: BigInt(81000) * BigInt('30000000000'),
+      totalGasCost: BigInt(102000) * BigInt('30000000000'),
+    };
+
+    it('should order funding, calls and dust sweep with sequential nonces', async () => {
+      const call = bundleBuilder.buildTokenTransferCall(TOKEN_ADDRESS, 1000n);
+
+      const bundle = await bundleBuilder.buildSponsoredBundle(sponsorWallet, [call], gasEstimate, 5000n);
+
+      expect(bundle).toHaveLength(3);
+
+      expect(bundle[0].signer).toBe(sponsorWallet);
+      expect(bundle[0].transaction.to).toBe(wallet.address);
+      expect(bundle[0].transaction.value).toBe(gasEstimate.fundingAmount);
+      expect(bundle[0].transaction.nonce).toBe(7);
+
+      expect(bundle[1].signer).toBe(wallet);
+      expect(bundle[1].transaction.to).toBe(TOKEN_ADDRESS);
+      expect(bundle[1].transaction.gasLimit).toBe(BigInt(60000));
+      expect(bundle[1].transaction.nonce).toBe(3);
+
+      expect(bundle[2].transaction.to).toBe(SAFE_ADDRESS);
+      expect(bundle[2].transaction.value).toBe(5000n);
+      expect(bundle[2].transaction.nonce).toBe(4);
+    });
+
+    it('should skip the dust sweep when there is no dust', async () => {
+      const call = bundleBuilder.buildTokenTransferCall(TOKEN_ADDRESS, 1000n);
+
+      const bundle = await bundleBuilder.buildSponsoredBundle(sponsorWallet, [call], gasEstimate, 0n);
+
+      expect(bundle).toHaveLength(2);
+    });
+
+    it('should sign the compromised wallet transactions from its confirmed nonce', async () => {
+      mockProvider.getTransactionCount.mockImplementation(async (address, blockTag) =>
+        address === sponsorWallet.address ? 7 : blockTag === 'latest' ? 3 : 5
+      );
+      const call = bundleBuilder.buildTokenTransferCall(TOKEN_ADDRESS, 1000n);
+
+      const bundle = await bundleBuilder.buildSponsoredBundle(sponsorWallet, [call], gasEstimate, 5000n);
+
+      expect(bundle[1].transaction.nonce).toBe(3);
+      expect(bundle[2].transaction.nonce).toBe(4);
+    });
+
+    it('should sign with the nonce override when given', async () => {
+      const call = bundleBuilder.buildTokenTransferCall(TOKEN_ADDRESS, 1000n);
+
+      const bundle = await bundleBuilder.buildSponsoredBundle(sponsorWallet, [call], gasEstimate, 5000n, 9);
+
+      expect(bundle[0].transaction.nonce).toBe(7);
+      expect(bundle[1].transaction.nonce).toBe(9);
+      expect(bundle[2].transaction.nonce).toBe(10);
+    });
+  });
+
+  describe('simulateBundle', () => {
+    let mockFlashbots: jest.Mocked<FlashbotsBundleProvider>;
+
+    beforeEach(() => {
+      mockFlashbots = {
+        simulate: jest.fn(),
+      } as unknown as jest.Mocked<FlashbotsBundleProvider>;
+    });
+
+    it('should report gas used, coinbase diff and effective gas price', async () => {
+      mockFlashbots.simulate.mockResolvedValue({
+        bundleGasPrice: BigInt('3000000000'),
+        bundleHash: '0xbundle',
+        coinbaseDiff: BigInt('63000000000000'),
+        ethSentToCoinbase: 0n,
+        gasFees: BigInt('63000000000000'),
+        results: [],
+        totalGasUsed: 21000,
+        stateBlockNumber: 99,
+      });
+
+      const result = await bundleBuilder.simulateBundle(mockFlashbots, ['0xsigned'], 100);
+
+      expect(mockFlashbots.simulate).toHaveBeenCalledWith(['0xsigned'], 100);
+      expect(result).toEqual({
+        success: true,
+        blockNumber: 100,
+        gasUsed: 21000,
+        coinbaseDiff: BigInt('63000000000000'),
+        effectiveGasPrice: BigInt('3000000000'),
+      });
+    });
+
+    it('should surface the revert reason of the first reverting transaction', async () => {
+      const revert = {
+        txHash: '0xdead',
+        gasUsed: 30000,
+        gasFees: '0',
+        gasPrice: '0',
+        toAddress: TOKEN_ADDRESS,
+        fromAddress: wallet.address,
+        coinbaseDiff: '0',
+        error: 'execution reverted',
+        revert: 'ERC20: transfer amount exceeds balance',
+      };
+      mockFlashbots.simulate.mockResolvedValue({
+        bundleGasPrice: 0n,
+        bundleHash: '0xbundle',
+        coinbaseDiff: 0n,
+        ethSentToCoinbase: 0n,
+        gasFees: 0n,
+        results: [revert],
+        totalGasUsed: 30000,
+        stateBlockNumber: 99,
+        firstRevert: revert,
+      });
+
+      const result = await bundleBuilder.simulateBundle(mockFlashbots, ['0xsigned'], 100);
+
+      expect(result.success).toBe(false);
+      expect(result.revertReason).toBe('ERC20: transfer amount exceeds balance');
+    });
+
+    it('should fail when the relay returns an error', async () => {
+      mockFlashbots.simulate.mockResolvedValue({
+        error: { message: 'nonce too low', code: -32000 },
+      });
+
+      const result = await bundleBuilder.simulateBundle(mockFlashbots, ['0xsigned'], 100);
+
+      expect(result).toEqual({ success: false, blockNumber: 100, error: 'nonce too low' });
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { getChainConfig, resolveRelayUrl, explorerTxUrl, explorerAddressUrl } from '../../src/config/chains';
+
+describe('Chain registry', () => {
+  describe('getChainConfig', () => {
+    it('should resolve known chains from a bigint chainId', () => {
+      const sepolia = getChainConfig(11155111n);
+
+      expect(sepolia.name).toBe('sepolia');
+      expect(sepolia.displayName).toBe('Sepolia Testnet');
+      expect(sepolia.relayUrl).toBe('https://relay-sepolia.flashbots.net');
+      expect(sepolia.feeModel).toBe('eip1559');
+    });
+
+    it('should use the legacy fee model for BNB Smart Chain', () => {
+      const bsc = getChainConfig(56);
+
+      expect(bsc.feeModel).toBe('legacy');
+      expect(bsc.nativeSymbol).toBe('BNB');
+      expect(bsc.supportsSimulation).toBe(false);
+    });
+
+    it('should route rollups through their sequencer with an L1 fee model', () => {
+      expect(getChainConfig(8453)).toMatchObject({ l1FeeModel: 'op-stack', sequencerUrl: 'https://mainnet-sequencer.base.org' });
+      expect(getChainConfig(42161)).toMatchObject({ l1FeeModel: 'arbitrum' });
+    });
+
+    it('should fall back to a generic chain without a relay', () => {
+      const chain = getChainConfig(31337);
+
+      expect(chain.chainId).toBe(31337);
+      expect(chain.relayUrl).toBeUndefined();
+      expect(chain.feeModel).toBe('eip1559');
+    });
+  });
+
+  describe('resolveRelayUrl', () => {
+    it('should default to the chain relay', () => {
+      expect(resolveRelayUrl(getChainConfig(17000))).toBe('https://relay-holesky.flashbots.net');
+    });
+
+    it('should prefer an explicit override', () => {
+      expect(resolveRelayUrl(getChainConfig(1), 'https://rpc.example.com')).toBe('https://rpc.example.com');
+    });
+
+    it('should require an override when the chain has no known relay', () => {
+      expect(() => resolveRelayUrl(getChainConfig(137))).toThrow('set FLASHBOTS_RPC_URL');
+    });
+  });
+
+  describe('explorer links', () => {
+    it('should build transaction and address links', () => {
+      const mainnet = getChainConfig(1);
+
+      expect(explorerTxUrl(mainnet, '0xabc')).toBe('https://etherscan.io/tx/0xabc');
+      expect(explorerAddressUrl(mainnet, '0xdef')).toBe('https://etherscan.io/address/0xdef');
+    });
+
+    it('should return undefined when the chain has no explorer', () => {
+      expect(explorerTxUrl(getChainConfig(31337), '0xabc')).toBeUndefined();
+    });
+  });
+});
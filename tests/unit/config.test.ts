@@ -1,4 +1,11 @@
-import { loadConfig, validateConfig } from '../../src/config/config';
+import {
+  enabledNotifiers,
+  loadConfig,
+  validateConfig,
+  parseBuilderEndpoints,
+  parseChannelSeverities,
+  parseDedupWindows,
+} from '../../src/config/config';
 
 describe('Config', () => {
   const originalEnv = process.env;
@@ -34,7 +41,34 @@ describe('Config', () => {
 
       expect(config.checkIntervalMs).toBe(12000);
       expect(config.targetBlocks).toBe(5);
-      expect(config.flashbotsRpcUrl).toBe('https://relay.flashbots.net');
+      expect(config.flashbotsRpcUrl).toBeUndefined(); // Resolved from the chain at startup
+    });
+
+    it('should parse token addresses as a comma-separated list', () => {
+      process.env.RPC_URL = 'https://eth-mainnet.example.com';
+      process.env.COMPROMISED_PRIVATE_KEY = '0x1234567890abcdef';
+      process.env.SAFE_WALLET_ADDRESS = '0xabcdef1234567890abcdef1234567890abcdef12';
+      process.env.TOKEN_ADDRESSES = '0x1111111111111111111111111111111111111111, 0x2222222222222222222222222222222222222222,';
+
+      const config = loadConfig();
+
+      expect(config.tokenAddresses).toEqual([
+        '0x1111111111111111111111111111111111111111',
+        '0x2222222222222222222222222222222222222222',
+      ]);
+    });
+
+    it('should not require a single wallet when WALLETS_FILE is set', () => {
+      process.env.RPC_URL = 'https://eth-mainnet.example.com';
+      process.env.WALLETS_FILE = 'wallets.json';
+      delete process.env.COMPROMISED_PRIVATE_KEY;
+      delete process.env.SAFE_WALLET_ADDRESS;
+
+      const config = loadConfig();
+
+      expect(config.walletsFile).toBe('wallets.json');
+      expect(config.compromisedPrivateKey).toBe('');
+      expect(() => validateConfig(config)).not.toThrow();
     });
 
     it('should throw error for missing required variables', () => {
@@ -60,6 +94,22 @@ describe('Config', () => {
       expect(() => validateConfig(config)).not.toThrow();
     });
 
+    it('should reject single-wallet rescues combined with WALLETS_FILE', () => {
+      const config = {
+        rpcUrl: 'https://eth-mainnet.example.com',
+        compromisedPrivateKey: '',
+        safeWalletAddress: '',
+        checkIntervalMs: 12000,
+        minRescueAmountWei: BigInt('5000000000000000'),
+        targetBlocks: 5,
+        maxPriorityFeeGwei: 2,
+        walletsFile: 'wallets.json',
+        tokenAddresses: ['0x1111111111111111111111111111111111111111'],
+      };
+
+      expect(() => validateConfig(config)).toThrow('TOKEN_ADDRESSES is not supported with WALLETS_FILE');
+    });
+
     it('should reject invalid RPC URL', () => {
       const config = {
         rpcUrl: 'invalid-url',
@@ -134,5 +184,212 @@ describe('Config', () => {
 
       expect(() => validateConfig(config)).toThrow('TARGET_BLOCKS must be between 1 and 10');
     });
+
+    it('should require a sponsor wallet for token rescue', () => {
+      const config = {
+        rpcUrl: 'https://eth-mainnet.example.com',
+        flashbotsRpcUrl: 'https://relay.flashbots.net',
+        compromisedPrivateKey: '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
+        safeWalletAddress: '0xabcdef1234567890abcdef1234567890abcdef12',
+        checkIntervalMs: 12000,
+        minRescueAmountWei: BigInt('5000000000000000'),
+        targetBlocks: 5,
+        maxPriorityFeeGwei: 2,
+        tokenAddresses: ['0x1111111111111111111111111111111111111111'],
+      };
+
+      expect(() => validateConfig(config)).toThrow('SPONSOR_PRIVATE_KEY is required');
+    });
+
+    it('should reject a sponsor key equal to the compromised key', () => {
+      const config = {
+        rpcUrl: 'https://eth-mainnet.example.com',
+        flashbotsRpcUrl: 'https://relay.flashbots.net',
+        compromisedPrivateKey: '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
+        safeWalletAddress: '0xabcdef1234567890abcdef1234567890abcdef12',
+        checkIntervalMs: 12000,
+        minRescueAmountWei: BigInt('5000000000000000'),
+        targetBlocks: 5,
+        maxPriorityFeeGwei: 2,
+        sponsorPrivateKey: '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
+      };
+
+      expect(() => validateConfig(config)).toThrow('SPONSOR_PRIVATE_KEY must differ');
+    });
+
+    it('should reject an invalid metrics port', () => {
+      const config = {
+        rpcUrl: 'https://eth-mainnet.example.com',
+        compromisedPrivateKey: '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
+        safeWalletAddress: '0xabcdef1234567890abcdef1234567890abcdef12',
+        checkIntervalMs: 12000,
+        minRescueAmountWei: BigInt('5000000000000000'),
+        targetBlocks: 5,
+        maxPriorityFeeGwei: 2,
+        metricsPort: 70000,
+      };
+
+      expect(() => validateConfig(config)).toThrow('METRICS_PORT must be a port number');
+    });
+
+    it('should require a control API token with the control API port', () => {
+      const config = {
+        rpcUrl: 'https://eth-mainnet.example.com',
+        compromisedPrivateKey: '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
+        safeWalletAddress: '0xabcdef1234567890abcdef1234567890abcdef12',
+        checkIntervalMs: 12000,
+        minRescueAmountWei: BigInt('5000000000000000'),
+        targetBlocks: 5,
+        maxPriorityFeeGwei: 2,
+        controlApiPort: 9465,
+        controlApiToken: 'short',
+      };
+
+      expect(() => validateConfig(config)).toThrow('CONTROL_API_TOKEN of at least 16 characters is required');
+    });
+
+    it('should require a Telegram bot for Telegram commands', () => {
+      const config = {
+        rpcUrl: 'https://eth-mainnet.example.com',
+        compromisedPrivateKey: '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
+        safeWalletAddress: '0xabcdef1234567890abcdef1234567890abcdef12',
+        checkIntervalMs: 12000,
+        minRescueAmountWei: BigInt('5000000000000000'),
+        targetBlocks: 5,
+        maxPriorityFeeGwei: 2,
+        telegramCommands: true,
+      };
+
+      expect(() => validateConfig(config)).toThrow('required when TELEGRAM_COMMANDS is enabled');
+    });
+
+    it('should reject an unknown approval timeout policy', () => {
+      const config = {
+        rpcUrl: 'https://eth-mainnet.example.com',
+        compromisedPrivateKey: '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
+        safeWalletAddress: '0xabcdef1234567890abcdef1234567890abcdef12',
+        checkIntervalMs: 12000,
+        minRescueAmountWei: BigInt('5000000000000000'),
+        targetBlocks: 5,
+        maxPriorityFeeGwei: 2,
+        telegramBotToken: 'token',
+        telegramChatId: '123',
+        approvalThresholdWei: BigInt('10000000000000000000'),
+        approvalTimeoutMs: 300000,
+        approvalTimeoutPolicy: 'wait' as 'reject',
+      };
+
+      expect(() => validateConfig(config)).toThrow('Invalid APPROVAL_TIMEOUT_POLICY');
+    });
+
+    it('should reject a listed notifier without its settings', () => {
+      const config = {
+        rpcUrl: 'https://eth-mainnet.example.com',
+        compromisedPrivateKey: '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
+        safeWalletAddress: '0xabcdef1234567890abcdef1234567890abcdef12',
+        checkIntervalMs: 12000,
+        minRescueAmountWei: BigInt('5000000000000000'),
+        targetBlocks: 5,
+        maxPriorityFeeGwei: 2,
+        notifiers: ['discord' as const, 'slack' as const],
+        discordWebhookUrl: 'https://discord.com/api/webhooks/1/abc',
+      };
+
+      expect(() => validateConfig(config)).toThrow('NOTIFIERS includes slack but its settings are missing');
+    });
+
+    it('should enable every configured notifier when NOTIFIERS is unset', () => {
+      const config = {
+        rpcUrl: 'https://eth-mainnet.example.com',
+        compromisedPrivateKey: '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
+        safeWalletAddress: '0xabcdef1234567890abcdef1234567890abcdef12',
+        checkIntervalMs: 12000,
+        minRescueAmountWei: BigInt('5000000000000000'),
+        targetBlocks: 5,
+        maxPriorityFeeGwei: 2,
+        telegramBotToken: 'token',
+        telegramChatId: '123',
+        webhookUrl: 'https://alerts.example.com/rescue',
+        smtpHost: 'smtp.example.com',
+        emailFrom: 'bot@example.com',
+        emailTo: [],
+      };
+
+      expect(enabledNotifiers(config)).toEqual(['telegram', 'webhook']);
+      expect(enabledNotifiers({ ...config, notifiers: ['webhook'] })).toEqual(['webhook']);
+    });
+
+    it('should reject an unknown minimum notification severity', () => {
+      const config = {
+        rpcUrl: 'https://eth-mainnet.example.com',
+        compromisedPrivateKey: '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
+        safeWalletAddress: '0xabcdef1234567890abcdef1234567890abcdef12',
+        checkIntervalMs: 12000,
+        minRescueAmountWei: BigInt('5000000000000000'),
+        targetBlocks: 5,
+        maxPriorityFeeGwei: 2,
+        notifyMinSeverity: 'error' as 'critical',
+      };
+
+      expect(() => validateConfig(config)).toThrow('Invalid NOTIFY_MIN_SEVERITY');
+    });
+  });
+
+  describe('parseChannelSeverities', () => {
+    it('should parse channel:severity entries', () => {
+      expect(parseChannelSeverities('email:critical, slack:warning')).toEqual({ email: 'critical', slack: 'warning' });
+      expect(parseChannelSeverities('')).toEqual({});
+    });
+
+    it('should reject unknown channels and severities', () => {
+      expect(() => parseChannelSeverities('pager:critical')).toThrow('Invalid NOTIFY_CHANNEL_SEVERITY entry: pager:critical');
+      expect(() => parseChannelSeverities('email:urgent')).toThrow('Invalid NOTIFY_CHANNEL_SEVERITY entry: email:urgent');
+    });
+  });
+
+  describe('parseDedupWindows', () => {
+    it('should parse event-type:seconds entries into milliseconds', () => {
+      expect(parseDedupWindows('connection-issue:600,rescue-failed:0')).toEqual({
+        'connection-issue': 600000,
+        'rescue-failed': 0,
+      });
+    });
+
+    it('should reject unknown event types and bad durations', () => {
+      expect(() => parseDedupWindows('outage:60')).toThrow('Invalid NOTIFY_DEDUP_WINDOWS entry: outage:60');
+      expect(() => parseDedupWindows('attacker-activity:1m')).toThrow('Invalid NOTIFY_DEDUP_WINDOWS entry');
+    });
+  });
+
+  describe('parseBuilderEndpoints', () => {
+    it('should parse each auth style', () => {
+      const endpoints = parseBuilderEndpoints(
+        'titan|https://rpc.titanbuilder.xyz|flashbots,' +
+        'beaver|https://rpc.beaverbuild.org,' +
+        'custom|https://builder.example.com|header:X-Api-Key=secret=1'
+      );
+
+      expect(endpoints).toEqual([
+        { name: 'titan', url: 'https://rpc.titanbuilder.xyz', auth: 'flashbots' },
+        { name: 'beaver', url: 'https://rpc.beaverbuild.org', auth: 'none' },
+        {
+          name: 'custom',
+          url: 'https://builder.example.com',
+          auth: 'header',
+          headerName: 'X-Api-Key',
+          headerValue: 'secret=1',
+        },
+      ]);
+    });
+
+    it('should return an empty list when unset', () => {
+      expect(parseBuilderEndpoints('')).toEqual([]);
+    });
+
+    it('should reject unknown auth styles', () => {
+      expect(() => parseBuilderEndpoints('x|https://x.example.com|basic')).toThrow(
+        'Invalid BUILDER_ENDPOINTS auth style for x'
+      );
+    });
   });
 });
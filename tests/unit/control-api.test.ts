@@ -0,0 +1,79 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { startControlApi } from '../../src/control/control-api';
+import { RescueController } from '../../src/control/rescue-controller';
+
+describe('startControlApi', () => {
+  const TOKEN = 'test-token-0123456789';
+
+  let server: Server;
+  let baseUrl: string;
+  let controller: {
+    getStatus: jest.Mock;
+    pause: jest.Mock;
+    resume: jest.Mock;
+    rescueNow: jest.Mock;
+  };
+
+  beforeAll(async () => {
+    controller = {
+      getStatus: jest.fn(),
+      pause: jest.fn(),
+      resume: jest.fn(),
+      rescueNow: jest.fn(),
+    };
+    server = await startControlApi(controller as unknown as RescueController, { port: 0, host: '127.0.0.1', token: TOKEN });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  const request = (method: string, path: string, body?: string, token = TOKEN) =>
+    fetch(`${baseUrl}${path}`, { method, body, headers: { Authorization: `Bearer ${token}` } });
+
+  it('should reject requests without the token', async () => {
+    const response = await request('GET', '/status', undefined, 'wrong');
+
+    expect(response.status).toBe(401);
+    expect(controller.getStatus).not.toHaveBeenCalled();
+  });
+
+  it('should return status with bigints as strings', async () => {
+    controller.getStatus.mockReturnValue({ paused: false, startedAt: 1, wallets: [{ lastBalance: 10n ** 18n }] });
+
+    const response = await request('GET', '/status');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ paused: false, startedAt: 1, wallets: [{ lastBalance: '1000000000000000000' }] });
+  });
+
+  it('should pause and resume', async () => {
+    expect(await (await request('POST', '/pause')).json()).toEqual({ paused: true });
+    expect(await (await request('POST', '/resume')).json()).toEqual({ paused: false });
+    expect(controller.pause).toHaveBeenCalled();
+    expect(controller.resume).toHaveBeenCalled();
+  });
+
+  it('should start a manual rescue for the named wallet', async () => {
+    controller.rescueNow.mockResolvedValue({ accepted: true, wallet: '0xabc', balance: 5n });
+
+    const response = await request('POST', '/rescue', JSON.stringify({ wallet: 'main' }));
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual({ accepted: true, wallet: '0xabc', balance: '5' });
+    expect(controller.rescueNow).toHaveBeenCalledWith('main');
+  });
+
+  it('should answer 409 when the rescue is refused and 400 for a bad body', async () => {
+    controller.rescueNow.mockResolvedValue({ accepted: false, error: 'Rescue already in progress' });
+
+    expect((await request('POST', '/rescue')).status).toBe(409);
+    expect((await request('POST', '/rescue', 'not json')).status).toBe(400);
+  });
+
+  it('should answer 404 for unknown endpoints', async () => {
+    expect((await request('GET', '/pause')).status).toBe(404);
+  });
+});
@@ -0,0 +1,341 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FlashbotsBundleProvider } from '@flashbots/ethers-provider-bundle';
+import { JsonRpcProvider, keccak256, makeError, Wallet } from 'ethers';
+import { getChainConfig } from '../../src/config/chains';
+import { ScheduledUnlock } from '../../src/config/schedule-file';
+import { ApprovalGate } from '../../src/control/approval-gate';
+import { BuilderClient } from '../../src/rescue/builder-client';
+import { BundleBuilder } from '../../src/rescue/bundle-builder';
+import { FlashbotsRescue, FlashbotsRescueOptions } from '../../src/rescue/flashbots-rescue';
+import { GasCalculator } from '../../src/rescue/gas-calculator';
+import { SequencerClient } from '../../src/rescue/sequencer-client';
+import { AuditJournal, readAuditJournal } from '../../src/utils/audit-journal';
+
+describe('FlashbotsRescue', () => {
+  const SAFE = '0x0000000000000000000000000000000000000002';
+  const WALLET_KEY = `0x${'11'.repeat(32)}`;
+  const ETH = 10n ** 18n;
+
+  const unlock: ScheduledUnlock = {
+    name: 'vesting-cliff',
+    unlockBlock: 120,
+    windowBlocks: 2,
+    expectedAmount: 5n * ETH,
+  };
+
+  let provider: { getBalance: jest.Mock; getBlockNumber: jest.Mock; getBlock: jest.Mock };
+  let gate: jest.Mocked<ApprovalGate>;
+
+  beforeEach(() => {
+    provider = {
+      getBalance: jest.fn().mockResolvedValue(ETH / 10n),
+      getBlockNumber: jest.fn().mockResolvedValue(100),
+      // No base fee to project from
+      getBlock: jest.fn().mockResolvedValue(null),
+    };
+    gate = {
+      threshold: ETH,
+      requestApproval: jest.fn().mockResolvedValue({ approved: false, decidedBy: '@bob', userId: 42, timedOut: false }),
+    };
+
+    jest.spyOn(GasCalculator.prototype, 'calculateGasParams').mockResolvedValue({
+      gasLimit: 21000n,
+      maxFeePerGas: 40n * 10n ** 9n,
+      maxPriorityFeePerGas: 2n * 10n ** 9n,
+      totalGasCost: 840000n * 10n ** 9n,
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const createRescue = (
+    options: FlashbotsRescueOptions = {},
+    wallet = new Wallet(WALLET_KEY)
+  ) => new FlashbotsRescue(
+    provider as unknown as JsonRpcProvider,
+    wallet,
+    SAFE,
+    10n ** 15n,
+    5,
+    2,
+    undefined,
+    {
+      // A sequencer route needs no relay handshake
+      chain: { ...getChainConfig(1n), sequencerUrl: 'http://127.0.0.1:1' },
+      approvalGate: gate,
+      ...options,
+    }
+  );
+
+  // A signer that can get as far as submitting the sweep
+  const createChainRescue = (options: FlashbotsRescueOptions = {}) => {
+    const chainProvider = Object.assign(provider, {
+      getNetwork: jest.fn().mockResolvedValue({ chainId: 1n }),
+      getTransactionCount: jest.fn().mockResolvedValue(3),
+    }) as unknown as JsonRpcProvider;
+    return createRescue(options, new Wallet(WALLET_KEY, chainProvider));
+  };
+
+  describe('executeScheduledRescue', () => {
+    it('should hold a scheduled ETH sweep above the threshold for approval', async () => {
+      const result = await createRescue().executeScheduledRescue(unlock);
+
+      expect(gate.requestApproval).toHaveBeenCalledWith(expect.objectContaining({
+        balance: unlock.expectedAmount + ETH / 10n,
+        destinations: [SAFE],
+        currentBlock: 100,
+      }));
+      expect(result).toMatchObject({ success: false, error: 'Rescue rejected by @bob' });
+    });
+
+    it('should ask once per unlock however often the rescue is re-armed', async () => {
+      const rescue = createRescue();
+
+      await rescue.executeScheduledRescue(unlock);
+      const rearmed = await rescue.executeScheduledRescue(unlock);
+
+      expect(gate.requestApproval).toHaveBeenCalledTimes(1);
+      expect(rearmed.error).toBe('Rescue rejected by @bob');
+    });
+
+    it('should go straight to the sweep for unlocks below the threshold', async () => {
+      const result = await createRescue().executeScheduledRescue({ ...unlock, expectedAmount: ETH / 2n });
+
+      // The signer has no provider, so the sweep itself fails once it asks for a nonce
+      expect(gate.requestApproval).not.toHaveBeenCalled();
+      expect(result.error).toContain('missing provider');
+    });
+
+    it('should stop adding the expected amount once the unlock has landed', async () => {
+      const build = jest.spyOn(BundleBuilder.prototype, 'buildRescueBundle').mockResolvedValue([]);
+      jest.spyOn(BundleBuilder.prototype, 'signTransactions').mockResolvedValue([`0x${'02'.repeat(40)}`]);
+      jest.spyOn(SequencerClient.prototype, 'sendRawTransaction').mockRejectedValue(new Error('nonce too high'));
+      const rescue = createChainRescue();
+      const smallUnlock = { ...unlock, expectedAmount: ETH / 2n };
+
+      await rescue.executeScheduledRescue(smallUnlock);
+      provider.getBalance.mockResolvedValue(ETH / 10n + ETH / 2n);
+      await rescue.executeScheduledRescue(smallUnlock);
+
+      expect(build.mock.calls.map(call => call[0])).toEqual([ETH / 10n + ETH / 2n, ETH / 10n + ETH / 2n]);
+    });
+  });
+
+  describe('executeBackrunRescue', () => {
+    it('should not backrun a deposit that takes the balance past the approval threshold', async () => {
+      provider.getBalance.mockResolvedValue(6n * ETH / 10n);
+
+      const result = await createRescue().executeBackrunRescue({
+        hash: `0x${'cd'.repeat(32)}`,
+        from: '0x0000000000000000000000000000000000000003',
+        to: new Wallet(WALLET_KEY).address,
+        nonce: 0,
+        value: ETH / 2n,
+        gasLimit: 21000n,
+        rawTransaction: '0x02',
+        seenAt: Date.now(),
+      });
+
+      expect(result).toMatchObject({ success: false, error: 'Backrun sweep needs approval' });
+      expect(gate.requestApproval).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sweep pricing', () => {
+    const GWEI = 10n ** 9n;
+    // Buffered sweeps keep 10% of the 840000 gwei gas cost back on top of it
+    const BUFFERED_GAS = 924000n * GWEI;
+
+    let sweepAmounts: bigint[];
+
+    beforeEach(() => {
+      sweepAmounts = [];
+      jest.spyOn(BundleBuilder.prototype, 'buildRescueBundle').mockImplementation(async (_balance, sweepAmount) => {
+        sweepAmounts.push(sweepAmount);
+        return [];
+      });
+      jest.spyOn(BundleBuilder.prototype, 'signTransactions').mockResolvedValue([`0x${'02'.repeat(40)}`]);
+      jest.spyOn(SequencerClient.prototype, 'sendRawTransaction').mockRejectedValue(new Error('sequencer down'));
+    });
+
+    it('should sign the buffered sweep when no base fee projection is available', async () => {
+      jest.spyOn(GasCalculator.prototype, 'projectBaseFees').mockResolvedValue(undefined);
+
+      await createChainRescue().executeRescue(ETH / 10n);
+
+      expect(sweepAmounts).toEqual([ETH / 10n - BUFFERED_GAS]);
+    });
+
+    it('should judge viability on the buffered sweep it would sign without a projection', async () => {
+      jest.spyOn(GasCalculator.prototype, 'projectBaseFees').mockResolvedValue(undefined);
+
+      // Clears the 0.001 ETH minimum exactly, but not once the buffer is held back
+      const result = await createChainRescue().executeRescue(1880000n * GWEI);
+
+      expect(result).toMatchObject({ success: false, error: 'Rescue not economically viable' });
+      expect(sweepAmounts).toEqual([]);
+    });
+
+    it('should price legacy chains with the buffered sweep', async () => {
+      const rescue = createChainRescue({ chain: { ...getChainConfig(56n), sequencerUrl: 'http://127.0.0.1:1' } });
+
+      const rejected = await rescue.executeRescue(1880000n * GWEI);
+      await rescue.executeRescue(ETH / 10n);
+
+      expect(rejected.error).toBe('Rescue not economically viable');
+      expect(sweepAmounts).toEqual([ETH / 10n - BUFFERED_GAS]);
+    });
+
+    it('should show approvers the amount it signs', async () => {
+      jest.spyOn(GasCalculator.prototype, 'projectBaseFees').mockResolvedValue(undefined);
+      gate.requestApproval.mockResolvedValue({ approved: true, decidedBy: '@alice', userId: 7, timedOut: false });
+      provider.getBalance.mockResolvedValue(2n * ETH);
+
+      await createChainRescue().executeRescue(2n * ETH);
+
+      expect(gate.requestApproval).toHaveBeenCalledWith(expect.objectContaining({
+        sweepAmount: 2n * ETH - BUFFERED_GAS,
+      }));
+      expect(sweepAmounts).toEqual([2n * ETH - BUFFERED_GAS]);
+    });
+  });
+
+  describe('relay submissions', () => {
+    const SIGNED = `0x${'02'.repeat(40)}`;
+
+    it('should find a bundle a builder landed after the relay rejected it', async () => {
+      jest.spyOn(FlashbotsBundleProvider, 'create').mockResolvedValue({
+        sendRawBundle: jest.fn().mockResolvedValue({ error: { message: 'bundle rejected', code: -32000 } }),
+      } as unknown as FlashbotsBundleProvider);
+      jest.spyOn(BuilderClient.prototype, 'sendBundle').mockImplementation(async (_bundle, targetBlock) => ({
+        builder: 'beaverbuild', targetBlock, success: true, bundleHash: '0xbeef',
+      }));
+      jest.spyOn(BundleBuilder.prototype, 'buildRescueBundle').mockResolvedValue([]);
+      jest.spyOn(BundleBuilder.prototype, 'signBundle').mockResolvedValue([SIGNED]);
+      provider.getBlockNumber.mockResolvedValueOnce(100).mockResolvedValue(105);
+      const getTransactionReceipt = jest.fn().mockResolvedValue({ status: 1, blockNumber: 101 });
+
+      const rescue = createChainRescue({
+        chain: { ...getChainConfig(1n), supportsSimulation: false },
+        builderEndpoints: [{ name: 'beaverbuild', url: 'https://rpc.beaverbuild.org', auth: 'none' }],
+      });
+      Object.assign(provider, { getTransactionReceipt });
+      const result = await rescue.executeRescue(ETH / 10n);
+
+      expect(getTransactionReceipt).toHaveBeenCalledWith(keccak256(SIGNED));
+      expect(result).toMatchObject({ success: true, txHash: keccak256(SIGNED), blockNumber: 101 });
+      expect(result.nonceConflicts).toBeUndefined();
+    });
+  });
+
+  describe('audit journal', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'flashbots-rescue-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should keep the events of concurrent rescues under their own rescue ID', async () => {
+      const filePath = path.join(tmpDir, 'audit.jsonl');
+      const rescue = createRescue({ auditJournal: new AuditJournal(filePath) });
+
+      // Hold both approvals open so the second rescue starts while the first is still running
+      const decide: Array<() => void> = [];
+      gate.requestApproval.mockImplementation(() => new Promise(resolve => decide.push(
+        () => resolve({ approved: false, decidedBy: '@bob', userId: 42, timedOut: false })
+      )));
+
+      const first = rescue.executeScheduledRescue(unlock);
+      const second = rescue.executeScheduledRescue({ ...unlock, name: 'team-unlock' });
+      while (decide.length < 2) {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+      decide.forEach(resolve => resolve());
+      const results = await Promise.all([first, second]);
+
+      const rescueIds = results.map(result => result.rescueId);
+      expect(new Set(rescueIds).size).toBe(2);
+
+      const events = readAuditJournal(filePath);
+      for (const rescueId of rescueIds) {
+        expect(events.filter(event => event.rescueId === rescueId).map(event => event.type)).toEqual([
+          'rescue-started',
+          'approval-requested',
+          'approval-decided',
+          'rescue-finished',
+        ]);
+      }
+      const requestedIds = gate.requestApproval.mock.calls.map(([request]) => request.rescueId);
+      expect(requestedIds.sort()).toEqual([...rescueIds].sort());
+    });
+
+    it('should journal a sequencer transaction that times out as still in flight', async () => {
+      const filePath = path.join(tmpDir, 'audit.jsonl');
+      jest.spyOn(BundleBuilder.prototype, 'buildRescueBundle').mockResolvedValue([]);
+      const signed = await new Wallet(WALLET_KEY).signTransaction({
+        to: SAFE, value: 1n, gasLimit: 21000n, gasPrice: 1n, nonce: 3, chainId: 1n,
+      });
+      jest.spyOn(BundleBuilder.prototype, 'signTransactions').mockResolvedValue([signed]);
+      jest.spyOn(SequencerClient.prototype, 'sendRawTransaction').mockResolvedValue(keccak256(signed));
+      const rescue = createChainRescue({ auditJournal: new AuditJournal(filePath) });
+      Object.assign(provider, {
+        waitForTransaction: jest.fn().mockRejectedValue(makeError('timeout', 'TIMEOUT', { operation: 'wait' })),
+      });
+
+      const result = await rescue.executeRescue(ETH / 10n);
+
+      expect(result).toMatchObject({ success: false, error: 'Transaction not confirmed before timeout' });
+      expect(readAuditJournal(filePath).find(event => event.type === 'resolution')?.data).toMatchObject({
+        included: false,
+        inFlight: true,
+      });
+    });
+  });
+
+  describe('sponsored rescues', () => {
+    const TOKEN = '0x0000000000000000000000000000000000000007';
+
+    it('should rebuild the bundle against the new nonce when another transaction takes it', async () => {
+      let confirmedNonce = 3;
+      const chainProvider = Object.assign(provider, {
+        getNetwork: jest.fn().mockResolvedValue({ chainId: 1n }),
+        getTransactionCount: jest.fn(async () => confirmedNonce),
+      }) as unknown as JsonRpcProvider;
+
+      jest.spyOn(GasCalculator.prototype, 'calculateSponsoredGasParams').mockResolvedValue({
+        callGasLimits: [100000n],
+        sweepGasLimit: 21000n,
+        fundingGasLimit: 21000n,
+        fundingAmount: 100000n * 40n * 10n ** 9n,
+        maxFeePerGas: 40n * 10n ** 9n,
+        maxPriorityFeePerGas: 2n * 10n ** 9n,
+        totalGasCost: 121000n * 40n * 10n ** 9n,
+      });
+      const build = jest.spyOn(BundleBuilder.prototype, 'buildSponsoredBundle');
+      jest.spyOn(BundleBuilder.prototype, 'signTransactions').mockResolvedValue([`0x${'02'.repeat(40)}`]);
+      // The attacker's transaction confirms while the first bundle is out
+      jest.spyOn(SequencerClient.prototype, 'sendRawTransaction').mockImplementation(async () => {
+        confirmedNonce = 4;
+        throw new Error('nonce too low');
+      });
+
+      const rescue = createRescue(
+        { sponsorWallet: new Wallet(`0x${'22'.repeat(32)}`, chainProvider) },
+        new Wallet(WALLET_KEY, chainProvider)
+      );
+      const result = await rescue.executeScheduledRescue({ ...unlock, token: TOKEN, expectedAmount: 1000n });
+
+      expect(build.mock.calls.map(call => call[4])).toEqual([3, 4]);
+      expect(result.nonceConflicts).toEqual([expect.objectContaining({ signedNonce: 3, latestNonce: 4 })]);
+      expect(result.success).toBe(false);
+    });
+  });
+});
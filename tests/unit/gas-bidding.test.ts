@@ -0,0 +1,87 @@
+import { JsonRpcProvider } from 'ethers';
+import { GasCalculator, GasEstimate } from '../../src/rescue/gas-calculator';
+
+describe('GasCalculator bidding', () => {
+  const gwei = (value: number): bigint => BigInt(value) * 1000000000n;
+  const balance = BigInt('1000000000000000000'); // 1 ETH
+
+  const baseEstimate: GasEstimate = {
+    gasLimit: BigInt(21000),
+    maxFeePerGas: gwei(22), // 20 gwei base fee component + 2 gwei tip
+    maxPriorityFeePerGas: gwei(2),
+    totalGasCost: BigInt(21000) * gwei(22),
+  };
+
+  const calculator = (strategy: 'static' | 'linear' | 'exponential' | 'percent', escalation: number, maxBidSharePercent = 50) =>
+    new GasCalculator({} as JsonRpcProvider, 2, { bidOptions: { strategy, escalation, maxBidSharePercent } });
+
+  it('should keep the same tip for every block with the static strategy', () => {
+    const bid = calculator('static', 0).calculateBidForBlock(baseEstimate, 4, balance);
+
+    expect(bid).toEqual(baseEstimate);
+  });
+
+  it('should add a fixed step per block with the linear strategy', () => {
+    const bid = calculator('linear', 1.5).calculateBidForBlock(baseEstimate, 2, balance);
+
+    expect(bid.maxPriorityFeePerGas).toBe(gwei(5));
+    expect(bid.maxFeePerGas).toBe(gwei(25));
+    expect(bid.totalGasCost).toBe(BigInt(21000) * gwei(25));
+  });
+
+  it('should multiply the tip per block with the exponential strategy', () => {
+    const bid = calculator('exponential', 2).calculateBidForBlock(baseEstimate, 3, balance);
+
+    expect(bid.maxPriorityFeePerGas).toBe(gwei(16));
+  });
+
+  it('should bid a growing share of the balance with the percent strategy', () => {
+    const bid = calculator('percent', 1).calculateBidForBlock(baseEstimate, 1, balance);
+
+    // 2% of 1 ETH spread over 21000 gas
+    expect(bid.maxPriorityFeePerGas).toBe((balance * 2n) / 100n / BigInt(21000));
+  });
+
+  it('should cap the total tip at the maximum share of the balance', () => {
+    const bid = calculator('linear', 1000000, 10).calculateBidForBlock(baseEstimate, 4, balance);
+
+    expect(bid.maxPriorityFeePerGas).toBe(balance / 10n / BigInt(21000));
+    expect(bid.maxPriorityFeePerGas * bid.gasLimit).toBeLessThanOrEqual(balance / 10n);
+  });
+
+  it('should raise the tip to the minimum floor when outbidding', () => {
+    const bid = calculator('static', 0).calculateBidForBlock(baseEstimate, 0, balance, gwei(11));
+
+    expect(bid.maxPriorityFeePerGas).toBe(gwei(11));
+    expect(bid.maxFeePerGas).toBe(gwei(31));
+  });
+
+  it('should still cap a raised tip at the maximum share of the balance', () => {
+    const bid = calculator('static', 0, 1).calculateBidForBlock(baseEstimate, 0, balance, gwei(1000000));
+
+    expect(bid.maxPriorityFeePerGas).toBe(balance / 100n / BigInt(21000));
+  });
+
+  describe('coinbase bribes', () => {
+    it('should move the tip value into the bribe and pay only the base fee', () => {
+      const bid = calculator('linear', 1).calculateBidForBlock(baseEstimate, 1, balance);
+      const bribe = calculator('linear', 1).applyCoinbaseBribe(bid, BigInt(35000));
+
+      expect(bribe.maxPriorityFeePerGas).toBe(0n);
+      expect(bribe.maxFeePerGas).toBe(gwei(20));
+      expect(bribe.bribeAmount).toBe(gwei(3) * BigInt(21000));
+      expect(bribe.totalGasCost).toBe(BigInt(56000) * gwei(20));
+    });
+
+    it('should deduct the bribe from the sweep amount', () => {
+      const gasCalculator = calculator('static', 0);
+      const gasCost = BigInt('10000000000000000'); // 0.01 ETH
+      const bribeAmount = BigInt('5000000000000000'); // 0.005 ETH
+
+      const withoutBribe = gasCalculator.calculateSweepAmount(balance, gasCost);
+      const withBribe = gasCalculator.calculateSweepAmount(balance, gasCost, bribeAmount);
+
+      expect(withoutBribe - withBribe).toBe(bribeAmount);
+    });
+  });
+});
@@ -91,6 +91,15 @@ describe('GasCalculator', () => {
       expect(result).toBe(false);
     });
 
+    it('should not count the gas buffer against the minimum of an exact sweep', () => {
+      const balance = BigInt('60500000000000000'); // 0.0605 ETH
+      const minAmount = BigInt('50000000000000000'); // 0.05 ETH
+      const gasCost = BigInt('10000000000000000'); // 0.01 ETH, 0.011 ETH with the buffer
+
+      expect(gasCalculator.isRescueViable(balance, minAmount, gasCost, true)).toBe(true);
+      expect(gasCalculator.isRescueViable(balance, minAmount, gasCost)).toBe(false);
+    });
+
     it('should return false when balance insufficient for gas', () => {
       const balance = BigInt('5000000000000000'); // 0.005 ETH
       const minAmount = BigInt('1000000000000000'); // 0.001 ETH
@@ -0,0 +1,68 @@
+import { JsonRpcProvider } from 'ethers';
+import { GasCalculator } from '../../src/rescue/gas-calculator';
+
+describe('GasCalculator contract-aware gas limits', () => {
+  const from = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+  const safe = '0xabcdef1234567890abcdef1234567890abcdef12';
+
+  let mockProvider: jest.Mocked<JsonRpcProvider>;
+
+  beforeEach(() => {
+    mockProvider = {
+      getFeeData: jest.fn().mockResolvedValue({
+        maxFeePerGas: BigInt('50000000000'),
+        maxPriorityFeePerGas: BigInt('2000000000'),
+        gasPrice: BigInt('50000000000'),
+      }),
+      getCode: jest.fn().mockResolvedValue('0x'),
+      estimateGas: jest.fn().mockResolvedValue(BigInt(50000)),
+    } as unknown as jest.Mocked<JsonRpcProvider>;
+  });
+
+  it('should use 21000 without estimating when the safe wallet is an EOA', async () => {
+    const estimate = await new GasCalculator(mockProvider, 2).calculateGasParams({ from, to: safe });
+
+    expect(estimate.gasLimit).toBe(BigInt(21000));
+    expect(mockProvider.estimateGas).not.toHaveBeenCalled();
+  });
+
+  it('should estimate the transfer plus margin when the safe wallet has code', async () => {
+    mockProvider.getCode.mockResolvedValue('0x6080604052');
+
+    const estimate = await new GasCalculator(mockProvider, 2).calculateGasParams({ from, to: safe });
+
+    expect(estimate.gasLimit).toBe(BigInt(60000)); // 50000 + 20%
+    expect(estimate.totalGasCost).toBe(BigInt(60000) * estimate.maxFeePerGas);
+    expect(mockProvider.estimateGas).toHaveBeenCalledWith({ from, to: safe, data: '0x', value: 1n });
+  });
+
+  it('should apply a configured gas limit margin', async () => {
+    mockProvider.getCode.mockResolvedValue('0x6080604052');
+
+    const calculator = new GasCalculator(mockProvider, 2, { gasLimitMarginPercent: 50 });
+    const estimate = await calculator.calculateGasParams({ from, to: safe });
+
+    expect(estimate.gasLimit).toBe(BigInt(75000));
+  });
+
+  it('should check the recipient code only once', async () => {
+    const calculator = new GasCalculator(mockProvider, 2);
+
+    await calculator.calculateGasParams({ from, to: safe });
+    await calculator.calculateGasParams({ from, to: safe });
+
+    expect(mockProvider.getCode).toHaveBeenCalledTimes(1);
+  });
+
+  it('should size the sponsored dust sweep for a contract safe wallet', async () => {
+    mockProvider.getCode.mockResolvedValue('0x6080604052');
+
+    const estimate = await new GasCalculator(mockProvider, 2).calculateSponsoredGasParams(
+      from,
+      [{ to: '0x1111111111111111111111111111111111111111', data: '0x', gasLimit: BigInt(65000) }],
+      safe
+    );
+
+    expect(estimate.sweepGasLimit).toBe(BigInt(60000));
+  });
+});
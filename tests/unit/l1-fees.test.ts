@@ -0,0 +1,88 @@
+import { AbiCoder, JsonRpcProvider } from 'ethers';
+import { GasCalculator } from '../../src/rescue/gas-calculator';
+
+const GAS_PRICE_ORACLE = '0x420000000000000000000000000000000000000f';
+const NODE_INTERFACE = '0x00000000000000000000000000000000000000c8';
+
+describe('GasCalculator rollup L1 fees', () => {
+  const from = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+  const safe = '0xabcdef1234567890abcdef1234567890abcdef12';
+  const coder = AbiCoder.defaultAbiCoder();
+  const l1Fee = BigInt('30000000000000'); // 0.00003 ETH
+
+  let mockProvider: jest.Mocked<JsonRpcProvider>;
+
+  beforeEach(() => {
+    mockProvider = {
+      getFeeData: jest.fn().mockResolvedValue({
+        maxFeePerGas: BigInt('2000000'),
+        maxPriorityFeePerGas: BigInt('1000000'),
+        gasPrice: BigInt('2000000'),
+      }),
+      getNetwork: jest.fn().mockResolvedValue({ chainId: 10n }),
+      getCode: jest.fn().mockResolvedValue('0x'),
+      estimateGas: jest.fn().mockResolvedValue(BigInt(50000)),
+      call: jest.fn().mockImplementation(async (tx: { to: string }) => {
+        if (tx.to.toLowerCase() === GAS_PRICE_ORACLE) {
+          return coder.encode(['uint256'], [l1Fee]);
+        }
+        if (tx.to.toLowerCase() === NODE_INTERFACE) {
+          return coder.encode(['uint64', 'uint256', 'uint256'], [BigInt(4000), 0n, 0n]);
+        }
+        throw new Error(`Unexpected call to ${tx.to}`);
+      }),
+    } as unknown as jest.Mocked<JsonRpcProvider>;
+  });
+
+  it('should add the OP Stack L1 data fee to the total gas cost', async () => {
+    const calculator = new GasCalculator(mockProvider, 0.001, { l1FeeModel: 'op-stack' });
+
+    const estimate = await calculator.calculateGasParams({ from, to: safe, value: BigInt('1000000000000000000') });
+
+    expect(estimate.gasLimit).toBe(BigInt(21000));
+    expect(estimate.l1Fee).toBe(l1Fee * 2n); // Doubled for L1 price movement
+    expect(estimate.totalGasCost).toBe(BigInt(21000) * estimate.maxFeePerGas + l1Fee * 2n);
+  });
+
+  it('should keep the L1 fee when escalating bids', async () => {
+    const calculator = new GasCalculator(mockProvider, 0.001, { l1FeeModel: 'op-stack' });
+
+    const estimate = await calculator.calculateGasParams({ from, to: safe });
+    const bid = calculator.calculateBidForBlock(estimate, 1, BigInt('1000000000000000000'));
+
+    expect(bid.l1Fee).toBe(estimate.l1Fee);
+    expect(bid.totalGasCost).toBe(bid.gasLimit * bid.maxFeePerGas + l1Fee * 2n);
+  });
+
+  it('should add Arbitrum L1 gas to a fixed transfer gas limit', async () => {
+    const calculator = new GasCalculator(mockProvider, 0.001, { l1FeeModel: 'arbitrum' });
+
+    const estimate = await calculator.calculateGasParams({ from, to: safe });
+
+    expect(estimate.gasLimit).toBe(BigInt(21000 + 4000 + 800)); // L1 gas plus 20% margin
+    expect(estimate.l1Fee).toBe(0n);
+    expect(estimate.totalGasCost).toBe(estimate.gasLimit * estimate.maxFeePerGas);
+  });
+
+  it('should fund the compromised wallet for its L1 fees in sponsored bundles', async () => {
+    const calculator = new GasCalculator(mockProvider, 0.001, { l1FeeModel: 'op-stack' });
+
+    const estimate = await calculator.calculateSponsoredGasParams(
+      from,
+      [{ to: '0x1111111111111111111111111111111111111111', data: '0x', gasLimit: BigInt(65000) }],
+      undefined
+    );
+
+    expect(estimate.fundingAmount).toBe(BigInt(65000) * estimate.maxFeePerGas + l1Fee * 2n);
+    expect(estimate.totalGasCost).toBe(
+      estimate.fundingAmount + estimate.fundingGasLimit * estimate.maxFeePerGas + l1Fee * 2n
+    );
+  });
+
+  it('should not query L1 fees on L1 chains', async () => {
+    const estimate = await new GasCalculator(mockProvider, 0.001).calculateGasParams({ from, to: safe });
+
+    expect(estimate.l1Fee).toBeUndefined();
+    expect(mockProvider.call).not.toHaveBeenCalled();
+  });
+});
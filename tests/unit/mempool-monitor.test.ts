@@ -0,0 +1,137 @@
+import { MempoolMonitor, AttackerTransaction, IncomingTransaction } from '../../src/monitors/mempool-monitor';
+import {
+  ConnectionChangeCallback,
+  PendingTransaction,
+  PendingTransactionCallback,
+  PendingTransactionFilter,
+} from '../../src/utils/alchemy-websocket';
+
+const subscriptions: Array<{ filter: PendingTransactionFilter; onTransaction: PendingTransactionCallback }> = [];
+const connectionChanges: ConnectionChangeCallback[] = [];
+const unsubscribePendingTransactions = jest.fn(() => {
+  subscriptions.length = 0;
+});
+const RAW_TRANSACTION = '0x02f86b0180843b9aca00850ba43b7400825208';
+
+jest.mock('../../src/utils/alchemy-websocket', () => ({
+  AlchemyWebSocketProvider: jest.fn().mockImplementation((_rpcUrl, onConnectionChange) => {
+    connectionChanges.push(onConnectionChange);
+    return {
+      connect: jest.fn().mockResolvedValue(undefined),
+      disconnect: jest.fn(),
+      monitorConnection: jest.fn(),
+      subscribeToPendingTransactions: jest.fn().mockImplementation(async (filter, onTransaction) => {
+        subscriptions.push({ filter, onTransaction });
+      }),
+      unsubscribePendingTransactions,
+      getRawTransaction: jest.fn().mockResolvedValue(RAW_TRANSACTION),
+    };
+  }),
+}));
+
+describe('MempoolMonitor', () => {
+  const walletAddress = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+
+  const pendingTx = (overrides: Partial<PendingTransaction> = {}): PendingTransaction => ({
+    hash: '0x' + '11'.repeat(32),
+    from: walletAddress,
+    to: '0x0000000000000000000000000000000000000bad',
+    nonce: 4,
+    value: BigInt('500000000000000000'),
+    gasLimit: BigInt(21000),
+    maxFeePerGas: BigInt(50000000000),
+    maxPriorityFeePerGas: BigInt(30000000000),
+    ...overrides,
+  });
+
+  let monitor: MempoolMonitor;
+  let seen: AttackerTransaction[];
+  let incoming: IncomingTransaction[];
+
+  const emitPending = (tx: PendingTransaction) => subscriptions[0].onTransaction(tx);
+  const emitIncoming = (tx: PendingTransaction) => subscriptions[1].onTransaction(tx);
+
+  beforeEach(async () => {
+    subscriptions.length = 0;
+    connectionChanges.length = 0;
+    unsubscribePendingTransactions.mockClear();
+    seen = [];
+    incoming = [];
+    monitor = new MempoolMonitor('wss://example.invalid', walletAddress);
+    monitor.watchIncomingTransfers(async (tx) => {
+      incoming.push(tx);
+    });
+    await monitor.start(async (tx) => {
+      seen.push(tx);
+    });
+  });
+
+  afterEach(() => {
+    monitor.stop();
+  });
+
+  it('should record outgoing transactions from the compromised wallet', () => {
+    emitPending(pendingTx());
+
+    expect(seen).toHaveLength(1);
+    expect(seen[0].nonce).toBe(4);
+    expect(seen[0].maxPriorityFeePerGas).toBe(BigInt(30000000000));
+    expect(seen[0].seenAt).toBeGreaterThan(0);
+    expect(monitor.getAttackerTransactions()).toEqual(seen);
+  });
+
+  it('should ignore transactions from other senders', () => {
+    emitPending(pendingTx({ from: '0x0000000000000000000000000000000000000001' }));
+
+    expect(seen).toHaveLength(0);
+  });
+
+  it('should report each transaction hash once', () => {
+    emitPending(pendingTx());
+    emitPending(pendingTx());
+
+    expect(seen).toHaveLength(1);
+  });
+
+  it('should subscribe to transfers into the wallet when watching incoming transfers', () => {
+    expect(subscriptions.map(subscription => subscription.filter)).toEqual([
+      { fromAddress: walletAddress },
+      { toAddress: walletAddress },
+    ]);
+  });
+
+  it('should attach the raw bytes of incoming transfers', async () => {
+    emitIncoming(pendingTx({ from: '0x0000000000000000000000000000000000000001', to: walletAddress }));
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(incoming).toHaveLength(1);
+    expect(incoming[0].rawTransaction).toBe(RAW_TRANSACTION);
+    expect(incoming[0].value).toBe(BigInt('500000000000000000'));
+  });
+
+  it('should ignore incoming transactions that carry no ETH', async () => {
+    emitIncoming(pendingTx({ from: '0x0000000000000000000000000000000000000001', to: walletAddress, value: 0n }));
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(incoming).toHaveLength(0);
+  });
+
+  it('should report connection changes and subscribe to both filters again after a reconnect', async () => {
+    const changes: Array<[boolean, string | undefined]> = [];
+    monitor.onConnectionChange((connected, error) => changes.push([connected, error]));
+
+    connectionChanges[0](false, 'socket hang up');
+    connectionChanges[0](true);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(changes).toEqual([[false, 'socket hang up'], [true, undefined]]);
+    expect(unsubscribePendingTransactions).toHaveBeenCalledTimes(1);
+    expect(subscriptions.map(subscription => subscription.filter)).toEqual([
+      { fromAddress: walletAddress },
+      { toAddress: walletAddress },
+    ]);
+
+    emitPending(pendingTx());
+    expect(seen).toHaveLength(1);
+  });
+});
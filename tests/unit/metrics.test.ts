@@ -0,0 +1,93 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { MetricsRegistry, metrics, registry, startMetricsServer } from '../../src/utils/metrics';
+import { CircuitBreaker } from '../../src/utils/retry';
+
+describe('MetricsRegistry', () => {
+  it('should render counters and gauges per label set', () => {
+    const local = new MetricsRegistry();
+    const counter = local.counter('test_events_total', 'Events');
+    const gauge = local.gauge('test_level', 'Level');
+
+    counter.inc({ builder: 'flashbots' });
+    counter.inc({ builder: 'flashbots' }, 2);
+    counter.inc({ builder: 'a "quoted" name' });
+    gauge.set({}, 7);
+
+    expect(local.render()).toBe([
+      '# HELP test_events_total Events',
+      '# TYPE test_events_total counter',
+      'test_events_total{builder="flashbots"} 3',
+      'test_events_total{builder="a \\"quoted\\" name"} 1',
+      '# HELP test_level Level',
+      '# TYPE test_level gauge',
+      'test_level 7',
+      '',
+    ].join('\n'));
+  });
+
+  it('should render cumulative histogram buckets', () => {
+    const local = new MetricsRegistry();
+    const histogram = local.histogram('test_latency_seconds', 'Latency', [0.5, 1]);
+
+    histogram.observe({ kind: 'eth' }, 0.2);
+    histogram.observe({ kind: 'eth' }, 0.7);
+    histogram.observe({ kind: 'eth' }, 3);
+
+    expect(local.render()).toContain([
+      'test_latency_seconds_bucket{kind="eth",le="0.5"} 1',
+      'test_latency_seconds_bucket{kind="eth",le="1"} 2',
+      'test_latency_seconds_bucket{kind="eth",le="+Inf"} 3',
+      'test_latency_seconds_sum{kind="eth"} 3.9',
+      'test_latency_seconds_count{kind="eth"} 3',
+    ].join('\n'));
+  });
+});
+
+describe('circuit breaker metrics', () => {
+  beforeEach(() => registry.reset());
+
+  it('should count breakers in each state', async () => {
+    const breaker = new CircuitBreaker(1, 60000, 'metrics-test');
+    new CircuitBreaker(1, 60000, 'metrics-test');
+
+    expect(metrics.circuitBreakers.get({ name: 'metrics-test', state: 'CLOSED' })).toBe(2);
+
+    await expect(breaker.execute(() => Promise.reject(new Error('down')))).rejects.toThrow('down');
+
+    expect(metrics.circuitBreakers.get({ name: 'metrics-test', state: 'CLOSED' })).toBe(1);
+    expect(metrics.circuitBreakers.get({ name: 'metrics-test', state: 'OPEN' })).toBe(1);
+  });
+});
+
+describe('startMetricsServer', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = await startMetricsServer(0, '127.0.0.1');
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  it('should serve the registry at /metrics', async () => {
+    metrics.blocksReceived.inc({ source: 'event' });
+
+    const response = await fetch(`${baseUrl}/metrics`);
+    const body = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/plain');
+    expect(body).toContain('# TYPE evm_rescue_blocks_received_total counter');
+    expect(body).toMatch(/evm_rescue_blocks_received_total\{source="event"\} \d+/);
+  });
+
+  it('should return 404 for other paths', async () => {
+    const response = await fetch(`${baseUrl}/`);
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,133 @@
+import { JsonRpcProvider } from 'ethers';
+import { MultiWalletMonitor } from '../../src/monitors/multi-wallet-monitor';
+import { StateStore } from '../../src/utils/state-store';
+
+const blockSubscribers: Array<(blockNumber: number) => void> = [];
+
+jest.mock('../../src/utils/alchemy-websocket', () => ({
+  AlchemyWebSocketProvider: jest.fn().mockImplementation(() => ({
+    connect: jest.fn().mockResolvedValue(true),
+    disconnect: jest.fn(),
+    subscribeToNewBlocks: jest.fn().mockImplementation(async (onBlock) => {
+      blockSubscribers.push(onBlock);
+    }),
+  })),
+}));
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('MultiWalletMonitor', () => {
+  const alice = '0x1111111111111111111111111111111111111111';
+  const bob = '0x2222222222222222222222222222222222222222';
+
+  let balances: Map<string, bigint>;
+  let mockProvider: jest.Mocked<JsonRpcProvider>;
+  let monitor: MultiWalletMonitor;
+
+  beforeEach(() => {
+    blockSubscribers.length = 0;
+    balances = new Map([[alice, 0n], [bob, 0n]]);
+    mockProvider = {
+      getBalance: jest.fn().mockImplementation(async (address: string) => balances.get(address) ?? 0n),
+    } as unknown as jest.Mocked<JsonRpcProvider>;
+    monitor = new MultiWalletMonitor(mockProvider, 'wss://example.invalid', 12000);
+  });
+
+  afterEach(() => {
+    monitor.stop();
+  });
+
+  it('should check every wallet on each new block from one subscription', async () => {
+    monitor.addWallet(alice, jest.fn().mockResolvedValue(true));
+    monitor.addWallet(bob, jest.fn().mockResolvedValue(true));
+    await monitor.start();
+
+    expect(blockSubscribers).toHaveLength(1);
+    expect(mockProvider.getBalance).toHaveBeenCalledTimes(2);
+
+    blockSubscribers[0](101);
+    await flush();
+
+    expect(mockProvider.getBalance).toHaveBeenCalledTimes(4);
+  });
+
+  it('should only notify the wallet whose balance increased', async () => {
+    const onAlice = jest.fn().mockResolvedValue(true);
+    const onBob = jest.fn().mockResolvedValue(true);
+    monitor.addWallet(alice, onAlice);
+    monitor.addWallet(bob, onBob);
+    await monitor.start();
+
+    balances.set(bob, 500n);
+    blockSubscribers[0](101);
+    await flush();
+
+    expect(onAlice).not.toHaveBeenCalled();
+    expect(onBob).toHaveBeenCalledWith(500n);
+  });
+
+  it('should keep checking other wallets while a rescue is running', async () => {
+    const onAlice = jest.fn().mockReturnValue(new Promise(() => undefined)); // Never settles
+    const onBob = jest.fn().mockResolvedValue(true);
+    monitor.addWallet(alice, onAlice);
+    monitor.addWallet(bob, onBob);
+    await monitor.start();
+
+    balances.set(alice, 100n);
+    blockSubscribers[0](101);
+    await flush();
+
+    balances.set(bob, 200n);
+    blockSubscribers[0](102);
+    await flush();
+
+    expect(onAlice).toHaveBeenCalledTimes(1);
+    expect(onBob).toHaveBeenCalledWith(200n);
+  });
+
+  it('should report an increase again when the handler skipped it', async () => {
+    const stateStore = { getLastBalance: jest.fn(), recordBalance: jest.fn() };
+    monitor = new MultiWalletMonitor(mockProvider, 'wss://example.invalid', 12000, stateStore as unknown as StateStore);
+    const onAlice = jest.fn().mockResolvedValueOnce(false).mockResolvedValue(true);
+    monitor.addWallet(alice, onAlice);
+    await monitor.start();
+
+    balances.set(alice, 100n);
+    blockSubscribers[0](101);
+    await flush();
+
+    expect(monitor.getLastBalance(alice)).toBe(0n);
+    expect(stateStore.recordBalance).not.toHaveBeenCalled();
+
+    blockSubscribers[0](102);
+    await flush();
+
+    expect(onAlice).toHaveBeenCalledTimes(2);
+    expect(stateStore.recordBalance).toHaveBeenCalledWith(alice, 100n);
+  });
+
+  it('should check a block reported twice only once', async () => {
+    monitor.addWallet(alice, jest.fn().mockResolvedValue(true));
+    await monitor.start();
+
+    blockSubscribers[0](101);
+    await flush();
+    blockSubscribers[0](101);
+    await flush();
+
+    expect(mockProvider.getBalance).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop checking removed wallets', async () => {
+    monitor.addWallet(alice, jest.fn().mockResolvedValue(true));
+    monitor.addWallet(bob, jest.fn().mockResolvedValue(true));
+    await monitor.start();
+
+    monitor.removeWallet(alice.toUpperCase().replace('0X', '0x'));
+    blockSubscribers[0](101);
+    await flush();
+
+    expect(mockProvider.getBalance).toHaveBeenLastCalledWith(bob);
+    expect(monitor.getWalletCount()).toBe(1);
+  });
+});
@@ -0,0 +1,52 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadNftRescueTargets } from '../../src/config/nft-targets';
+
+describe('loadNftRescueTargets', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nft-targets-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const writeTargets = (content: unknown): string => {
+    const filePath = path.join(tmpDir, 'targets.json');
+    fs.writeFileSync(filePath, JSON.stringify(content));
+    return filePath;
+  };
+
+  it('should parse ERC-721 and ERC-1155 targets', () => {
+    const filePath = writeTargets([
+      { standard: 'erc721', contract: '0x1111111111111111111111111111111111111111', tokenIds: ['1', 2] },
+      { standard: 'erc1155', contract: '0x2222222222222222222222222222222222222222', tokenIds: [5], amounts: ['3'] },
+    ]);
+
+    const targets = loadNftRescueTargets(filePath);
+
+    expect(targets).toEqual([
+      { standard: 'erc721', contract: '0x1111111111111111111111111111111111111111', tokenIds: [1n, 2n], amounts: undefined },
+      { standard: 'erc1155', contract: '0x2222222222222222222222222222222222222222', tokenIds: [5n], amounts: [3n] },
+    ]);
+  });
+
+  it('should reject unknown standards', () => {
+    const filePath = writeTargets([
+      { standard: 'erc20', contract: '0x1111111111111111111111111111111111111111', tokenIds: [1] },
+    ]);
+
+    expect(() => loadNftRescueTargets(filePath)).toThrow('standard must be "erc721" or "erc1155"');
+  });
+
+  it('should reject amounts that do not match token IDs', () => {
+    const filePath = writeTargets([
+      { standard: 'erc1155', contract: '0x1111111111111111111111111111111111111111', tokenIds: [1, 2], amounts: [1] },
+    ]);
+
+    expect(() => loadNftRescueTargets(filePath)).toThrow('amounts must match tokenIds length');
+  });
+});
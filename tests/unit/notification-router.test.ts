@@ -0,0 +1,150 @@
+import { Notifier } from '../../src/notifiers/notifier';
+import { NotificationRouter, RateLimiter } from '../../src/notifiers/notification-router';
+import { AttackerTransaction } from '../../src/monitors/mempool-monitor';
+
+describe('NotificationRouter', () => {
+  const WALLET = '0xAbCdEf0000000000000000000000000000000001';
+  const DIGEST_MS = 15 * 60000;
+
+  const attackerTx = {
+    hash: `0x${'ab'.repeat(32)}`,
+    nonce: 7,
+    to: '0x0000000000000000000000000000000000000009',
+    value: 10n ** 18n,
+  } as AttackerTransaction;
+
+  const createNotifier = (name: string): jest.Mocked<Notifier> => ({
+    name,
+    testConnection: jest.fn().mockResolvedValue(true),
+    sendRescueStarted: jest.fn().mockResolvedValue(undefined),
+    sendRescueSuccess: jest.fn().mockResolvedValue(undefined),
+    sendRescueFailed: jest.fn().mockResolvedValue(undefined),
+    sendBotStarted: jest.fn().mockResolvedValue(undefined),
+    sendBotStopped: jest.fn().mockResolvedValue(undefined),
+    sendConnectionIssue: jest.fn().mockResolvedValue(undefined),
+    sendConnectionRestored: jest.fn().mockResolvedValue(undefined),
+    sendAttackerActivity: jest.fn().mockResolvedValue(undefined),
+    sendDigest: jest.fn().mockResolvedValue(undefined),
+  });
+
+  let chat: jest.Mocked<Notifier>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    chat = createNotifier('Telegram');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should only send events at or above a channel minimum severity', async () => {
+    const email = createNotifier('Email');
+    const router = new NotificationRouter([
+      { notifier: chat, minSeverity: 'info' },
+      { notifier: email, minSeverity: 'critical' },
+    ], { digestIntervalMs: DIGEST_MS });
+
+    await router.sendBotStarted(WALLET);
+    await router.sendRescueSuccess({ success: true, walletAddress: WALLET });
+
+    expect(router.name).toBe('Telegram+Email');
+    expect(chat.sendBotStarted).toHaveBeenCalledTimes(1);
+    expect(email.sendBotStarted).not.toHaveBeenCalled();
+    expect(email.sendRescueSuccess).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop repeats inside the dedup window and count them in the digest', async () => {
+    const router = new NotificationRouter([{ notifier: chat, minSeverity: 'info' }], { digestIntervalMs: DIGEST_MS });
+
+    await router.sendAttackerActivity(WALLET, attackerTx);
+    await router.sendAttackerActivity(WALLET.toLowerCase(), attackerTx);
+    await router.sendAttackerActivity('0x0000000000000000000000000000000000000002', attackerTx);
+    expect(chat.sendAttackerActivity).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(60000);
+    await router.sendAttackerActivity(WALLET, attackerTx);
+    expect(chat.sendAttackerActivity).toHaveBeenCalledTimes(3);
+
+    await jest.advanceTimersByTimeAsync(DIGEST_MS);
+    expect(chat.sendDigest).toHaveBeenCalledWith(['1 repeated attacker-activity notification(s) suppressed']);
+  });
+
+  it('should turn an outage into one issue, digests while it lasts and a resolved follow-up', async () => {
+    const router = new NotificationRouter([{ notifier: chat, minSeverity: 'info' }], { digestIntervalMs: DIGEST_MS });
+
+    await router.sendConnectionIssue('socket hang up', 'WebSocket');
+    await router.sendConnectionIssue('ECONNREFUSED', 'WebSocket');
+    await router.sendConnectionIssue('ECONNREFUSED', 'WebSocket');
+    expect(chat.sendConnectionIssue).toHaveBeenCalledTimes(1);
+    expect(chat.sendConnectionIssue).toHaveBeenCalledWith('socket hang up', 'WebSocket');
+
+    await jest.advanceTimersByTimeAsync(DIGEST_MS);
+    expect(chat.sendDigest).toHaveBeenCalledWith(['WebSocket still failing after 15m 0s: 2 more error(s), last: ECONNREFUSED']);
+
+    // Nothing new since the last digest
+    await jest.advanceTimersByTimeAsync(DIGEST_MS);
+    expect(chat.sendDigest).toHaveBeenCalledTimes(1);
+
+    await router.sendConnectionRestored('WebSocket');
+    expect(chat.sendConnectionRestored).toHaveBeenCalledWith('WebSocket', ['Down for 30m 0s', '3 error(s), last: ECONNREFUSED']);
+
+    await router.sendConnectionRestored('WebSocket');
+    expect(chat.sendConnectionRestored).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep incidents from different sources apart', async () => {
+    const router = new NotificationRouter([{ notifier: chat, minSeverity: 'info' }], { digestIntervalMs: DIGEST_MS });
+
+    await router.sendConnectionIssue('socket hang up', 'WebSocket');
+    await router.sendConnectionIssue('FlashbotsRescue circuit breaker opened', 'FlashbotsRescue circuit breaker');
+    await router.sendConnectionRestored('FlashbotsRescue circuit breaker');
+
+    expect(chat.sendConnectionIssue).toHaveBeenCalledTimes(2);
+    expect(chat.sendConnectionRestored).toHaveBeenCalledTimes(1);
+    expect(chat.sendConnectionRestored).toHaveBeenCalledWith('FlashbotsRescue circuit breaker', expect.any(Array));
+  });
+
+  it('should stay quiet about a flapping connection until the dedup window passes', async () => {
+    const router = new NotificationRouter([{ notifier: chat, minSeverity: 'info' }], {
+      dedupWindowsMs: { 'connection-issue': 5 * 60000 },
+      digestIntervalMs: DIGEST_MS,
+    });
+
+    await router.sendConnectionIssue('socket hang up');
+    await router.sendConnectionRestored('WebSocket');
+    await router.sendConnectionIssue('socket hang up');
+    await router.sendConnectionIssue('socket hang up');
+    await router.sendConnectionRestored('WebSocket');
+
+    expect(chat.sendConnectionIssue).toHaveBeenCalledTimes(1);
+    expect(chat.sendConnectionRestored).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(DIGEST_MS);
+    expect(chat.sendDigest).toHaveBeenCalledWith(['2 repeated connection-issue notification(s) suppressed']);
+
+    await router.sendConnectionIssue('socket hang up');
+    expect(chat.sendConnectionIssue).toHaveBeenCalledTimes(2);
+  });
+
+  it('should hold channels to their rate limit except for critical events', async () => {
+    const limiter = new RateLimiter(2);
+    const router = new NotificationRouter([{ notifier: chat, minSeverity: 'info', rateLimiter: limiter }], {
+      digestIntervalMs: DIGEST_MS,
+    });
+
+    await router.sendBotStarted('0x0000000000000000000000000000000000000001');
+    await router.sendBotStarted('0x0000000000000000000000000000000000000002');
+    await router.sendBotStarted('0x0000000000000000000000000000000000000003');
+    await router.sendRescueFailed({ success: false, walletAddress: WALLET, error: 'bundle not included' });
+
+    expect(chat.sendBotStarted).toHaveBeenCalledTimes(2);
+    expect(chat.sendRescueFailed).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(DIGEST_MS);
+    expect(chat.sendDigest).toHaveBeenCalledWith(['1 notification(s) to Telegram dropped by its rate limit']);
+
+    await router.sendBotStarted('0x0000000000000000000000000000000000000004');
+    expect(chat.sendBotStarted).toHaveBeenCalledTimes(3);
+  });
+});
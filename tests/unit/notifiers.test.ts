@@ -0,0 +1,225 @@
+import * as http from 'http';
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { DiscordNotifier } from '../../src/notifiers/discord-notifier';
+import { EmailNotifier } from '../../src/notifiers/email-notifier';
+import { Notifier } from '../../src/notifiers/notifier';
+import { NotificationRouter } from '../../src/notifiers/notification-router';
+import { SlackNotifier } from '../../src/notifiers/slack-notifier';
+import { signWebhookBody, WebhookNotifier } from '../../src/notifiers/webhook-notifier';
+import { getChainConfig } from '../../src/config/chains';
+
+describe('Notifiers', () => {
+  const WALLET = '0xAbCdEf0000000000000000000000000000000001';
+  const TX_HASH = `0x${'ab'.repeat(32)}`;
+  const chain = getChainConfig(1n);
+
+  const success = {
+    success: true,
+    walletAddress: WALLET,
+    amount: 15n * 10n ** 17n,
+    txHash: TX_HASH,
+    blockNumber: 101,
+    rescueType: 'auto' as const,
+  };
+
+  interface ReceivedRequest {
+    path: string;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+  }
+
+  let server: http.Server;
+  let baseUrl: string;
+  let received: ReceivedRequest[];
+  let status: number;
+
+  beforeEach(async () => {
+    received = [];
+    status = 200;
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        received.push({ path: req.url!, headers: req.headers, body: Buffer.concat(chunks).toString('utf8') });
+        res.writeHead(status);
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should post a Discord embed', async () => {
+    await new DiscordNotifier(`${baseUrl}/discord`, chain).sendRescueSuccess(success);
+
+    const payload = JSON.parse(received[0].body);
+    expect(received[0].path).toBe('/discord');
+    expect(payload.embeds[0].title).toBe('✅ Rescue Operation Successful');
+    expect(payload.embeds[0].fields).toEqual(expect.arrayContaining([
+      { name: 'Wallet', value: WALLET, inline: false },
+      { name: 'Rescued', value: '1.500000 ETH', inline: false },
+      { name: 'Explorer', value: `https://etherscan.io/tx/${TX_HASH}`, inline: false },
+    ]));
+  });
+
+  it('should post a Slack message with a plain-text fallback', async () => {
+    await new SlackNotifier(`${baseUrl}/slack`).sendConnectionIssue('WebSocket closed');
+
+    const payload = JSON.parse(received[0].body);
+    expect(payload.text).toBe('⚠️ Connection Issue Detected');
+    expect(payload.blocks[1].text.text).toBe('*Error:* `WebSocket closed`');
+  });
+
+  it('should put multi-line summaries in a Slack code block', async () => {
+    await new SlackNotifier(`${baseUrl}/slack`).sendConnectionRestored('WebSocket', ['Down for 4m 12s', '9 error(s), last: ECONNREFUSED']);
+
+    const payload = JSON.parse(received[0].body);
+    expect(payload.text).toBe('✅ Connection Restored');
+    expect(payload.blocks[1].text.text).toBe(
+      '*Source:* `WebSocket`\n*Summary:* \n```Down for 4m 12s\n9 error(s), last: ECONNREFUSED```'
+    );
+  });
+
+  it('should sign generic webhook bodies', async () => {
+    await new WebhookNotifier(`${baseUrl}/hook`, 'shared-secret', chain).sendRescueSuccess(success);
+
+    const { headers, body } = received[0];
+    const timestamp = headers['x-rescue-timestamp'] as string;
+    expect(headers['x-rescue-signature']).toBe(`sha256=${signWebhookBody('shared-secret', timestamp, body)}`);
+
+    expect(JSON.parse(body)).toMatchObject({
+      event: 'rescue-success',
+      chainId: 1,
+      notification: { walletAddress: WALLET, amount: '1500000000000000000', blockNumber: 101 },
+    });
+  });
+
+  it('should fail the connection test on an error status without throwing from sends', async () => {
+    status = 500;
+    const notifier = new WebhookNotifier(`${baseUrl}/hook`);
+
+    await expect(notifier.testConnection()).resolves.toBe(false);
+    await expect(notifier.sendBotStarted(WALLET)).resolves.toBeUndefined();
+    expect(received[0].headers['x-rescue-signature']).toBeUndefined();
+  });
+
+  it('should fan out to every channel even when one fails', async () => {
+    const failing: Notifier = Object.assign(new WebhookNotifier('http://127.0.0.1:1/unreachable'), { name: 'Broken' });
+    const notifier = new NotificationRouter([
+      { notifier: failing, minSeverity: 'info' },
+      { notifier: new SlackNotifier(`${baseUrl}/slack`), minSeverity: 'info' },
+    ], { digestIntervalMs: 60000 });
+
+    await notifier.sendBotStopped(WALLET);
+
+    expect(notifier.name).toBe('Broken+Slack');
+    expect(received.map(request => request.path)).toEqual(['/slack']);
+  });
+
+  describe('EmailNotifier', () => {
+    let smtpServer: net.Server;
+    let smtpPort: number;
+    let transcript: string[];
+    let message: string;
+
+    beforeEach(async () => {
+      transcript = [];
+      message = '';
+
+      // Just enough of an SMTP server to accept one message
+      smtpServer = net.createServer(socket => {
+        let buffer = '';
+        let inData = false;
+        socket.write('220 localhost ESMTP test\r\n');
+
+        socket.on('data', chunk => {
+          buffer += chunk.toString('utf8');
+
+          if (inData) {
+            const end = buffer.indexOf('\r\n.\r\n');
+            if (end === -1) {
+              return;
+            }
+            message = buffer.slice(0, end);
+            buffer = buffer.slice(end + 5);
+            inData = false;
+            socket.write('250 Queued\r\n');
+          }
+
+          let newline: number;
+          while (!inData && (newline = buffer.indexOf('\r\n')) !== -1) {
+            const line = buffer.slice(0, newline);
+            buffer = buffer.slice(newline + 2);
+            transcript.push(line);
+
+            if (line.startsWith('EHLO')) {
+              socket.write('250-localhost\r\n250-AUTH PLAIN\r\n250 SIZE 1000000\r\n');
+            } else if (line.startsWith('AUTH PLAIN')) {
+              socket.write('235 Authenticated\r\n');
+            } else if (line === 'DATA') {
+              inData = true;
+              socket.write('354 Go ahead\r\n');
+            } else if (line === 'QUIT') {
+              socket.end('221 Bye\r\n');
+            } else {
+              socket.write('250 OK\r\n');
+            }
+          }
+        });
+      });
+      await new Promise<void>(resolve => smtpServer.listen(0, '127.0.0.1', resolve));
+      smtpPort = (smtpServer.address() as AddressInfo).port;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => smtpServer.close(resolve));
+    });
+
+    it('should deliver each event as a plain-text email', async () => {
+      const notifier = new EmailNotifier(
+        { host: '127.0.0.1', port: smtpPort, secure: false, username: 'bot', password: 'pw' },
+        'Rescue Bot <bot@example.com>',
+        ['ops@example.com', 'oncall@example.com'],
+        chain
+      );
+
+      await expect(notifier.testConnection()).resolves.toBe(true);
+      await notifier.sendRescueSuccess(success);
+
+      expect(transcript).toEqual(expect.arrayContaining([
+        `AUTH PLAIN ${Buffer.from('\0bot\0pw').toString('base64')}`,
+        'MAIL FROM:<bot@example.com>',
+        'RCPT TO:<ops@example.com>',
+        'RCPT TO:<oncall@example.com>',
+      ]));
+
+      const [headers, body] = message.split('\r\n\r\n');
+      expect(headers).toContain('To: ops@example.com, oncall@example.com');
+      expect(headers).toContain(`Subject: =?UTF-8?B?${Buffer.from('[EVM Rescue] ✅ Rescue Operation Successful').toString('base64')}?=`);
+
+      const text = Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8');
+      expect(text).toContain(`Wallet: ${WALLET}`);
+      expect(text).toContain('Block: 101');
+    });
+
+    it('should fail the connection test when the server rejects a recipient', async () => {
+      smtpServer.removeAllListeners('connection');
+      smtpServer.on('connection', socket => {
+        socket.write('220 localhost ESMTP test\r\n');
+        socket.on('data', chunk => {
+          const line = chunk.toString('utf8');
+          socket.write(line.startsWith('RCPT') ? '550 No such user\r\n' : '250 OK\r\n');
+        });
+      });
+
+      const notifier = new EmailNotifier({ host: '127.0.0.1', port: smtpPort, secure: false }, 'bot@example.com', ['nobody@example.com']);
+
+      await expect(notifier.testConnection()).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { JsonRpcProvider } from 'ethers';
+import { ControlledWallet, RescueController } from '../../src/control/rescue-controller';
+import { FlashbotsRescue } from '../../src/rescue/flashbots-rescue';
+
+describe('RescueController', () => {
+  const ADDRESS = '0xAbCdEf0000000000000000000000000000000001';
+  const OTHER_ADDRESS = '0x0000000000000000000000000000000000000002';
+
+  let provider: { getBalance: jest.Mock };
+  let monitor: { pause: jest.Mock; resume: jest.Mock };
+
+  beforeEach(() => {
+    provider = { getBalance: jest.fn().mockResolvedValue(10n ** 18n) };
+    monitor = { pause: jest.fn(), resume: jest.fn() };
+  });
+
+  const createWallet = (overrides: Partial<ControlledWallet> = {}): ControlledWallet => ({
+    name: 'main',
+    address: ADDRESS,
+    flashbotsRescue: {
+      getCircuitBreakerSnapshot: () => ({ state: 'CLOSED', failureCount: 0, lastFailureTime: 0 }),
+      getRecentAttempts: () => [],
+    } as unknown as FlashbotsRescue,
+    getLastBalance: () => 5n,
+    getCurrentBalance: () => Promise.resolve(7n),
+    getConnectionState: () => ({ mode: 'websocket', connected: true, reconnectAttempts: 0, paused: false }),
+    isRescueInProgress: () => false,
+    rescue: jest.fn().mockResolvedValue(undefined),
+    ...overrides,
+  });
+
+  const createController = () =>
+    new RescueController(provider as unknown as JsonRpcProvider, [monitor]);
+
+  it('should report every wallet', () => {
+    const controller = createController();
+    controller.addWallet(createWallet());
+
+    const status = controller.getStatus();
+
+    expect(status.paused).toBe(false);
+    expect(status.wallets).toEqual([expect.objectContaining({
+      name: 'main',
+      address: ADDRESS,
+      lastBalance: 5n,
+      rescueInProgress: false,
+      circuitBreaker: { state: 'CLOSED', failureCount: 0, lastFailureTime: 0 },
+    })]);
+  });
+
+  it('should pause and resume every monitor once', () => {
+    const controller = createController();
+
+    controller.pause();
+    controller.pause();
+    expect(controller.isPaused()).toBe(true);
+    expect(monitor.pause).toHaveBeenCalledTimes(1);
+
+    controller.resume();
+    expect(controller.isPaused()).toBe(false);
+    expect(monitor.resume).toHaveBeenCalledTimes(1);
+  });
+
+  it('should start a manual rescue with the current balance', async () => {
+    const controller = createController();
+    const wallet = createWallet();
+    controller.addWallet(wallet);
+
+    const result = await controller.rescueNow();
+
+    expect(result).toEqual({ accepted: true, wallet: ADDRESS, balance: 10n ** 18n });
+    expect(wallet.rescue).toHaveBeenCalledWith(10n ** 18n);
+  });
+
+  it('should refuse a manual rescue that cannot run', async () => {
+    const controller = createController();
+    controller.addWallet(createWallet({ isRescueInProgress: () => true }));
+    controller.addWallet(createWallet({ name: 'other', address: OTHER_ADDRESS }));
+
+    expect(await controller.rescueNow()).toMatchObject({ accepted: false, error: expect.stringContaining('Several wallets') });
+    expect(await controller.rescueNow('nope')).toMatchObject({ accepted: false, error: 'Unknown wallet: nope' });
+    expect(await controller.rescueNow('main')).toMatchObject({ accepted: false, error: 'Rescue already in progress' });
+
+    provider.getBalance.mockResolvedValue(0n);
+    expect(await controller.rescueNow('other')).toMatchObject({
+      accepted: false,
+      error: 'Nothing to rescue, balance is 0',
+    });
+  });
+});
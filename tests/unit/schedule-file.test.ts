@@ -0,0 +1,76 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadSchedule } from '../../src/config/schedule-file';
+
+describe('loadSchedule', () => {
+  const TOKEN = '0x1111111111111111111111111111111111111111';
+
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'schedule-file-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const writeSchedule = (content: unknown): string => {
+    const filePath = path.join(tmpDir, 'schedule.json');
+    fs.writeFileSync(filePath, JSON.stringify(content));
+    return filePath;
+  };
+
+  it('should parse block-based ETH and time-based token unlocks', () => {
+    const filePath = writeSchedule([
+      { name: 'vesting', unlockBlock: 19000000, expectedAmountEth: '1.5' },
+      { name: 'tge', unlockTime: '2026-11-01T12:00:00Z', token: TOKEN, expectedAmount: '1000', windowBlocks: 5 },
+    ]);
+
+    expect(loadSchedule(filePath)).toEqual([
+      {
+        name: 'vesting',
+        wallet: undefined,
+        unlockBlock: 19000000,
+        unlockTime: undefined,
+        token: undefined,
+        expectedAmount: BigInt('1500000000000000000'),
+        windowBlocks: 3,
+      },
+      {
+        name: 'tge',
+        wallet: undefined,
+        unlockBlock: undefined,
+        unlockTime: 1793534400,
+        token: TOKEN,
+        expectedAmount: 1000n,
+        windowBlocks: 5,
+      },
+    ]);
+  });
+
+  it('should accept unix seconds for unlockTime', () => {
+    const filePath = writeSchedule([{ unlockTime: 1793534400, expectedAmountEth: 1 }]);
+
+    expect(loadSchedule(filePath)[0].unlockTime).toBe(1793534400);
+  });
+
+  it('should require exactly one of unlockBlock or unlockTime', () => {
+    const filePath = writeSchedule([{ name: 'tge', unlockBlock: 1, unlockTime: 1, expectedAmountEth: 1 }]);
+
+    expect(() => loadSchedule(filePath)).toThrow('Scheduled unlock tge: set exactly one of unlockBlock or unlockTime');
+  });
+
+  it('should require a positive expected amount', () => {
+    const filePath = writeSchedule([{ name: 'tge', unlockBlock: 100, token: TOKEN }]);
+
+    expect(() => loadSchedule(filePath)).toThrow('expectedAmount (token base units) must be positive');
+  });
+
+  it('should reject unparseable dates', () => {
+    const filePath = writeSchedule([{ name: 'tge', unlockTime: 'soon', expectedAmountEth: 1 }]);
+
+    expect(() => loadSchedule(filePath)).toThrow('unlockTime must be unix seconds or an ISO 8601 date');
+  });
+});
@@ -0,0 +1,46 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { SequencerClient } from '../../src/rescue/sequencer-client';
+
+describe('SequencerClient', () => {
+  let server: http.Server;
+  let url: string;
+  let lastBody: string;
+  let responseBody: unknown;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        lastBody = body;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(responseBody));
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should send the raw transaction and return its hash', async () => {
+    responseBody = { jsonrpc: '2.0', id: 1, result: '0xhash' };
+
+    const txHash = await new SequencerClient(url).sendRawTransaction('0xsigned');
+
+    expect(txHash).toBe('0xhash');
+    const body = JSON.parse(lastBody);
+    expect(body.method).toBe('eth_sendRawTransaction');
+    expect(body.params).toEqual(['0xsigned']);
+  });
+
+  it('should surface JSON-RPC errors', async () => {
+    responseBody = { jsonrpc: '2.0', id: 1, error: { message: 'nonce too low' } };
+
+    await expect(new SequencerClient(url).sendRawTransaction('0xsigned')).rejects.toThrow('nonce too low');
+  });
+});
@@ -0,0 +1,107 @@
+import { JsonRpcProvider, Wallet } from 'ethers';
+import { allocateSplit, splitRecipients } from '../../src/rescue/split-rules';
+import { GasCalculator } from '../../src/rescue/gas-calculator';
+import { BundleBuilder } from '../../src/rescue/bundle-builder';
+import { parseSplitRules } from '../../src/config/config';
+
+const FEE = '0x1111111111111111111111111111111111111111';
+const INSURER = '0x2222222222222222222222222222222222222222';
+const SAFE = '0xabcdef1234567890abcdef1234567890abcdef12';
+
+describe('parseSplitRules', () => {
+  it('should parse percentages and fixed amounts', () => {
+    expect(parseSplitRules(`${FEE}|10%, ${INSURER}|0.5`)).toEqual([
+      { recipient: FEE, percent: 10 },
+      { recipient: INSURER, amountWei: BigInt('500000000000000000') },
+    ]);
+  });
+
+  it('should reject entries without a share', () => {
+    expect(() => parseSplitRules(FEE)).toThrow('Invalid SPLIT_RULES entry');
+  });
+
+  it('should reject unparseable amounts', () => {
+    expect(() => parseSplitRules(`${FEE}|lots`)).toThrow(`Invalid SPLIT_RULES share for ${FEE}`);
+  });
+});
+
+describe('allocateSplit', () => {
+  const rules = [
+    { recipient: FEE, percent: 10 },
+    { recipient: INSURER, amountWei: 100n },
+  ];
+
+  it('should give the remainder to the safe wallet after percentages and fixed amounts', () => {
+    expect(allocateSplit(1000n, rules, SAFE)).toEqual([
+      { to: FEE, amount: 100n },
+      { to: INSURER, amount: 100n },
+      { to: SAFE, amount: 800n },
+    ]);
+  });
+
+  it('should always add up to the total', () => {
+    const transfers = allocateSplit(999_999_999n, [{ recipient: FEE, percent: 33.33 }], SAFE);
+
+    expect(transfers.reduce((sum, transfer) => sum + transfer.amount, 0n)).toBe(999_999_999n);
+  });
+
+  it('should throw when nothing is left for the safe wallet', () => {
+    expect(() => allocateSplit(110n, rules, SAFE)).toThrow('nothing left for the safe wallet');
+  });
+
+  it('should list recipients in transfer order', () => {
+    expect(splitRecipients(rules, SAFE)).toEqual([FEE, INSURER, SAFE]);
+  });
+});
+
+describe('GasCalculator split gas', () => {
+  it('should sum the gas of every transfer, estimating contract recipients', async () => {
+    const mockProvider = {
+      getFeeData: jest.fn().mockResolvedValue({
+        maxFeePerGas: BigInt('50000000000'),
+        maxPriorityFeePerGas: BigInt('2000000000'),
+        gasPrice: BigInt('50000000000'),
+      }),
+      getCode: jest.fn().mockImplementation(async (address: string) => address === INSURER ? '0x60806040' : '0x'),
+      estimateGas: jest.fn().mockResolvedValue(BigInt(40000)),
+    } as unknown as jest.Mocked<JsonRpcProvider>;
+
+    const estimate = await new GasCalculator(mockProvider, 2).calculateSplitGasParams(
+      '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+      [FEE, INSURER, SAFE]
+    );
+
+    expect(estimate.transferGasLimits).toEqual([BigInt(21000), BigInt(48000), BigInt(21000)]);
+    expect(estimate.gasLimit).toBe(BigInt(90000));
+    expect(estimate.totalGasCost).toBe(BigInt(90000) * estimate.maxFeePerGas);
+  });
+});
+
+describe('BundleBuilder split rescue bundle', () => {
+  it('should sign one transfer per recipient with sequential nonces', async () => {
+    const mockProvider = {
+      getNetwork: jest.fn().mockResolvedValue({ chainId: 1n }),
+      getTransactionCount: jest.fn().mockResolvedValue(3),
+    } as unknown as jest.Mocked<JsonRpcProvider>;
+    const wallet = new Wallet('0x' + '11'.repeat(32), mockProvider);
+    const builder = new BundleBuilder(wallet, SAFE);
+
+    const bundle = await builder.buildSplitRescueBundle(
+      [
+        { to: FEE, value: 100n, gasLimit: BigInt(21000) },
+        { to: SAFE, value: 900n, gasLimit: BigInt(48000) },
+      ],
+      {
+        gasLimit: BigInt(69000),
+        maxFeePerGas: BigInt('20000000000'),
+        maxPriorityFeePerGas: BigInt('2000000000'),
+        totalGasCost: BigInt(69000) * BigInt('20000000000'),
+      }
+    );
+
+    expect(bundle.map(entry => entry.transaction.nonce)).toEqual([3, 4]);
+    expect(bundle.map(entry => entry.transaction.value)).toEqual([100n, 900n]);
+    expect(bundle[1].transaction.gasLimit).toBe(BigInt(48000));
+    expect(bundle[1].transaction.maxFeePerGas).toBe(BigInt('20000000000'));
+  });
+});
@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StateStore } from '../../src/utils/state-store';
+import { CircuitBreaker } from '../../src/utils/retry';
+
+describe('StateStore', () => {
+  const WALLET = '0xAbCdEf0000000000000000000000000000000001';
+  const TOKEN = '0x1111111111111111111111111111111111111111';
+
+  let tmpDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'state-store-'));
+    filePath = path.join(tmpDir, 'state.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const bundle = (targetBlock: number) => ({
+    id: `${targetBlock}:0xsweep`,
+    wallet: WALLET,
+    targetBlock,
+    txHashes: ['0xfund', '0xsweep'],
+    submittedAt: 1700000000000,
+  });
+
+  it('should start empty when the file does not exist', () => {
+    const store = new StateStore(filePath);
+
+    expect(store.getLastBalance(WALLET)).toBeUndefined();
+    expect(store.getInFlightBundles(WALLET)).toEqual([]);
+    expect(store.getRescueHistory()).toEqual([]);
+    expect(fs.existsSync(filePath)).toBe(true);
+  });
+
+  it('should restore balances per wallet and token after a restart', () => {
+    const store = new StateStore(filePath);
+    store.recordBalance(WALLET, 5n);
+    store.recordBalance(WALLET, 7n);
+    store.recordBalance(WALLET, 42n, TOKEN);
+
+    const restarted = new StateStore(filePath);
+
+    expect(restarted.getLastBalance(WALLET.toLowerCase())).toBe(7n);
+    expect(restarted.getLastBalance(WALLET, TOKEN)).toBe(42n);
+  });
+
+  it('should keep only unresolved bundles in flight', () => {
+    const store = new StateStore(filePath);
+    store.recordBundle(bundle(100));
+    store.recordBundle(bundle(101));
+    store.resolveBundle(bundle(100).id, false);
+
+    const restarted = new StateStore(filePath);
+
+    expect(restarted.getInFlightBundles(WALLET)).toEqual([{ ...bundle(101), wallet: WALLET.toLowerCase() }]);
+    expect(restarted.getInFlightBundles('0x0000000000000000000000000000000000000002')).toEqual([]);
+  });
+
+  it('should restore rescue history with amounts', () => {
+    const store = new StateStore(filePath);
+    store.recordRescue({ wallet: WALLET, kind: 'eth', success: false, error: 'Bundle not included in target blocks', at: 1 });
+    store.recordRescue({ wallet: WALLET, kind: 'eth', success: true, txHash: '0xsweep', blockNumber: 101, amountRescued: 10n ** 18n, at: 2 });
+
+    const history = new StateStore(filePath).getRescueHistory(WALLET);
+
+    expect(history).toHaveLength(2);
+    expect(history[1]).toMatchObject({ success: true, txHash: '0xsweep', amountRescued: 10n ** 18n });
+  });
+
+  it('should restore an open circuit breaker', async () => {
+    const breaker = new CircuitBreaker(1, 60000, 'test');
+    await expect(breaker.execute(() => Promise.reject(new Error('relay down')))).rejects.toThrow('relay down');
+
+    new StateStore(filePath).saveCircuitBreaker('test', breaker.getSnapshot());
+
+    const restored = new CircuitBreaker(1, 60000, 'test');
+    restored.restore(new StateStore(filePath).getCircuitBreaker('test')!);
+
+    expect(restored.getState()).toBe('OPEN');
+    await expect(restored.execute(() => Promise.resolve(1))).rejects.toThrow('test circuit breaker is OPEN');
+  });
+
+  it('should compact the file on open', () => {
+    const store = new StateStore(filePath);
+    for (let i = 1; i <= 10; i++) {
+      store.recordBalance(WALLET, BigInt(i));
+    }
+
+    new StateStore(filePath);
+
+    expect(fs.readFileSync(filePath, 'utf8').trim().split('\n')).toHaveLength(1);
+  });
+
+  it('should ignore a truncated last line', () => {
+    fs.writeFileSync(filePath, `${JSON.stringify({ type: 'balance', key: WALLET.toLowerCase(), balance: '3' })}\n{"type":"bal`);
+
+    expect(new StateStore(filePath).getLastBalance(WALLET)).toBe(3n);
+  });
+
+  it('should reject a corrupt line before the end', () => {
+    fs.writeFileSync(filePath, `not json\n${JSON.stringify({ type: 'balance', key: WALLET.toLowerCase(), balance: '3' })}\n`);
+
+    expect(() => new StateStore(filePath)).toThrow('is corrupt at line 1');
+  });
+});
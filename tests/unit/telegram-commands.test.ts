@@ -0,0 +1,138 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { JsonRpcProvider } from 'ethers';
+import { ControlledWallet, RescueController } from '../../src/control/rescue-controller';
+import { TelegramCommands } from '../../src/control/telegram-commands';
+import { FlashbotsRescue } from '../../src/rescue/flashbots-rescue';
+import { RescueRecord } from '../../src/utils/state-store';
+
+describe('TelegramCommands', () => {
+  const ADDRESS = '0xAbCdEf0000000000000000000000000000000001';
+  const CHAT_ID = '-1001234';
+  const OPERATOR = 42;
+  const bot = {} as TelegramBot; // Only used once started
+
+  let provider: { getBalance: jest.Mock; getBlock: jest.Mock; getFeeData: jest.Mock };
+  let monitor: { pause: jest.Mock; resume: jest.Mock };
+  let controller: RescueController;
+  let wallet: ControlledWallet;
+  let attempts: RescueRecord[];
+
+  beforeEach(() => {
+    provider = {
+      getBalance: jest.fn().mockResolvedValue(10n ** 18n),
+      getBlock: jest.fn().mockResolvedValue({ number: 100, baseFeePerGas: 20n * 10n ** 9n }),
+      getFeeData: jest.fn().mockResolvedValue({ maxPriorityFeePerGas: 2n * 10n ** 9n, gasPrice: 22n * 10n ** 9n }),
+    };
+    monitor = { pause: jest.fn(), resume: jest.fn() };
+    attempts = [];
+
+    wallet = {
+      name: 'main',
+      address: ADDRESS,
+      flashbotsRescue: {
+        getCircuitBreakerSnapshot: () => ({ state: 'CLOSED', failureCount: 0, lastFailureTime: 0 }),
+        getRecentAttempts: () => attempts,
+      } as unknown as FlashbotsRescue,
+      getLastBalance: () => 5n * 10n ** 17n,
+      getCurrentBalance: () => Promise.resolve(10n ** 18n),
+      getConnectionState: () => ({ mode: 'websocket', connected: true, reconnectAttempts: 0, paused: false }),
+      isRescueInProgress: () => false,
+      rescue: jest.fn().mockResolvedValue(undefined),
+    };
+
+    controller = new RescueController(provider as unknown as JsonRpcProvider, [monitor]);
+    controller.addWallet(wallet);
+  });
+
+  const send = (commands: TelegramCommands, text: string, from: { chatId?: string; userId?: number } = {}) =>
+    commands.handleCommand({ chatId: from.chatId ?? CHAT_ID, userId: from.userId ?? OPERATOR, text });
+
+  it('should ignore other chats and users outside the allowlist', async () => {
+    const commands = new TelegramCommands(bot, CHAT_ID, [OPERATOR], controller);
+
+    expect(await send(commands, '/pause', { chatId: '999' })).toBeUndefined();
+    expect(await send(commands, '/pause', { userId: 7 })).toBeUndefined();
+    expect(monitor.pause).not.toHaveBeenCalled();
+
+    expect(await send(commands, '/pause')).toContain('paused');
+    expect(monitor.pause).toHaveBeenCalledTimes(1);
+  });
+
+  it('should accept anyone in the chat without an allowlist', async () => {
+    const commands = new TelegramCommands(bot, CHAT_ID, [], controller);
+
+    expect(await send(commands, '/resume@rescue_bot', { userId: 7 })).toContain('resumed');
+    expect(await send(commands, 'hello')).toBeUndefined();
+  });
+
+  it('should report status and live balances', async () => {
+    const commands = new TelegramCommands(bot, CHAT_ID, [], controller);
+
+    const status = await send(commands, '/status');
+    expect(status).toContain('Running');
+    expect(status).toContain(`main ${ADDRESS}`);
+    expect(status).toContain('Last balance: 0.500000 ETH');
+    expect(status).toContain('Circuit breaker: CLOSED');
+
+    expect(await send(commands, '/balance')).toBe(`main ${ADDRESS}: 1.000000 ETH`);
+    expect(await send(commands, '/balance other')).toBe('Unknown wallet: other');
+  });
+
+  it('should start a manual rescue and explain refusals', async () => {
+    const commands = new TelegramCommands(bot, CHAT_ID, [], controller);
+
+    expect(await send(commands, '/rescue_now main')).toContain(`Rescue started for ${ADDRESS}`);
+    expect(wallet.rescue).toHaveBeenCalledWith(10n ** 18n);
+
+    provider.getBalance.mockResolvedValue(0n);
+    expect(await send(commands, '/rescue_now')).toBe('❌ Rescue not started: Nothing to rescue, balance is 0');
+  });
+
+  it('should report gas prices and the cost of a transfer', async () => {
+    const commands = new TelegramCommands(bot, CHAT_ID, [], controller);
+
+    const reply = await send(commands, '/gas');
+
+    expect(reply).toContain('Block 100');
+    expect(reply).toContain('Base fee: 20.0 gwei');
+    expect(reply).toContain('Priority fee: 2.0 gwei');
+    expect(reply).toContain('Plain transfer costs: 0.000462 ETH');
+  });
+
+  it('should list recent attempts newest first', async () => {
+    const commands = new TelegramCommands(bot, CHAT_ID, [], controller);
+    expect(await send(commands, '/history')).toBe('No rescue attempts yet');
+
+    attempts.push(
+      { wallet: ADDRESS, kind: 'eth', success: false, error: 'Bundle not included', at: 1_000 },
+      { wallet: ADDRESS, kind: 'eth', success: true, amountRescued: 10n ** 18n, blockNumber: 101, at: 2_000 }
+    );
+
+    const lines = (await send(commands, '/history'))!.split('\n');
+    expect(lines[1]).toBe('  ✅ 1.000000 ETH in block 101');
+    expect(lines[3]).toBe('  ❌ Bundle not included');
+  });
+
+  it('should leave token amounts out of the history', async () => {
+    const commands = new TelegramCommands(bot, CHAT_ID, [], controller);
+    const token = '0x0000000000000000000000000000000000000007';
+    attempts.push({
+      wallet: ADDRESS,
+      kind: 'token',
+      success: true,
+      amountRescued: 2_500_000n, // 2.5 of a 6-decimal token
+      tokenAddress: token,
+      blockNumber: 102,
+      at: 3_000,
+    });
+
+    expect((await send(commands, '/history'))!.split('\n')[1]).toBe(`  ✅ token ${token} in block 102`);
+  });
+
+  it('should report a failing command instead of throwing', async () => {
+    const commands = new TelegramCommands(bot, CHAT_ID, [], controller);
+    provider.getBlock.mockRejectedValue(new Error('RPC down'));
+
+    expect(await send(commands, '/gas')).toBe('❌ /gas failed: RPC down');
+  });
+});
@@ -0,0 +1,85 @@
+import { JsonRpcProvider } from 'ethers';
+import { estimateUnlockBlock, UnlockScheduler } from '../../src/monitors/unlock-scheduler';
+import { ScheduledUnlock } from '../../src/config/schedule-file';
+
+describe('estimateUnlockBlock', () => {
+  const latest = { number: 1000, timestamp: 1700000000 };
+
+  it('should extrapolate future unlock times by block time', () => {
+    expect(estimateUnlockBlock(1700000120, latest, 12)).toBe(1010);
+    expect(estimateUnlockBlock(1700000125, latest, 12)).toBe(1011);
+  });
+
+  it('should return the latest block once the unlock time has passed', () => {
+    expect(estimateUnlockBlock(1699999999, latest, 12)).toBe(1000);
+  });
+});
+
+describe('UnlockScheduler', () => {
+  let blockNumber: number;
+  let mockProvider: jest.Mocked<JsonRpcProvider>;
+
+  const unlock = (overrides: Partial<ScheduledUnlock> = {}): ScheduledUnlock => ({
+    name: 'tge',
+    unlockBlock: 100,
+    expectedAmount: 1000n,
+    windowBlocks: 2,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    blockNumber = 99;
+    mockProvider = {
+      getBlock: jest.fn().mockImplementation(async (tag: string | number) => {
+        const number = tag === 'latest' ? blockNumber : Number(tag);
+        return { number, timestamp: 1700000000 + number * 12 };
+      }),
+      // Every poll sees a new block, as if the chain kept moving
+      getBlockNumber: jest.fn().mockImplementation(async () => ++blockNumber),
+    } as unknown as jest.Mocked<JsonRpcProvider>;
+  });
+
+  it('should re-arm every block in the window until a rescue lands', async () => {
+    const onArm = jest.fn()
+      .mockResolvedValueOnce({ success: false, error: 'not included' })
+      .mockResolvedValueOnce({ success: true, txHash: '0xabc', blockNumber: 101 });
+
+    const result = await new UnlockScheduler(mockProvider, 1).schedule(unlock(), onArm);
+
+    expect(onArm).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({ success: true, txHash: '0xabc', blockNumber: 101 });
+  });
+
+  it('should give up once the window has passed', async () => {
+    const onArm = jest.fn().mockResolvedValue({ success: false, error: 'not included' });
+
+    const result = await new UnlockScheduler(mockProvider, 1).schedule(unlock(), onArm);
+
+    // Blocks 100, 101 and 102 are inside 100 ± 2
+    expect(onArm).toHaveBeenCalledTimes(3);
+    expect(result).toBeUndefined();
+  });
+
+  it('should not arm before the window opens', async () => {
+    blockNumber = 50;
+    const scheduler = new UnlockScheduler(mockProvider, 1);
+    const onArm = jest.fn();
+
+    const pending = scheduler.schedule(unlock(), onArm);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    scheduler.stop();
+    await pending;
+
+    expect(onArm).not.toHaveBeenCalled();
+  });
+
+  it('should keep arming after a failed attempt throws', async () => {
+    const onArm = jest.fn()
+      .mockRejectedValueOnce(new Error('relay down'))
+      .mockResolvedValueOnce({ success: true });
+
+    const result = await new UnlockScheduler(mockProvider, 1).schedule(unlock(), onArm);
+
+    expect(result).toEqual({ success: true });
+  });
+});
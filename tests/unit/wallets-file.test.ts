@@ -0,0 +1,87 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadGuardedWallets } from '../../src/config/wallets-file';
+
+describe('loadGuardedWallets', () => {
+  const KEY_A = '0x' + '11'.repeat(32);
+  const KEY_B = '0x' + '22'.repeat(32);
+  const SAFE = '0xabcdef1234567890abcdef1234567890abcdef12';
+  const originalEnv = process.env;
+
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wallets-file-'));
+    process.env = { ...originalEnv };
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    process.env = originalEnv;
+  });
+
+  const writeWallets = (content: unknown): string => {
+    const filePath = path.join(tmpDir, 'wallets.json');
+    fs.writeFileSync(filePath, JSON.stringify(content));
+    return filePath;
+  };
+
+  it('should parse wallets with per-wallet thresholds and chats', () => {
+    const filePath = writeWallets([
+      { name: 'alice', privateKey: KEY_A, safeWalletAddress: SAFE, minRescueAmountEth: '0.01', telegramChatId: -100123 },
+      { privateKey: KEY_B, safeWalletAddress: SAFE, maxPriorityFeeGwei: 5 },
+    ]);
+
+    expect(loadGuardedWallets(filePath)).toEqual([
+      {
+        name: 'alice',
+        privateKey: KEY_A,
+        safeWalletAddress: SAFE,
+        minRescueAmountWei: BigInt('10000000000000000'),
+        maxPriorityFeeGwei: undefined,
+        telegramChatId: '-100123',
+      },
+      {
+        name: 'wallet-1',
+        privateKey: KEY_B,
+        safeWalletAddress: SAFE,
+        minRescueAmountWei: undefined,
+        maxPriorityFeeGwei: 5,
+        telegramChatId: undefined,
+      },
+    ]);
+  });
+
+  it('should read private keys from the named environment variable', () => {
+    process.env.ALICE_KEY = KEY_A;
+    const filePath = writeWallets([{ name: 'alice', privateKeyEnv: 'ALICE_KEY', safeWalletAddress: SAFE }]);
+
+    expect(loadGuardedWallets(filePath)[0].privateKey).toBe(KEY_A);
+  });
+
+  it('should reject a missing key environment variable', () => {
+    const filePath = writeWallets([{ name: 'alice', privateKeyEnv: 'MISSING_KEY', safeWalletAddress: SAFE }]);
+
+    expect(() => loadGuardedWallets(filePath)).toThrow('Wallet alice: environment variable MISSING_KEY');
+  });
+
+  it('should reject invalid safe wallet addresses', () => {
+    const filePath = writeWallets([{ name: 'alice', privateKey: KEY_A, safeWalletAddress: '0x1234' }]);
+
+    expect(() => loadGuardedWallets(filePath)).toThrow('Wallet alice: invalid safeWalletAddress');
+  });
+
+  it('should reject the same key listed twice', () => {
+    const filePath = writeWallets([
+      { name: 'alice', privateKey: KEY_A, safeWalletAddress: SAFE },
+      { name: 'bob', privateKey: KEY_A.toUpperCase().replace('0X', '0x'), safeWalletAddress: SAFE },
+    ]);
+
+    expect(() => loadGuardedWallets(filePath)).toThrow('Wallet bob: private key is listed more than once');
+  });
+
+  it('should reject an empty list', () => {
+    expect(() => loadGuardedWallets(writeWallets([]))).toThrow('non-empty JSON array');
+  });
+});